@@ -0,0 +1,311 @@
+/**
+ * Configuration file
+ * Reads settings from a JSON or YAML file and flattens them into the same names the environment
+ * variables use. Settings are written under their variable names; targets are written as a map
+ * and become TARGETS and TARGET_<NAME>_* settings. Named profiles are applied over the base
+ * settings. String values may use `${VAR}` or `${VAR:-default}` to read environment variables
+ * (`$${` is a literal `${`), and `{ "secret": "env:NAME" }` or `{ "secret": "file:path" }` to read
+ * a value that is kept out of the file and masked in logs.
+ *
+ *   # supabase-mcp.yaml
+ *   SUPABASE_PROJECT_URL: https://abc.supabase.co
+ *   SUPABASE_API_KEY: ${SUPABASE_API_KEY}
+ *   profiles:
+ *     prod:
+ *       READ_ONLY: true
+ *       DB_PASSWORD: { secret: file:/run/secrets/db_password }
+ *
+ *   CONFIG_FILE      path of the file (default: supabase-mcp.json, .yaml or .yml in the working
+ *                    directory or its config directory)
+ *   CONFIG_PROFILE   profile applied over the base settings (default: the file's `profile`)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { findSetting, TARGET_SETTINGS } from './schema.js';
+
+/**
+ * Settings read from a configuration file
+ */
+export interface ConfigFileSettings {
+  file: string;
+  profile: string | null;
+  settings: Record<string, string>;
+  // Values read through secret references, to be masked in logs
+  secrets: string[];
+  problems: string[];
+}
+
+// Options of resolving a parsed file
+interface ResolveOptions {
+  // Directory relative paths are resolved against
+  baseDir: string;
+  // Profile to apply; undefined uses the file's own `profile`
+  profile?: string;
+  // Reads environment variables for interpolation and env: secrets
+  lookup: (name: string) => string | undefined;
+}
+
+// File names looked for when CONFIG_FILE isn't set, in this order
+const FILE_NAMES = ['supabase-mcp.json', 'supabase-mcp.yaml', 'supabase-mcp.yml'];
+
+// Keys of the file that aren't settings
+const STRUCTURE_KEYS = new Set(['profile', 'profiles', 'targets']);
+
+/**
+ * Finds the configuration file to read, or returns null when there is none
+ */
+export function findConfigFile(cwd: string, configured?: string): string | null {
+  if (configured) {
+    return path.resolve(cwd, configured);
+  }
+
+  for (const dir of [cwd, path.join(cwd, 'config')]) {
+    for (const name of FILE_NAMES) {
+      const file = path.join(dir, name);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads and resolves a configuration file
+ */
+export function readConfigFile(file: string, options: Omit<ResolveOptions, 'baseDir'>): ConfigFileSettings {
+  let document: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    document = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    return {
+      file,
+      profile: null,
+      settings: {},
+      secrets: [],
+      problems: [`Could not read the file: ${error.message}`],
+    };
+  }
+
+  return { file, ...resolveConfig(document, { ...options, baseDir: path.dirname(file) }) };
+}
+
+/**
+ * Flattens a parsed configuration document into settings
+ * The base settings come first, then the selected profile's; targets are merged by name.
+ */
+export function resolveConfig(document: unknown, options: ResolveOptions): Omit<ConfigFileSettings, 'file'> {
+  const problems: string[] = [];
+  const secrets: string[] = [];
+
+  if (!isObject(document)) {
+    return { profile: null, settings: {}, secrets, problems: ['The configuration file must contain an object of settings'] };
+  }
+
+  const profiles = document.profiles ?? {};
+  if (!isObject(profiles) || !Object.values(profiles).every(isObject)) {
+    problems.push('profiles must map profile names to objects of settings');
+  }
+
+  const selected = options.profile || document.profile;
+  if (selected !== undefined && typeof selected !== 'string') {
+    problems.push('profile must be the name of a profile');
+  }
+
+  const layers: [string, Record<string, unknown>][] = [['', document]];
+  if (typeof selected === 'string' && selected !== '' && isObject(profiles)) {
+    if (isObject(profiles[selected])) {
+      layers.push([`profiles.${selected}.`, profiles[selected]]);
+    } else {
+      const names = Object.keys(profiles);
+      problems.push(`Unknown profile "${selected}". ${names.length > 0 ? `Profiles in the file: ${names.join(', ')}` : 'The file defines no profiles'}`);
+    }
+  }
+
+  const settings: Record<string, string> = {};
+  const targetNames: string[] = [];
+  const read = (value: unknown, where: string, key: string) => readValue(value, where, key, options, problems, secrets);
+
+  for (const [prefix, layer] of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (STRUCTURE_KEYS.has(key)) {
+        if (prefix && key !== 'targets') {
+          problems.push(`${prefix}${key}: profiles can't be nested`);
+        }
+        continue;
+      }
+      if (!findSetting(key)) {
+        problems.push(`${prefix}${key}: unknown setting`);
+        continue;
+      }
+      const resolved = read(value, prefix + key, key);
+      if (resolved !== undefined) {
+        settings[key] = resolved;
+      }
+    }
+
+    if (layer.targets === undefined) {
+      continue;
+    }
+    if (!isObject(layer.targets)) {
+      problems.push(`${prefix}targets must map target names to objects of settings`);
+      continue;
+    }
+    for (const [name, target] of Object.entries(layer.targets)) {
+      const where = `${prefix}targets.${name}`;
+      if (!/^[A-Za-z][\w-]*$/.test(name)) {
+        problems.push(`${where}: invalid target name; use letters, digits, "_" or "-"`);
+        continue;
+      }
+      if (!isObject(target)) {
+        problems.push(`${where} must be an object of settings`);
+        continue;
+      }
+      if (!targetNames.includes(name)) {
+        targetNames.push(name);
+      }
+
+      const targetPrefix = `TARGET_${name.toUpperCase().replace(/-/g, '_')}_`;
+      for (const [key, value] of Object.entries(target)) {
+        if (!TARGET_SETTINGS[key]) {
+          problems.push(`${where}.${key}: unknown target setting; use one of ${Object.keys(TARGET_SETTINGS).join(', ')}`);
+          continue;
+        }
+        const resolved = read(value, `${where}.${key}`, key);
+        if (resolved !== undefined) {
+          settings[targetPrefix + key] = resolved;
+        }
+      }
+    }
+  }
+
+  // Targets written as a map are listed in the order they appear, unless TARGETS is set
+  if (targetNames.length > 0 && !settings.TARGETS) {
+    settings.TARGETS = targetNames.join(',');
+  }
+
+  return {
+    profile: typeof selected === 'string' && selected !== '' ? selected : null,
+    settings,
+    secrets,
+    problems,
+  };
+}
+
+/**
+ * Converts one value of the file to the text of a setting, or undefined when it is unset or invalid
+ */
+function readValue(
+  value: unknown,
+  where: string,
+  key: string,
+  options: ResolveOptions,
+  problems: string[],
+  secrets: string[]
+): string | undefined {
+  const definition = findSetting(key) ?? TARGET_SETTINGS[key];
+
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    const text = interpolate(value, where, options.lookup, problems);
+    return text !== undefined && definition?.type === 'path' && text !== '' ? path.resolve(options.baseDir, text) : text;
+  }
+  if (Array.isArray(value) && definition?.type === 'list') {
+    const items = value.map((item, index) => typeof item === 'string' || typeof item === 'number'
+      ? interpolate(String(item), `${where}[${index}]`, options.lookup, problems)
+      : undefined);
+    if (items.some((item) => item === undefined)) {
+      problems.push(`${where}: list items must be strings`);
+      return undefined;
+    }
+    return items.join(',');
+  }
+  if (isObject(value) && Object.keys(value).length === 1 && typeof value.secret === 'string') {
+    const secret = readSecret(value.secret, where, options, problems);
+    if (secret !== undefined) {
+      secrets.push(secret);
+    }
+    return secret;
+  }
+
+  problems.push(`${where}: expected a string, number or boolean${definition?.type === 'list' ? ', or a list' : ''}, or { "secret": "env:NAME" | "file:path" }`);
+  return undefined;
+}
+
+/**
+ * Replaces `${VAR}` and `${VAR:-default}` with environment variables
+ * Returns undefined, with a problem, when a variable without a default isn't set.
+ */
+export function interpolate(
+  text: string,
+  where: string,
+  lookup: (name: string) => string | undefined,
+  problems: string[]
+): string | undefined {
+  let missing = false;
+  const result = text.replace(/\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, name?: string, fallback?: string) => {
+    if (!name) {
+      return '${';
+    }
+    const value = lookup(name);
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    problems.push(`${where}: environment variable ${name} is not set`);
+    missing = true;
+    return match;
+  });
+  return missing ? undefined : result;
+}
+
+/**
+ * Reads the value a secret reference points to
+ */
+function readSecret(reference: string, where: string, options: ResolveOptions, problems: string[]): string | undefined {
+  const separator = reference.indexOf(':');
+  const scheme = separator > 0 ? reference.slice(0, separator) : '';
+  const target = interpolate(reference.slice(separator + 1), where, options.lookup, problems);
+  if (target === undefined) {
+    return undefined;
+  }
+
+  switch (scheme) {
+    case 'env': {
+      const value = options.lookup(target);
+      if (value === undefined || value === '') {
+        problems.push(`${where}: secret environment variable ${target} is not set`);
+        return undefined;
+      }
+      return value;
+    }
+
+    case 'file': {
+      const file = path.resolve(options.baseDir, target);
+      try {
+        // Secret files usually end with a newline that isn't part of the value
+        return fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+      } catch (error: any) {
+        problems.push(`${where}: could not read secret file ${file}: ${error.message}`);
+        return undefined;
+      }
+    }
+
+    default:
+      problems.push(`${where}: secret references must start with "env:" or "file:"`);
+      return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,235 @@
+/**
+ * Configuration schema
+ * Every setting the server reads, with its type, so configuration mistakes are reported once at
+ * startup instead of each module quietly falling back to its default.
+ */
+
+/**
+ * Type and constraints of one setting
+ */
+export interface SettingDefinition {
+  // Paths in a configuration file are relative to the file; elsewhere to the working directory
+  type: 'string' | 'path' | 'url' | 'number' | 'boolean' | 'list';
+  // Allowed values of a string, or of each item of a list
+  values?: string[];
+  // Compare against the allowed values without regard to case
+  ignoreCase?: boolean;
+  // Bounds and wholeness of a number
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Words accepted as booleans, as getFlag reads them
+export const TRUE_WORDS = ['true', '1', 'yes', 'on'];
+export const FALSE_WORDS = ['false', '0', 'no', 'off'];
+
+const string: SettingDefinition = { type: 'string' };
+const file: SettingDefinition = { type: 'path' };
+const url: SettingDefinition = { type: 'url' };
+const flag: SettingDefinition = { type: 'boolean' };
+const list: SettingDefinition = { type: 'list' };
+const count: SettingDefinition = { type: 'number', min: 0, integer: true };
+const positive: SettingDefinition = { type: 'number', min: 1, integer: true };
+const oneOf = (...values: string[]): SettingDefinition => ({ type: 'string', values });
+
+// Settings of the single target configured at the top level when TARGETS isn't set
+const DEFAULT_TARGET_SETTINGS: Record<string, SettingDefinition> = {
+  SUPABASE_PROJECT_URL: url,
+  SUPABASE_API_KEY: string,
+  DB_PASSWORD: string,
+  DB_BACKEND: oneOf('rpc', 'pg'),
+  DB_CONNECTION: oneOf('direct', 'session', 'transaction'),
+  DATABASE_URL: string,
+  DB_POOL_MAX: positive,
+  DB_POOLER_REGION: string,
+  DB_SSLMODE: oneOf('disable', 'prefer', 'require', 'verify-ca', 'verify-full', 'no-verify'),
+  DB_SSL_ROOT_CERT: file,
+  READ_ONLY: flag,
+  ALLOW_MIGRATIONS: flag,
+  ALLOW_SQLQUERY_SETUP: flag,
+};
+
+/**
+ * Settings of a named target, set as TARGET_<NAME>_<SETTING>
+ */
+export const TARGET_SETTINGS: Record<string, SettingDefinition> = {
+  ...DEFAULT_TARGET_SETTINGS,
+  DESCRIPTION: string,
+};
+
+/**
+ * Every top-level setting
+ */
+export const SETTINGS: Record<string, SettingDefinition> = {
+  ...DEFAULT_TARGET_SETTINGS,
+  ACTIVE_ENV: oneOf('dev', 'test', 'prod'),
+
+  // Configuration file
+  CONFIG_FILE: file,
+  CONFIG_PROFILE: string,
+
+  // Targets
+  TARGETS: list,
+  DEFAULT_TARGET: string,
+
+  // Transport
+  MCP_TRANSPORT: oneOf('stdio', 'http'),
+  MCP_HTTP_HOST: string,
+  MCP_HTTP_PORT: { type: 'number', min: 0, max: 65535, integer: true },
+  MCP_AUTH_TOKEN: string,
+  MCP_HTTP_ALLOWED_ORIGINS: list,
+
+  // Capabilities
+  CAPABILITY_PROBE: flag,
+  CAPABILITY_PROBE_TIMEOUT_MS: positive,
+
+  // Schema access and caching
+  SCHEMA_ALLOWLIST: list,
+  SCHEMA_DENYLIST: list,
+  SCHEMA_CACHE_TTL_SECONDS: count,
+  SCHEMA_POLL_INTERVAL_SECONDS: count,
+  SCHEMA_SNAPSHOT_DIR: file,
+  RESOURCE_PAGE_SIZE: positive,
+  ERD_MAX_TABLES: positive,
+
+  // Query limits
+  QUERY_MAX_ROWS: positive,
+  QUERY_MAX_BYTES: positive,
+  QUERY_PAGE_TTL_SECONDS: positive,
+  QUERY_MAX_OPEN_CURSORS: positive,
+  QUERY_MARKDOWN_CELL_WIDTH: positive,
+  QUERY_TIMEOUT_MS: count,
+  QUERY_MAX_TIMEOUT_MS: count,
+  IDENTITY_COMPARE_MAX_ROWS: positive,
+  EXPLAIN_LARGE_TABLE_ROWS: count,
+  COST_GUARD: { ...oneOf('off', 'reject', 'confirm'), ignoreCase: true },
+  COST_GUARD_MAX_COST: { type: 'number', min: 0 },
+  COST_GUARD_MAX_ROWS: count,
+  COST_GUARD_SEQ_SCAN_ROWS: count,
+  COST_GUARD_CONFIRMATION_TTL_SECONDS: positive,
+
+  // Samples and masking
+  SAMPLE_ROWS_DEFAULT: positive,
+  SAMPLE_ROWS_MAX: positive,
+  MASK_QUERY_RESULTS: flag,
+  MASKING_POLICY_FILE: file,
+  MASKING_HASH_SALT: string,
+
+  // Prompts
+  PROMPTS_DIR: file,
+  PROMPT_MAX_TABLES: positive,
+  PROMPT_SAMPLE_ROWS: count,
+  PROMPT_STATS_SAMPLE_ROWS: count,
+
+  // Tools that change the database
+  ENABLE_WRITE_TOOLS: flag,
+  WRITE_PREVIEW_ROWS: count,
+  WRITE_MAX_AFFECTED_ROWS: count,
+  WRITE_CONFIRMATION_TTL_SECONDS: positive,
+  MIGRATIONS_DIR: file,
+  MIGRATIONS_TABLE: string,
+
+  // Logging and auditing
+  LOG_LEVEL: { ...oneOf('debug', 'info', 'warn', 'error'), ignoreCase: true },
+  LOG_FORMAT: { ...oneOf('text', 'json'), ignoreCase: true },
+  LOG_OUTPUTS: { type: 'list', values: ['stderr', 'file', 'mcp'], ignoreCase: true },
+  LOG_FILE: file,
+  LOG_MAX_BYTES: positive,
+  LOG_MAX_FILES: count,
+  AUDIT_LOG: flag,
+  AUDIT_LOG_DIR: file,
+  AUDIT_LOG_PARAMETERS: oneOf('redacted', 'full'),
+  AUDIT_RETENTION_DAYS: count,
+};
+
+/**
+ * Returns the definition of a setting name, including TARGET_<NAME>_<SETTING> names
+ */
+export function findSetting(key: string): SettingDefinition | null {
+  if (SETTINGS[key]) {
+    return SETTINGS[key];
+  }
+
+  // Target names may contain "_", so the setting is recognized by its suffix
+  if (key.startsWith('TARGET_')) {
+    const name = Object.keys(TARGET_SETTINGS).find((setting) =>
+      key.endsWith(`_${setting}`) && key.length > `TARGET__${setting}`.length);
+    if (name) {
+      return TARGET_SETTINGS[name];
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks one value against its definition, returning what is wrong with it or null
+ */
+export function checkSetting(definition: SettingDefinition, value: string): string | null {
+  const text = value.trim();
+
+  switch (definition.type) {
+    case 'boolean':
+      return [...TRUE_WORDS, ...FALSE_WORDS].includes(text.toLowerCase())
+        ? null
+        : `expected true or false (also 1/0, yes/no, on/off)`;
+
+    case 'number': {
+      const number = Number(text);
+      if (text === '' || !Number.isFinite(number)) {
+        return 'expected a number';
+      }
+      if (definition.integer && !Number.isInteger(number)) {
+        return 'expected a whole number';
+      }
+      if (definition.min !== undefined && number < definition.min) {
+        return `expected at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && number > definition.max) {
+        return `expected at most ${definition.max}`;
+      }
+      return null;
+    }
+
+    case 'url':
+      try {
+        const parsed = new URL(text);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? null : 'expected an http(s) URL';
+      } catch {
+        return 'expected an http(s) URL';
+      }
+
+    case 'path':
+      return null;
+
+    case 'list':
+    case 'string': {
+      if (!definition.values) {
+        return null;
+      }
+      const items = definition.type === 'list' ? text.split(',').map((item) => item.trim()).filter(Boolean) : [text];
+      const invalid = items.filter((item) => !definition.values!.includes(definition.ignoreCase ? item.toLowerCase() : item));
+      return invalid.length > 0 ? `expected ${definition.type === 'list' ? 'a list of ' : ''}${definition.values.join(', ')}` : null;
+    }
+  }
+}
+
+/**
+ * Checks every known setting of a configuration
+ * `origin` names where a setting came from, for the messages.
+ */
+export function validateSettings(values: Record<string, string>, origin: (key: string) => string | undefined = () => undefined): string[] {
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const definition = findSetting(key);
+    if (!definition || value === '') {
+      continue;
+    }
+    const problem = checkSetting(definition, value);
+    if (problem) {
+      const from = origin(key);
+      problems.push(`${key}: ${problem}, got "${value}"${from ? ` (from ${from})` : ''}`);
+    }
+  }
+  return problems;
+}
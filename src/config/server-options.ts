@@ -0,0 +1,60 @@
+/**
+ * Server startup options
+ * Combines command-line flags with environment settings; flags take precedence
+ */
+import { parseArgs } from 'util';
+import { EnvironmentVariables, getNumber, McpTransportKind } from './env.js';
+
+/**
+ * How the MCP server is exposed to clients
+ */
+export interface ServerOptions {
+  transport: McpTransportKind;
+  // Address and port the HTTP transport listens on
+  host: string;
+  port: number;
+  // Bearer token HTTP clients must send, if any
+  authToken: string | null;
+  // Browser origins allowed besides the server's own host
+  allowedOrigins: string[];
+}
+
+/**
+ * Reads the server options from command-line arguments and the environment
+ *
+ *   --transport <stdio|http>   MCP_TRANSPORT
+ *   --host <address>           MCP_HTTP_HOST (default 127.0.0.1)
+ *   --port <number>            MCP_HTTP_PORT (default 3000)
+ *
+ * The auth token is only read from MCP_AUTH_TOKEN so it doesn't show up in process listings.
+ * Browser origins other than the server's own host are listed in MCP_HTTP_ALLOWED_ORIGINS.
+ */
+export function getServerOptions(argv: string[], env: EnvironmentVariables): ServerOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+    strict: true,
+  });
+
+  const transport = (values.transport ?? env.MCP_TRANSPORT ?? 'stdio') as McpTransportKind;
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const port = values.port !== undefined ? Number(values.port) : getNumber(env, 'MCP_HTTP_PORT', 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port ?? env.MCP_HTTP_PORT}"`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? env.MCP_HTTP_HOST ?? '127.0.0.1',
+    port,
+    authToken: env.MCP_AUTH_TOKEN || null,
+    allowedOrigins: (env.MCP_HTTP_ALLOWED_ORIGINS ?? '').split(',').map((origin) => origin.trim()).filter(Boolean),
+  };
+}
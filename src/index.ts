@@ -6,62 +6,109 @@
  */
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { env } from "./config/env.js";
+import { env, getConfigurationProblems } from "./config/env.js";
+import { getServerOptions } from "./config/server-options.js";
 import { setupRequestHandlers } from "./services/mcp-handlers.js";
+import { HttpTransportHandle, startHttpTransport } from "./services/http-transport.js";
+import { closeBackend } from "./services/supabase.js";
+import { describeTarget, getTargets, validateTarget } from "./services/targets.js";
+import { closeAllPages } from "./services/query-pager.js";
+import { isProbeEnabled, probeAllTargets } from "./services/capabilities.js";
 import logger from "./utils/logging.js";
 
+// The running HTTP transport, closed on shutdown
+let httpTransport: HttpTransportHandle | null = null;
+
+/**
+ * Create an MCP server with all request handlers registered
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "postgres-mcp-server",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        resources: { subscribe: true, listChanged: true },
+        tools: { listChanged: true },
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+  
+  setupRequestHandlers(server);
+  
+  // Forward log messages to this client while it is connected (LOG_OUTPUTS=mcp)
+  const detachLogging = logger.attachMcpServer(server);
+  const onclose = server.onclose;
+  server.onclose = () => {
+    detachLogging();
+    onclose?.();
+  };
+  return server;
+}
+
 /**
  * Initialize and start the MCP server
  */
 async function main() {
   try {
+    // Settings that don't match the configuration schema stop the server before it does anything
+    const configurationProblems = getConfigurationProblems();
+    if (configurationProblems.length > 0) {
+      logger.error("Invalid configuration. Please fix these settings.", { problems: configurationProblems });
+      process.exit(1);
+    }
+    
+    const options = getServerOptions(process.argv.slice(2), env);
+    
+    const databaseTargets = getTargets();
+    
     // Log startup information
     logger.info("Starting PostgreSQL MCP Server", {
       version: "0.1.0",
       environment: env.ACTIVE_ENV,
-      supabaseProject: env.SUPABASE_PROJECT_URL
+      targets: databaseTargets.map(describeTarget),
+      transport: options.transport
     });
     
     // Check for required configuration
-    if (!env.SUPABASE_PROJECT_URL || !env.SUPABASE_API_KEY) {
-      logger.error("Missing required configuration", {
-        supabaseProjectUrl: !!env.SUPABASE_PROJECT_URL,
-        supabaseApiKey: !!env.SUPABASE_API_KEY
-      });
-      console.error("Missing Supabase configuration. Please check your .env file.");
-      console.error("Required variables: SUPABASE_PROJECT_URL, SUPABASE_API_KEY");
+    const problems = databaseTargets.flatMap((target) =>
+      validateTarget(target).map((problem) => `[${target.name}] ${problem}`));
+    if (problems.length > 0) {
+      logger.error("Invalid database configuration. Please check your configuration file, .env file or environment.", { problems });
       process.exit(1);
     }
     
-    // Create the MCP server
-    const server = new Server(
-      {
-        name: "postgres-mcp-server",
-        version: "0.1.0",
-      },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-        },
-      }
-    );
-    
-    // Set up all request handlers
-    setupRequestHandlers(server);
-    
     // Set up graceful shutdown
     setupGracefulShutdown();
     
+    // Find out what each target can do before clients list the tools
+    if (isProbeEnabled()) {
+      await probeAllTargets();
+    }
+    
+    if (options.transport === 'http') {
+      if (!options.authToken) {
+        logger.warn("MCP_AUTH_TOKEN is not set; the HTTP transport accepts unauthenticated requests from this machine");
+      }
+      
+      // Each HTTP session gets its own server instance
+      httpTransport = await startHttpTransport(createServer, options);
+      logger.info("Server listening for HTTP sessions", { url: `${httpTransport.url}/sse` });
+      return;
+    }
+    
     // Connect to the transport and start the server
     const transport = new StdioServerTransport();
     logger.info("Connecting to transport");
-    await server.connect(transport);
+    await createServer().connect(transport);
     
     logger.info("Server started and connected to transport");
   } catch (error) {
     logger.error("Failed to start server", { error });
-    console.error("Failed to start server:", error);
     process.exit(1);
   }
 }
@@ -71,33 +118,45 @@ async function main() {
  */
 function setupGracefulShutdown() {
   // Handle process termination
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     logger.info("Received SIGINT, shutting down gracefully");
+    await shutdown();
     process.exit(0);
   });
   
-  process.on('SIGTERM', () => {
+  process.on('SIGTERM', async () => {
     logger.info("Received SIGTERM, shutting down gracefully");
+    await shutdown();
     process.exit(0);
   });
   
   // Handle uncaught exceptions
   process.on('uncaughtException', (error) => {
     logger.error("Uncaught exception", { error });
-    console.error("Uncaught exception:", error);
     process.exit(1);
   });
   
   // Handle unhandled promise rejections
   process.on('unhandledRejection', (reason) => {
     logger.error("Unhandled promise rejection", { reason });
-    console.error("Unhandled promise rejection:", reason);
     process.exit(1);
   });
 }
 
+/**
+ * Close open HTTP sessions, query cursors and database connections
+ */
+async function shutdown() {
+  if (httpTransport) {
+    logger.info("Closing HTTP sessions", { sessions: httpTransport.sessionCount() });
+    await httpTransport.close().catch(() => {});
+  }
+  await closeAllPages();
+  await closeBackend().catch(() => {});
+}
+
 // Start the server
 main().catch(error => {
-  console.error("Fatal error:", error);
+  logger.error("Fatal error", { error });
   process.exit(1);
 }); 
\ No newline at end of file
@@ -0,0 +1,311 @@
+/**
+ * Query audit log
+ * Records every SQL statement run against a database target in append-only JSON-lines files,
+ * one file per day, so what an assistant ran can be reviewed and replayed later.
+ *
+ *   AUDIT_LOG              set to true to enable the audit log (default false)
+ *   AUDIT_LOG_DIR          directory of the daily log files (default ./audit, relative to the
+ *                          server's working directory, which the MCP client chooses)
+ *   AUDIT_RETENTION_DAYS   days of log files kept; older files are deleted (default 30, 0 keeps all)
+ *   AUDIT_LOG_PARAMETERS   'redacted' stores only parameter types, 'full' stores values with secrets masked
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { env, getFlag, getNumber } from '../config/env.js';
+import { currentTarget } from './targets.js';
+import logger from '../utils/logging.js';
+
+/**
+ * What caused a statement to run
+ */
+export type AuditSource =
+  | 'tool'           // a tool call
+  | 'resource'       // listing or reading resources
+  | 'prompt'         // filling a prompt template
+  | 'introspection'  // catalog lookups made on behalf of one of the above
+  | 'internal';      // anything outside a client request
+
+/**
+ * The request a statement runs for
+ */
+export interface AuditContext {
+  // MCP session the request belongs to
+  session: string | null;
+  source: AuditSource;
+  // Tool name, resource URI or prompt name
+  origin: string | null;
+}
+
+/**
+ * A recorded statement
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  session: string | null;
+  target: string;
+  source: AuditSource;
+  origin: string | null;
+  sql: string;
+  params: unknown[];
+  durationMs: number;
+  rowCount: number | null;
+  error: string | null;
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditFilter {
+  session?: string;
+  target?: string;
+  source?: AuditSource;
+  origin?: string;
+  // Only entries at or after / before these ISO timestamps
+  since?: string;
+  until?: string;
+  // Only failed (true) or successful (false) statements
+  errors?: boolean;
+  // Case-insensitive text the SQL must contain
+  contains?: string;
+  // Most recent entries returned (default 100)
+  limit?: number;
+}
+
+const AUDIT_SOURCES: AuditSource[] = ['tool', 'resource', 'prompt', 'introspection', 'internal'];
+
+const MAX_LIMIT = 1000;
+
+const FILE_PATTERN = /^queries-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+// Request the running statement belongs to
+const activeContext = new AsyncLocalStorage<AuditContext>();
+
+// Day of the file written last, used to prune old files once per day
+let lastWrittenDay: string | null = null;
+
+/**
+ * Whether statements are recorded
+ * On unless AUDIT_LOG is false
+ */
+export function isAuditEnabled(): boolean {
+  return getFlag(env, 'AUDIT_LOG', true);
+}
+
+/**
+ * Returns the directory holding the log files
+ */
+function auditDir(): string {
+  return path.resolve(process.cwd(), env.AUDIT_LOG_DIR || 'audit');
+}
+
+/**
+ * Runs a callback as part of a client request
+ * Statements run inside the callback, including nested async calls, are recorded with this context
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return activeContext.run(context, fn);
+}
+
+/**
+ * Returns the MCP session of the running request, if any
+ */
+export function currentSession(): string | null {
+  return activeContext.getStore()?.session ?? null;
+}
+
+/**
+ * Runs a callback with a different source, keeping the session and origin of the current request
+ */
+export function runWithSource<T>(source: AuditSource, fn: () => Promise<T>): Promise<T> {
+  const context = activeContext.getStore();
+  return activeContext.run({ session: context?.session ?? null, origin: context?.origin ?? null, source }, fn);
+}
+
+/**
+ * Describes parameter values for the log
+ * By default only their types are kept, since parameters often carry personal data
+ */
+function auditParameters(params: unknown[]): unknown[] {
+  if (env.AUDIT_LOG_PARAMETERS === 'full') {
+    return logger.redact(params) as unknown[];
+  }
+
+  return params.map((value) => {
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) return `<array(${value.length})>`;
+    return `<${typeof value}>`;
+  });
+}
+
+/**
+ * Starts recording a statement
+ * The request context, target and start time are captured now; the returned function
+ * records the outcome. Failures to write are logged and never fail the statement itself.
+ */
+export function auditQuery(sql: string, params: unknown[] = []): (outcome: {
+  rowCount: number | null;
+  error: { message?: string } | string | null;
+  // Defaults to the time elapsed since auditQuery was called
+  durationMs?: number;
+}) => void {
+  if (!isAuditEnabled()) {
+    return () => {};
+  }
+
+  const context = activeContext.getStore();
+  const target = currentTarget().name;
+  const startedAt = new Date();
+
+  return (outcome) => {
+    const error = outcome.error;
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: startedAt.toISOString(),
+      session: context?.session ?? null,
+      target,
+      source: context?.source ?? 'internal',
+      origin: context?.origin ?? null,
+      sql: logger.redact(sql) as string,
+      params: auditParameters(params),
+      durationMs: outcome.durationMs ?? Date.now() - startedAt.getTime(),
+      rowCount: outcome.rowCount,
+      error: error
+        ? logger.redact(typeof error === 'string' ? error : error.message ?? 'Unknown error') as string
+        : null
+    };
+    appendEntry(entry);
+  };
+}
+
+/**
+ * Appends an entry to the file of the current day, pruning old files when the day changes
+ */
+function appendEntry(entry: AuditEntry): void {
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  try {
+    const dir = auditDir();
+    if (day !== lastWrittenDay) {
+      fs.mkdirSync(dir, { recursive: true });
+      pruneAuditLog(now);
+      lastWrittenDay = day;
+    }
+    fs.appendFileSync(path.join(dir, `queries-${day}.jsonl`), JSON.stringify(entry) + '\n');
+  } catch (error: any) {
+    logger.warn('Failed to write the query audit log', { error: error.message });
+  }
+}
+
+/**
+ * Deletes log files older than AUDIT_RETENTION_DAYS
+ */
+export function pruneAuditLog(now: Date = new Date()): void {
+  const retentionDays = getNumber(env, 'AUDIT_RETENTION_DAYS', 30);
+  if (retentionDays <= 0) {
+    return;
+  }
+
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  for (const file of listAuditFiles()) {
+    if (file.day < cutoff) {
+      fs.rmSync(file.path, { force: true });
+    }
+  }
+}
+
+/**
+ * Lists the daily log files, oldest first
+ */
+function listAuditFiles(): { day: string; path: string }[] {
+  const dir = auditDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .map((name) => ({ match: name.match(FILE_PATTERN), name }))
+    .filter(({ match }) => match)
+    .map(({ match, name }) => ({ day: match![1], path: path.join(dir, name) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Reads recorded statements matching a filter, oldest first
+ * Only the most recent `limit` matches are returned
+ */
+export function readAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? 100)), MAX_LIMIT);
+  const contains = filter.contains?.toLowerCase();
+  const matches = (entry: AuditEntry) =>
+    (!filter.session || entry.session === filter.session) &&
+    (!filter.target || entry.target === filter.target) &&
+    (!filter.source || entry.source === filter.source) &&
+    (!filter.origin || entry.origin === filter.origin) &&
+    (!filter.since || entry.timestamp >= filter.since) &&
+    (!filter.until || entry.timestamp < filter.until) &&
+    (filter.errors === undefined || (entry.error !== null) === filter.errors) &&
+    (!contains || entry.sql.toLowerCase().includes(contains));
+
+  // Newest files first, so reading can stop once enough entries are found
+  const entries: AuditEntry[] = [];
+  for (const file of listAuditFiles().reverse()) {
+    if (filter.since && file.day < filter.since.slice(0, 10)) break;
+    if (filter.until && file.day > filter.until.slice(0, 10)) continue;
+
+    const lines = fs.readFileSync(file.path, 'utf8').split('\n');
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      if (!lines[i]) continue;
+      try {
+        const entry = JSON.parse(lines[i]) as AuditEntry;
+        if (matches(entry)) entries.push(entry);
+      } catch {
+        // A partially written line, e.g. after a crash; skip it
+      }
+    }
+    if (entries.length >= limit) break;
+  }
+
+  return entries.reverse();
+}
+
+/**
+ * Parses audit log filters from the query string of an audit:// resource URI
+ */
+export function parseAuditFilter(params: URLSearchParams): AuditFilter {
+  const source = params.get('source');
+  if (source && !(AUDIT_SOURCES as string[]).includes(source)) {
+    throw new Error(`Unknown audit source "${source}". Use one of: ${AUDIT_SOURCES.join(', ')}`);
+  }
+
+  const errors = params.get('errors');
+  if (errors !== null && errors !== 'true' && errors !== 'false') {
+    throw new Error(`Invalid errors value "${errors}". Use true or false`);
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null && !/^[1-9]\d*$/.test(limit)) {
+    throw new Error(`Invalid limit "${limit}". Use a positive whole number`);
+  }
+
+  for (const key of ['since', 'until']) {
+    const value = params.get(key);
+    if (value && Number.isNaN(Date.parse(value))) {
+      throw new Error(`Invalid ${key} timestamp "${value}"`);
+    }
+  }
+
+  return {
+    session: params.get('session') ?? undefined,
+    target: params.get('target') ?? undefined,
+    source: (source as AuditSource | null) ?? undefined,
+    origin: params.get('origin') ?? undefined,
+    since: params.get('since') ? new Date(params.get('since')!).toISOString() : undefined,
+    until: params.get('until') ? new Date(params.get('until')!).toISOString() : undefined,
+    errors: errors === null ? undefined : errors === 'true',
+    contains: params.get('contains') ?? undefined,
+    limit: limit === null ? undefined : Number(limit)
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * In-memory cursor
+ * Pages over a result that has already been fetched in full
+ */
+import type { ColumnInfo, QueryCursor } from './types.js';
+
+/**
+ * Infers column names and approximate types from JSON rows
+ * Used when the backend doesn't report result columns
+ */
+export function inferColumns(rows: any[]): ColumnInfo[] {
+  const types = new Map<string, string>();
+  
+  for (const row of rows) {
+    if (row === null || typeof row !== 'object') continue;
+    for (const [name, value] of Object.entries(row)) {
+      if (value === null || value === undefined) {
+        if (!types.has(name)) types.set(name, 'unknown');
+        continue;
+      }
+      
+      const type = typeof value === 'number' ? 'numeric'
+        : typeof value === 'boolean' ? 'boolean'
+        : typeof value === 'string' ? 'text'
+        : value instanceof Date ? 'timestamp'
+        : 'json';
+      
+      if (!types.has(name) || types.get(name) === 'unknown') types.set(name, type);
+    }
+  }
+  
+  return Array.from(types, ([name, type]) => ({ name, type }));
+}
+
+/**
+ * Creates a cursor over an array of rows
+ */
+export function createArrayCursor(rows: any[], fields?: ColumnInfo[]): QueryCursor {
+  let remaining = rows;
+  
+  return {
+    totalRows: rows.length,
+    fields: fields ?? inferColumns(rows),
+    async read(count: number) {
+      const page = remaining.slice(0, count);
+      remaining = remaining.slice(count);
+      return page;
+    },
+    async close() {
+      remaining = [];
+    }
+  };
+}
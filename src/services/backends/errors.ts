@@ -0,0 +1,24 @@
+/**
+ * Database backend errors
+ */
+
+// SQLSTATE query_canceled, raised for statement timeouts and cancel requests
+export const QUERY_CANCELED = '57014';
+
+/**
+ * Error thrown by backend operations that raise instead of returning { data, error }
+ * Carries the PostgreSQL error fields when they are available
+ */
+export class DatabaseError extends Error {
+  public readonly code?: string;
+  public readonly detail?: string;
+  public readonly hint?: string;
+  
+  constructor(error: { message: string; code?: string; detail?: string; hint?: string }) {
+    super(error.message);
+    this.name = 'DatabaseError';
+    this.code = error.code;
+    this.detail = error.detail;
+    this.hint = error.hint;
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * PostgreSQL database backend
+ * Executes SQL over a pooled connection using the pg driver
+ */
+import * as net from 'net';
+import pg from 'pg';
+import { DatabaseError, QUERY_CANCELED } from './errors.js';
+import { quoteIdent } from '../../utils/sql.js';
+import logger from '../../utils/logging.js';
+import type {
+  ColumnInfo,
+  DatabaseBackend,
+  QueryCursor,
+  QueryIdentity,
+  QueryOptions,
+  QueryResult,
+  TransactionClient,
+  TransactionOptions
+} from './types.js';
+
+/**
+ * Options for the pg backend connection pool
+ */
+export interface PgBackendOptions {
+  connectionString: string;
+  maxConnections?: number;
+}
+
+/**
+ * Converts a pg driver error into a plain error object
+ * Keeps the fields that are useful to report back to the client
+ */
+export function toQueryError(error: any): { message: string; code?: string; detail?: string; hint?: string } {
+  return {
+    message: error?.message || String(error),
+    code: error?.code,
+    detail: error?.detail,
+    hint: error?.hint
+  };
+}
+
+/**
+ * Switches the transaction of a connection to an identity, as PostgREST does for each request
+ * Both settings are LOCAL, so they end with the transaction.
+ */
+async function setIdentity(client: pg.PoolClient, identity: QueryIdentity | undefined): Promise<void> {
+  if (!identity) return;
+  
+  await client.query(`SET LOCAL ROLE ${quoteIdent(identity.role)}`);
+  await client.query("SELECT set_config('request.jwt.claims', $1, true)", [JSON.stringify(identity.claims)]);
+}
+
+/**
+ * Returns the last result of a query
+ * Multi-statement strings return one result per statement; the last one is used
+ */
+function lastResult(result: pg.QueryResult | pg.QueryResult[]): pg.QueryResult | undefined {
+  return Array.isArray(result) ? result[result.length - 1] : result;
+}
+
+/**
+ * Host and port of a PostgreSQL server or pooler
+ */
+interface ServerAddress {
+  host: string;
+  port: number;
+}
+
+// Code that marks a startup packet as a cancel request
+const CANCEL_REQUEST_CODE = 80877102;
+
+/**
+ * Sends a protocol-level cancel request for the statement a connection is running
+ * The request carries the connection's process ID and secret key and goes to the address the
+ * connection uses, so a pooler such as Supavisor or PgBouncer passes it to the server connection
+ * behind it. The server answers by closing the socket.
+ */
+export function sendCancelRequest(address: ServerAddress, processID: number, secretKey: number, timeoutMs = 10000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = address.host.startsWith('/')
+      ? net.connect(`${address.host}/.s.PGSQL.${address.port}`)
+      : net.connect(address.port, address.host);
+    
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('Timed out sending the cancel request')));
+    socket.once('error', reject);
+    socket.once('close', (hadError) => {
+      if (!hadError) resolve();
+    });
+    socket.once('connect', () => {
+      const packet = Buffer.alloc(16);
+      packet.writeInt32BE(16, 0);
+      packet.writeInt32BE(CANCEL_REQUEST_CODE, 4);
+      packet.writeInt32BE(processID, 8);
+      packet.writeInt32BE(secretKey, 12);
+      socket.end(packet);
+    });
+  });
+}
+
+// Counter used to give each server-side cursor a unique name
+let cursorCounter = 0;
+
+/**
+ * Creates a backend that runs SQL over a pg connection pool
+ * TLS follows the sslmode and sslrootcert parameters of the connection string.
+ */
+export function createPgBackend(options: PgBackendOptions): DatabaseBackend {
+  const pool = new pg.Pool({
+    connectionString: options.connectionString,
+    max: options.maxConnections ?? 5
+  });
+  
+  // Idle clients can error when the server drops them; don't crash the process
+  pool.on('error', (error) => {
+    logger.warn('PostgreSQL pool error', { error: error.message });
+  });
+  
+  // Type names already looked up, keyed by type OID
+  const typeNames = new Map<number, string>();
+  
+  /**
+   * Resolves result field type OIDs to PostgreSQL type names
+   * Lookups run on the given connection so callers holding a connection don't wait on the pool
+   */
+  async function describeFields(runner: pg.Pool | pg.PoolClient, fields: pg.FieldDef[] | undefined): Promise<ColumnInfo[]> {
+    if (!fields) return [];
+    
+    const missing = Array.from(new Set(fields.map((field) => field.dataTypeID).filter((oid) => !typeNames.has(oid))));
+    if (missing.length > 0) {
+      try {
+        const result = await runner.query(
+          'SELECT oid::int AS oid, format_type(oid, NULL) AS name FROM pg_catalog.pg_type WHERE oid = ANY($1::oid[])',
+          [missing]
+        );
+        for (const row of result.rows) {
+          typeNames.set(row.oid, row.name);
+        }
+      } catch {
+        // Type names are informational; fall back to the OID below
+      }
+    }
+    
+    return fields.map((field) => ({
+      name: field.name,
+      type: typeNames.get(field.dataTypeID) ?? `oid:${field.dataTypeID}`
+    }));
+  }
+  
+  /**
+   * Cancels the statement running on a connection when the signal is aborted
+   * Returns a function that stops watching the signal
+   */
+  function watchSignal(client: pg.PoolClient, signal: AbortSignal | undefined): () => void {
+    if (!signal) {
+      return () => {};
+    }
+    if (signal.aborted) {
+      throw new DatabaseError({ message: 'Query cancelled before it started', code: QUERY_CANCELED });
+    }
+    
+    // Pooled clients keep the address they connected to and the key the server gave them
+    const { host, port, processID: pid, secretKey } = client as pg.PoolClient & ServerAddress & { processID: number; secretKey: number };
+    const onAbort = () => {
+      sendCancelRequest({ host, port }, pid, secretKey).catch((error) => {
+        logger.warn('Failed to cancel PostgreSQL query', { pid, error: error.message });
+      });
+    };
+    
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+  
+  /**
+   * Runs a statement that is cancelled if the signal is aborted while it runs
+   */
+  async function runStatement(client: pg.PoolClient, sql: string, params?: unknown[], signal?: AbortSignal) {
+    const stopWatching = watchSignal(client, signal);
+    try {
+      return await client.query(sql, params as any[] | undefined);
+    } finally {
+      stopWatching();
+    }
+  }
+  
+  /**
+   * Runs a callback with a pooled connection inside a transaction
+   * The statement timeout is set with SET LOCAL, so it ends with the transaction
+   */
+  async function withTransaction<T>(
+    fn: (client: pg.PoolClient) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const client = await pool.connect();
+    
+    try {
+      await client.query(options.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      if (options.timeoutMs) {
+        await client.query(`SET LOCAL statement_timeout = ${Math.floor(options.timeoutMs)}`);
+      }
+      await setIdentity(client, options.identity);
+      
+      const stopWatching = watchSignal(client, options.signal);
+      let result: T;
+      try {
+        result = await fn(client);
+      } finally {
+        stopWatching();
+      }
+      
+      await client.query(options.rollback ? 'ROLLBACK' : 'COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Runs a callback with a pooled connection outside of a transaction
+   * Only used without a statement timeout, which needs a transaction for SET LOCAL
+   */
+  async function withConnection<T>(fn: (client: pg.PoolClient) => Promise<T>, options: QueryOptions = {}): Promise<T> {
+    const client = await pool.connect();
+    
+    try {
+      const stopWatching = watchSignal(client, options.signal);
+      try {
+        return await fn(client);
+      } finally {
+        stopWatching();
+      }
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Runs a callback inside a transaction on a dedicated pooled connection
+   */
+  async function transaction<T>(
+    fn: (tx: TransactionClient) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    return withTransaction((client) => fn({
+      async query(sql: string, params?: unknown[]) {
+        const result = await client.query(sql, params as any[] | undefined);
+        return { rows: result.rows ?? [], rowCount: result.rowCount ?? 0 };
+      }
+    }), options);
+  }
+  
+  return {
+    kind: 'pg',
+    
+    supportsReadOnlyTransactions: true,
+    
+    async query(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+      try {
+        // Read-only queries run in a READ ONLY transaction so the server rejects any writes;
+        // queries with a timeout or run as another identity need a transaction for SET LOCAL,
+        // since session settings would outlive the query on a pooler's shared server connections
+        const run = (client: pg.PoolClient) => client.query(sql, options.params as any[] | undefined);
+        const result = lastResult(options.readOnly || options.identity || options.timeoutMs
+          ? await withTransaction(run, {
+              readOnly: options.readOnly,
+              timeoutMs: options.timeoutMs,
+              signal: options.signal,
+              identity: options.identity
+            })
+          : await withConnection(run, options));
+        
+        return {
+          data: result?.rows ?? [],
+          error: null,
+          fields: await describeFields(pool, result?.fields)
+        };
+      } catch (error) {
+        return { data: null, error: toQueryError(error) };
+      }
+    },
+    
+    /**
+     * Opens a server-side cursor inside a transaction on a dedicated connection
+     * The connection stays checked out of the pool until the cursor is closed
+     */
+    async openCursor(sql: string, options: QueryOptions = {}): Promise<QueryCursor> {
+      const client = await pool.connect();
+      const name = `mcp_cursor_${++cursorCounter}`;
+      let open = true;
+      
+      const close = async (commit: boolean) => {
+        if (!open) return;
+        open = false;
+        try {
+          await client.query(commit ? 'COMMIT' : 'ROLLBACK');
+        } finally {
+          client.release();
+        }
+      };
+      
+      try {
+        await client.query(options.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+        // SET LOCAL keeps the timeout for every FETCH until the cursor's transaction ends
+        if (options.timeoutMs) {
+          await client.query(`SET LOCAL statement_timeout = ${Math.floor(options.timeoutMs)}`);
+        }
+        await setIdentity(client, options.identity);
+        await runStatement(client, `DECLARE ${name} NO SCROLL CURSOR FOR ${sql}`, options.params, options.signal);
+      } catch (error) {
+        await close(false).catch(() => {});
+        throw new DatabaseError(toQueryError(error));
+      }
+      
+      const cursor: QueryCursor & { fields: ColumnInfo[] | null } = {
+        totalRows: null,
+        fields: null,
+        async read(count: number, signal?: AbortSignal) {
+          if (!open) return [];
+          try {
+            const result = await runStatement(client, `FETCH FORWARD ${Math.max(0, Math.floor(count))} FROM ${name}`, undefined, signal);
+            if (!cursor.fields) {
+              cursor.fields = await describeFields(client, result.fields);
+            }
+            return result.rows;
+          } catch (error) {
+            await close(false).catch(() => {});
+            throw new DatabaseError(toQueryError(error));
+          }
+        },
+        async close() {
+          await close(true);
+        }
+      };
+      
+      return cursor;
+    },
+    
+    transaction,
+    
+    async close(): Promise<void> {
+      await pool.end();
+    }
+  };
+}
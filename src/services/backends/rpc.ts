@@ -0,0 +1,85 @@
+/**
+ * RPC database backend
+ * Executes SQL through the `sqlquery` function exposed via Supabase RPC
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createArrayCursor } from './array-cursor.js';
+import { DatabaseError, QUERY_CANCELED } from './errors.js';
+import { inlineParameters } from '../../utils/sql-params.js';
+import logger from '../../utils/logging.js';
+import type { DatabaseBackend, QueryCursor, QueryOptions, QueryResult } from './types.js';
+
+/**
+ * Creates a backend that runs SQL through the sqlquery RPC function
+ */
+export function createRpcBackend(client: SupabaseClient): DatabaseBackend {
+  const backend: DatabaseBackend = {
+    kind: 'rpc',
+    
+    // The sqlquery function controls its own transaction, so read-only mode
+    // relies on the statement classifier and the function's privileges
+    supportsReadOnlyTransactions: false,
+    
+    async query(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+      // The RPC runs as the API key's role and can't switch to another
+      if (options.identity) {
+        return { data: null, error: { message: 'The rpc backend can\'t run queries as another role. Set DB_BACKEND=pg to use this feature.' } };
+      }
+      
+      // The RPC only takes SQL text, so parameters are sent as quoted literals
+      const query = options.params?.length ? inlineParameters(sql, options.params) : sql;
+      
+      // The RPC can't set statement_timeout, so a timeout aborts the HTTP request instead;
+      // the database's own statement timeout still ends the statement on the server
+      const timeout = options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined;
+      const signals = [options.signal, timeout].filter((signal): signal is AbortSignal => signal !== undefined);
+      
+      try {
+        let request = client.rpc('sqlquery', { query });
+        if (signals.length > 0) {
+          request = request.abortSignal(AbortSignal.any(signals));
+        }
+        const { data, error } = await request;
+        
+        if (error && options.signal?.aborted) {
+          return { data: null, error: { message: 'Query cancelled: the request was aborted', code: QUERY_CANCELED } };
+        }
+        if (error && timeout?.aborted) {
+          return {
+            data: null,
+            error: { message: `Query aborted after the statement timeout of ${options.timeoutMs} ms`, code: QUERY_CANCELED }
+          };
+        }
+        
+        return { data, error };
+      } catch (error) {
+        logger.warn('SQL query execution failed', { error });
+        return {
+          data: null,
+          error: {
+            message: 'SQL query execution failed. The sqlquery RPC function may not be available.',
+            details: error
+          }
+        };
+      }
+    },
+    
+    /**
+     * The RPC returns the whole result at once, so the cursor pages over it in memory
+     */
+    async openCursor(sql: string, options: QueryOptions = {}): Promise<QueryCursor> {
+      const { data, error } = await backend.query(sql, options);
+      if (error) {
+        throw new DatabaseError(error);
+      }
+      
+      return createArrayCursor(Array.isArray(data) ? data : data == null ? [] : [data]);
+    },
+    
+    async close(): Promise<void> {
+      // The Supabase client holds no connections that need closing
+    }
+  };
+  
+  return backend;
+}
@@ -0,0 +1,127 @@
+/**
+ * Database backend types
+ * Shared contract implemented by every database backend
+ */
+import type { DatabaseBackendKind } from '../../config/env.js';
+
+/**
+ * Name and PostgreSQL type of a result column
+ */
+export interface ColumnInfo {
+  name: string;
+  type: string;
+}
+
+/**
+ * Result of a query executed through a backend
+ * Mirrors the { data, error } shape returned by the Supabase client
+ */
+export interface QueryResult {
+  data: any[] | null;
+  error: any;
+  // Result columns, when the backend reports them
+  fields?: ColumnInfo[];
+}
+
+/**
+ * Identity a statement runs as, the way PostgREST evaluates API requests
+ * The role is set with SET LOCAL ROLE and the claims are exposed as request.jwt.claims, so
+ * auth.uid(), auth.jwt() and row level security policies see the same values.
+ */
+export interface QueryIdentity {
+  role: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Options that control how a query is executed
+ */
+export interface QueryOptions {
+  // Run the statement inside a READ ONLY transaction where the backend supports it
+  readOnly?: boolean;
+  // Values for $1..$n placeholders
+  params?: unknown[];
+  // Statement timeout in milliseconds
+  timeoutMs?: number | null;
+  // Cancels the running statement when aborted
+  signal?: AbortSignal;
+  // Run the statement in a transaction as this identity; only backends with session control support it
+  identity?: QueryIdentity;
+}
+
+/**
+ * Result of a statement executed inside a transaction
+ */
+export interface StatementResult {
+  rows: any[];
+  rowCount: number;
+}
+
+/**
+ * Handle for running statements inside a backend transaction
+ * Unlike QueryResult, failures are thrown so the transaction is rolled back
+ */
+export interface TransactionClient {
+  query(sql: string, params?: unknown[]): Promise<StatementResult>;
+}
+
+/**
+ * Options that control how a transaction is run
+ */
+export interface TransactionOptions {
+  // Start the transaction as READ ONLY
+  readOnly?: boolean;
+  
+  // Roll the transaction back instead of committing it, even when it succeeds
+  rollback?: boolean;
+  
+  // Statement timeout in milliseconds, applied to each statement of the transaction
+  timeoutMs?: number | null;
+  
+  // Cancels the running statement, and so the transaction, when aborted
+  signal?: AbortSignal;
+  
+  // Run the statements of the transaction as this identity
+  identity?: QueryIdentity;
+}
+
+/**
+ * A forward-only cursor over the rows of a query
+ */
+export interface QueryCursor {
+  // Total number of rows, when the backend knows it up front
+  readonly totalRows: number | null;
+  
+  // Result columns; available once the first rows have been read
+  readonly fields: ColumnInfo[] | null;
+  
+  // Reads up to `count` more rows; fewer are returned once the result is exhausted
+  // Aborting `signal` cancels the fetch
+  read(count: number, signal?: AbortSignal): Promise<any[]>;
+  
+  // Releases the cursor and any connection it holds
+  close(): Promise<void>;
+}
+
+/**
+ * A database backend capable of running SQL statements
+ */
+export interface DatabaseBackend {
+  // Which backend implementation this is
+  readonly kind: DatabaseBackendKind;
+  
+  // Whether the backend can enforce read-only transactions itself
+  readonly supportsReadOnlyTransactions: boolean;
+  
+  // Executes a SQL statement and returns its rows
+  query(sql: string, options?: QueryOptions): Promise<QueryResult>;
+  
+  // Opens a cursor over the rows of a query; failures are thrown
+  openCursor(sql: string, options?: QueryOptions): Promise<QueryCursor>;
+  
+  // Runs a callback inside a transaction; only available on backends with session control
+  transaction?<T>(fn: (tx: TransactionClient) => Promise<T>, options?: TransactionOptions): Promise<T>;
+  
+  // Releases any resources (connections, pools) held by the backend
+  close(): Promise<void>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Target capabilities
+ * Probes what each target's key and backend can do: whether SQL runs at all (the sqlquery
+ * function exists on the rpc backend), whether the catalogs can be read and whether PostgREST
+ * publishes its OpenAPI description. Results are kept per target for the diagnostics resource
+ * and for deciding which tools are advertised.
+ *
+ *   CAPABILITY_PROBE              probe every target at startup (default true)
+ *   CAPABILITY_PROBE_TIMEOUT_MS   timeout of each probe statement (default 5000)
+ */
+import { env, getFlag, getNumber, DatabaseBackendKind } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { isMissingRpcError, listOpenApiTables } from './postgrest.js';
+import { runWithQueryControl } from './query-control.js';
+import { currentTarget, getTargets, runWithTarget } from './targets.js';
+import logger from '../utils/logging.js';
+
+/**
+ * What a target was found able to do
+ */
+export interface TargetCapabilities {
+  target: string;
+  backend: DatabaseBackendKind;
+  checkedAt: string;
+  // SQL statements can run: the sqlquery function works (rpc) or the connection works (pg)
+  sql: boolean;
+  // Whether the sqlquery function exists; null on the pg backend, which doesn't use it
+  sqlqueryFunction: boolean | null;
+  // The catalogs resources and schema tools read
+  informationSchema: boolean;
+  pgCatalog: boolean;
+  // PostgREST publishes its OpenAPI description, used to list tables without SQL
+  openApi: boolean;
+  // What went wrong, with what to do about it
+  problems: string[];
+}
+
+type CapabilitiesListener = (capabilities: TargetCapabilities) => void;
+
+// Last probe of every target, by target name
+const probed = new Map<string, TargetCapabilities>();
+
+const listeners = new Set<CapabilitiesListener>();
+
+/**
+ * Whether targets are probed at startup
+ */
+export function isProbeEnabled(): boolean {
+  return getFlag(env, 'CAPABILITY_PROBE', true);
+}
+
+/**
+ * Registers a listener told when a probe finds a target's capabilities changed
+ * Returns a function that removes the listener
+ */
+export function onCapabilitiesChange(listener: CapabilitiesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the last probe of a target, or null when it hasn't been probed
+ */
+export function getCapabilities(target: string): TargetCapabilities | null {
+  return probed.get(target) ?? null;
+}
+
+/**
+ * Whether a target may be able to run SQL
+ * Targets that weren't probed, or whose probe failed to finish, are assumed able to.
+ */
+export function canRunSql(target: string): boolean {
+  return probed.get(target)?.sql !== false;
+}
+
+/**
+ * Runs one probe statement, returning its error or null
+ */
+async function probeStatement(sql: string): Promise<any> {
+  try {
+    const { error } = await supabaseService.executeSqlQuery(sql, { readOnly: true });
+    return error;
+  } catch (error: any) {
+    return error;
+  }
+}
+
+/**
+ * Probes the active target and records the result
+ * Listeners are told when the result differs from the previous probe.
+ */
+export async function probeTarget(): Promise<TargetCapabilities> {
+  const target = currentTarget();
+  const timeoutMs = Math.max(1, getNumber(env, 'CAPABILITY_PROBE_TIMEOUT_MS', 5000));
+  const rpc = target.env.DB_BACKEND === 'rpc';
+  const problems: string[] = [];
+
+  const result = await runWithQueryControl({ timeoutMs }, async () => {
+    const sqlError = await probeStatement('SELECT 1 AS ok');
+    const sqlqueryFunction = rpc ? !(sqlError && isMissingRpcError(sqlError)) : null;
+    if (sqlError) {
+      problems.push(sqlqueryFunction === false
+        ? 'The sqlquery function is missing, so SQL tools and catalog resources are unavailable. Install it with setup_sqlquery_function, or set DB_BACKEND=pg.'
+        : `SQL statements fail: ${sqlError.message ?? String(sqlError)}`);
+    }
+
+    const readable = async (catalog: string, sql: string) => {
+      if (sqlError) {
+        return false;
+      }
+      const error = await probeStatement(sql);
+      if (error) {
+        problems.push(`${catalog} can't be read: ${error.message ?? String(error)}`);
+      }
+      return !error;
+    };
+    const informationSchema = await readable('information_schema', 'SELECT count(*) AS tables FROM information_schema.tables');
+    const pgCatalog = await readable('pg_catalog', 'SELECT count(*) AS relations FROM pg_catalog.pg_class');
+
+    let openApi = true;
+    try {
+      await listOpenApiTables();
+    } catch (error: any) {
+      openApi = false;
+      if (sqlError) {
+        problems.push(`Tables can't be listed from the PostgREST OpenAPI description either: ${error.message}`);
+      }
+    }
+
+    return { sql: !sqlError, sqlqueryFunction, informationSchema, pgCatalog, openApi };
+  });
+
+  const capabilities: TargetCapabilities = {
+    target: target.name,
+    backend: target.env.DB_BACKEND,
+    checkedAt: new Date().toISOString(),
+    ...result,
+    problems,
+  };
+
+  const previous = probed.get(target.name);
+  probed.set(target.name, capabilities);
+
+  const summary = (entry: TargetCapabilities) => JSON.stringify({ ...entry, checkedAt: undefined });
+  if (!previous || summary(previous) !== summary(capabilities)) {
+    if (problems.length > 0) {
+      logger.warn(`Target "${target.name}" is missing capabilities`, { problems });
+    } else {
+      logger.info(`Target "${target.name}" capabilities checked`, { backend: capabilities.backend });
+    }
+    for (const listener of listeners) {
+      listener(capabilities);
+    }
+  }
+
+  return capabilities;
+}
+
+/**
+ * Probes every configured target, one after the other
+ */
+export async function probeAllTargets(): Promise<TargetCapabilities[]> {
+  const results: TargetCapabilities[] = [];
+  for (const target of getTargets()) {
+    try {
+      results.push(await runWithTarget(target.name, probeTarget));
+    } catch (error: any) {
+      logger.warn(`Could not probe target "${target.name}"`, { error: error.message });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,243 @@
+/**
+ * Query cost guard
+ * Plans a query with EXPLAIN before the query tool runs it, and refuses it, or asks for
+ * confirmation, when the planner expects it to be expensive.
+ *
+ *   COST_GUARD                      off (default), reject, or confirm
+ *   COST_GUARD_MAX_COST             highest estimated total cost allowed (default 1000000, 0 disables)
+ *   COST_GUARD_MAX_ROWS             highest estimated row count allowed (default 1000000, 0 disables)
+ *   COST_GUARD_SEQ_SCAN_ROWS        tables with at least this many rows may not be scanned sequentially
+ *                                   (default 1000000, 0 disables)
+ *   COST_GUARD_CONFIRMATION_TTL_SECONDS   how long a confirmation token stays valid (default 300)
+ */
+import { createHash, randomBytes } from 'crypto';
+import { env, getNumber } from '../config/env.js';
+import { classifyReadOnly } from '../utils/sql-classifier.js';
+import * as explain from './explain.js';
+import { runWithSource } from './audit-log.js';
+import { currentTarget } from './targets.js';
+import type { QueryIdentity } from './backends/types.js';
+
+/**
+ * What the guard does with an expensive query
+ */
+export type CostGuardMode = 'off' | 'reject' | 'confirm';
+
+/**
+ * Thresholds from configuration; null disables a check
+ */
+export interface CostGuardLimits {
+  mode: CostGuardMode;
+  maxCost: number | null;
+  maxRows: number | null;
+  seqScanRows: number | null;
+  confirmationTtlMs: number;
+}
+
+/**
+ * A threshold the plan exceeds
+ */
+export interface CostViolation {
+  kind: 'cost' | 'rows' | 'seq_scan';
+  message: string;
+  limit: number;
+  estimate: number;
+  relation?: string;
+}
+
+/**
+ * Error raised when the guard refuses a query
+ */
+export class CostGuardError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'CostGuardError';
+  }
+}
+
+/**
+ * An expensive query waiting for confirmation
+ */
+interface PendingQuery {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Advice included with every refusal
+const SUGGESTION = 'Add WHERE filters on indexed columns, join on keys, or add a LIMIT to reduce the work the query does.';
+
+// Expensive queries waiting for confirmation, keyed by confirmation token
+const pendingQueries = new Map<string, PendingQuery>();
+
+/**
+ * Returns the guard settings from configuration
+ */
+export function getCostGuardLimits(): CostGuardLimits {
+  const limit = (name: string) => {
+    const value = getNumber(env, name, 1000000);
+    return value > 0 ? value : null;
+  };
+  const mode = env.COST_GUARD?.trim().toLowerCase();
+
+  return {
+    mode: mode === 'reject' || mode === 'confirm' ? mode : 'off',
+    maxCost: limit('COST_GUARD_MAX_COST'),
+    maxRows: limit('COST_GUARD_MAX_ROWS'),
+    seqScanRows: limit('COST_GUARD_SEQ_SCAN_ROWS'),
+    confirmationTtlMs: getNumber(env, 'COST_GUARD_CONFIRMATION_TTL_SECONDS', 300) * 1000
+  };
+}
+
+/**
+ * Checks the plan of a query against the configured thresholds
+ * Returns when the query may run; throws CostGuardError when it is refused or needs confirmation.
+ * A valid confirmation token from an earlier refusal of the same query lets it run without a new check.
+ * A query run as another identity is planned as that identity, since row level security changes the plan.
+ */
+export async function checkQueryCost(
+  sql: string,
+  params: unknown[],
+  confirmationToken?: string,
+  identity?: QueryIdentity
+): Promise<void> {
+  const limits = getCostGuardLimits();
+  if (limits.mode === 'off') {
+    return;
+  }
+
+  const fingerprint = fingerprintQuery(currentTarget().name, sql, params, identity);
+
+  if (confirmationToken && limits.mode === 'confirm') {
+    // Tokens are single-use and bound to the exact query that was refused
+    const pending = pendingQueries.get(confirmationToken);
+    pendingQueries.delete(confirmationToken);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new CostGuardError(
+        'Cost confirmation token is invalid or has expired. Run the query again without a token to get a new one.',
+        'INVALID_CONFIRMATION'
+      );
+    }
+    if (pending.fingerprint !== fingerprint) {
+      throw new CostGuardError(
+        'Cost confirmation token was issued for a different query. Repeat the exact sql and params that were refused.',
+        'CONFIRMATION_MISMATCH'
+      );
+    }
+    return;
+  }
+
+  // SHOW and EXPLAIN can't be planned
+  const statementType = classifyReadOnly(sql).statementType;
+  if (statementType === 'SHOW' || statementType === 'EXPLAIN') {
+    return;
+  }
+
+  let result: explain.ExplainResult;
+  try {
+    result = await runWithSource('introspection', () => explain.explainQuery(sql, { params, identity }));
+  } catch (error) {
+    // A query that can't be planned fails on its own when it runs, with its own error
+    if (error instanceof explain.ExplainError) {
+      return;
+    }
+    throw error;
+  }
+
+  const violations = findViolations(result.summary, limits);
+  if (violations.length === 0) {
+    return;
+  }
+
+  const details: Record<string, any> = {
+    violations,
+    planSummary: explain.formatPlanSummary(result.summary),
+    suggestion: SUGGESTION
+  };
+
+  if (limits.mode === 'reject') {
+    throw new CostGuardError(
+      `Query refused: the planner expects it to be too expensive (${violations.map((v) => v.message).join('; ')})`,
+      'QUERY_TOO_EXPENSIVE',
+      details
+    );
+  }
+
+  const token = randomBytes(16).toString('hex');
+  const expiresAt = Date.now() + limits.confirmationTtlMs;
+  prunePendingQueries();
+  pendingQueries.set(token, { fingerprint, expiresAt });
+
+  throw new CostGuardError(
+    `Query not run: the planner expects it to be expensive (${violations.map((v) => v.message).join('; ')}). ` +
+      'Call again with cost_confirmation_token to run it anyway.',
+    'COST_CONFIRMATION_REQUIRED',
+    { ...details, cost_confirmation_token: token, expires_at: new Date(expiresAt).toISOString() }
+  );
+}
+
+/**
+ * Identifies a query for its confirmation token
+ * The target and identity are part of it, so a confirmation can't run the query on another target
+ * or as another role, where the plan and the rows it reads differ.
+ */
+export function fingerprintQuery(target: string, sql: string, params: unknown[], identity?: QueryIdentity): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ target, sql, params, identity: identity ?? null }))
+    .digest('hex');
+}
+
+/**
+ * Compares a plan summary with the thresholds
+ */
+export function findViolations(summary: explain.PlanSummary, limits: Omit<CostGuardLimits, 'mode' | 'confirmationTtlMs'>): CostViolation[] {
+  const violations: CostViolation[] = [];
+
+  if (limits.maxCost !== null && summary.totalCost > limits.maxCost) {
+    violations.push({
+      kind: 'cost',
+      message: `estimated cost ${summary.totalCost} exceeds ${limits.maxCost}`,
+      limit: limits.maxCost,
+      estimate: summary.totalCost
+    });
+  }
+
+  if (limits.maxRows !== null && summary.estimatedRows > limits.maxRows) {
+    violations.push({
+      kind: 'rows',
+      message: `estimated ${summary.estimatedRows} rows exceeds ${limits.maxRows}`,
+      limit: limits.maxRows,
+      estimate: summary.estimatedRows
+    });
+  }
+
+  if (limits.seqScanRows !== null) {
+    for (const scan of summary.sequentialScans) {
+      // Planner statistics give the table size; the scan's own estimate is the fallback
+      const tableRows = scan.tableRows ?? scan.planRows;
+      if (tableRows >= limits.seqScanRows) {
+        violations.push({
+          kind: 'seq_scan',
+          message: `sequential scan on ${scan.relation} (about ${tableRows} rows, limit ${limits.seqScanRows})`,
+          limit: limits.seqScanRows,
+          estimate: tableRows,
+          relation: scan.relation
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Drops confirmation tokens that have expired
+ */
+function prunePendingQueries(): void {
+  const now = Date.now();
+  for (const [token, pending] of pendingQueries) {
+    if (pending.expiresAt < now) {
+      pendingQueries.delete(token);
+    }
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Entity-relationship diagrams
+ * Draws the foreign key graph of a schema, or of a table and the tables a few hops away,
+ * as a Mermaid erDiagram or Graphviz DOT. Tables are described by the same catalog
+ * introspection as table resources, so diagrams share their cache.
+ *
+ *   ERD_MAX_TABLES   most tables drawn in one diagram (default 100)
+ */
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { isSchemaAllowed } from './introspection.js';
+import type { DiagramRef } from './resource-uri.js';
+import type { ForeignKeyDescription, TableDescription } from './introspection.js';
+
+/**
+ * Output formats of a diagram
+ */
+export type ErdFormat =
+  | 'mermaid'   // Mermaid erDiagram (default)
+  | 'dot';      // Graphviz DOT
+
+export const ERD_FORMATS: ErdFormat[] = ['mermaid', 'dot'];
+
+// MIME type of each format
+export const ERD_MIME_TYPES: Record<ErdFormat, string> = {
+  mermaid: 'text/vnd.mermaid',
+  dot: 'text/vnd.graphviz',
+};
+
+/**
+ * Options read from the query string of a diagram URI
+ */
+export interface ErdOptions {
+  format: ErdFormat;
+  // Foreign key hops from the center table; ignored for schema diagrams
+  depth: number;
+}
+
+/**
+ * Error raised for invalid diagram requests
+ */
+export class ErdError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'ErdError';
+  }
+}
+
+// Objects fetched per page while listing the tables of a schema
+const LIST_PAGE_SIZE = 500;
+
+// Hops drawn around a table unless ?depth= says otherwise
+const DEFAULT_DEPTH = 1;
+
+/**
+ * Returns the most tables drawn in one diagram
+ */
+function maxTables(): number {
+  return Math.max(1, getNumber(env, 'ERD_MAX_TABLES', 100));
+}
+
+/**
+ * Reads the format and depth of a diagram from the query string of its URI
+ */
+export function parseErdOptions(params: URLSearchParams): ErdOptions {
+  const format = params.get('format') ?? 'mermaid';
+  if (!(ERD_FORMATS as string[]).includes(format)) {
+    throw new ErdError(`Unknown diagram format "${format}". Use one of: ${ERD_FORMATS.join(', ')}`, 'INVALID_FORMAT');
+  }
+
+  const depthParam = params.get('depth');
+  const depth = depthParam === null ? DEFAULT_DEPTH : Number(depthParam);
+  if (!Number.isInteger(depth) || depth < 0) {
+    throw new ErdError(`Invalid depth "${depthParam}": use a whole number of foreign key hops, 0 or more`, 'INVALID_DEPTH');
+  }
+
+  return { format: format as ErdFormat, depth };
+}
+
+/**
+ * Describes the tables drawn in a diagram on the active target
+ * A schema diagram holds every table of the schema. A table diagram holds the table and
+ * the tables up to `depth` foreign key hops away, in either direction, in exposed schemas.
+ */
+export async function loadDiagramTables(ref: DiagramRef, depth: number): Promise<TableDescription[]> {
+  const limit = maxTables();
+
+  if (ref.table === undefined) {
+    const names = await listSchemaTables(ref.schema);
+    if (names.length > limit) {
+      throw new ErdError(
+        `Schema "${ref.schema}" has ${names.length} tables, more than ERD_MAX_TABLES (${limit}). ` +
+        `Draw the neighborhood of one table instead with .../tables/<name>/erd`,
+        'TOO_MANY_TABLES'
+      );
+    }
+    return Promise.all(names.map((name) => describeTable(ref.schema, name)));
+  }
+
+  // Breadth-first walk of the foreign key graph around the center table
+  const tables: TableDescription[] = [];
+  const seen = new Set([tableKey(ref.schema, ref.table)]);
+  let ring: { schema: string; name: string }[] = [{ schema: ref.schema, name: ref.table }];
+  for (let distance = 0; ring.length > 0; distance++) {
+    const next: { schema: string; name: string }[] = [];
+
+    for (const { schema, name } of ring) {
+      const table = await describeTable(schema, name);
+      tables.push(table);
+
+      if (distance === depth) {
+        continue;
+      }
+      const neighbors = [
+        ...table.foreignKeys.map((fk) => ({ schema: fk.referencedSchema, name: fk.referencedTable })),
+        ...table.referencedBy.map((reference) => ({ schema: reference.referencingSchema, name: reference.referencingTable })),
+      ];
+      for (const neighbor of neighbors) {
+        const key = tableKey(neighbor.schema, neighbor.name);
+        if (!seen.has(key) && isSchemaAllowed(neighbor.schema)) {
+          seen.add(key);
+          next.push(neighbor);
+        }
+      }
+    }
+
+    if (seen.size > limit) {
+      throw new ErdError(
+        `The tables within ${depth} hops of "${ref.schema}"."${ref.table}" are more than ERD_MAX_TABLES (${limit}). Use a smaller depth`,
+        'TOO_MANY_TABLES'
+      );
+    }
+    ring = next;
+  }
+
+  return tables;
+}
+
+/**
+ * Lists the names of the tables of a schema, without views and partitions
+ */
+async function listSchemaTables(schema: string): Promise<string[]> {
+  const names: string[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { objects, error } = await supabaseService.listDatabaseObjects(LIST_PAGE_SIZE, offset);
+    if (error) {
+      throw new Error(`Could not list database objects: ${error.message}`);
+    }
+
+    names.push(...objects
+      .filter((object) => object.kind === 'table' && object.schema === schema)
+      .map((object) => object.name));
+
+    if (objects.length < LIST_PAGE_SIZE) {
+      return names;
+    }
+  }
+}
+
+/**
+ * Describes one table, failing when it can't be read
+ */
+async function describeTable(schema: string, name: string): Promise<TableDescription> {
+  const { schema: table, error } = await supabaseService.getTableSchema(name, schema);
+  if (error) {
+    throw new Error(`Could not describe ${schema}.${name}: ${error.message}`);
+  }
+  return table!;
+}
+
+/**
+ * Key identifying a table in a diagram
+ */
+function tableKey(schema: string, name: string): string {
+  return JSON.stringify([schema, name]);
+}
+
+/**
+ * A foreign key edge between two tables of a diagram
+ */
+interface Relationship {
+  from: TableDescription;
+  fk: ForeignKeyDescription;
+  // The referenced table, when it is drawn; otherwise it appears by name only
+  to: TableDescription | null;
+  // Every referencing column is NOT NULL, so each row has a parent
+  required: boolean;
+  // The referencing columns are a primary key or unique, so each parent has at most one row
+  unique: boolean;
+}
+
+/**
+ * Renders the tables of a diagram in the requested format
+ * Foreign keys of the drawn tables are always shown; referenced tables that aren't drawn
+ * appear by name only. Names are qualified with their schema when the diagram spans several.
+ */
+export function renderErd(tables: TableDescription[], format: ErdFormat): string {
+  const byKey = new Map(tables.map((table) => [tableKey(table.schema, table.name), table]));
+
+  const relationships: Relationship[] = tables.flatMap((table) => table.foreignKeys.map((fk) => {
+    const keys = [table.primaryKey, ...table.uniqueConstraints].filter((key) => key !== null);
+    return {
+      from: table,
+      fk,
+      to: byKey.get(tableKey(fk.referencedSchema, fk.referencedTable)) ?? null,
+      required: fk.columns.every((name) => table.columns.find((column) => column.name === name)?.nullable === false),
+      unique: keys.some((key) => key!.columns.length === fk.columns.length && key!.columns.every((name) => fk.columns.includes(name))),
+    };
+  }));
+
+  const schemas = new Set([
+    ...tables.map((table) => table.schema),
+    ...relationships.map((relationship) => relationship.fk.referencedSchema),
+  ]);
+  const label = (schema: string, name: string) => schemas.size > 1 ? `${schema}.${name}` : name;
+
+  return format === 'dot'
+    ? renderDot(tables, relationships, label)
+    : renderMermaid(tables, relationships, label);
+}
+
+/**
+ * Key markers of a column: PK, FK and UK
+ */
+function columnKeys(table: TableDescription, column: string): string[] {
+  const keys: string[] = [];
+  if (table.primaryKey?.columns.includes(column)) {
+    keys.push('PK');
+  }
+  if (table.foreignKeys.some((fk) => fk.columns.includes(column))) {
+    keys.push('FK');
+  }
+  if (table.uniqueConstraints.some((constraint) => constraint.columns.includes(column))) {
+    keys.push('UK');
+  }
+  return keys;
+}
+
+/**
+ * Renders a Mermaid erDiagram
+ * Types and column names are reduced to the characters Mermaid accepts in attributes.
+ */
+function renderMermaid(tables: TableDescription[], relationships: Relationship[], label: (schema: string, name: string) => string): string {
+  const entity = (schema: string, name: string) => {
+    const text = label(schema, name);
+    return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(text) ? text : `"${text.replace(/"/g, "'")}"`;
+  };
+  const word = (text: string) => text.trim().replace(/\s+/g, '_').replace(/[^A-Za-z0-9_\-\[\]()]/g, '_').replace(/^(?=[^A-Za-z_])/, '_');
+
+  const lines = ['erDiagram'];
+
+  for (const table of tables) {
+    // An entity without attributes is declared by name alone
+    if (table.columns.length === 0) {
+      lines.push(`  ${entity(table.schema, table.name)}`);
+      continue;
+    }
+    lines.push(`  ${entity(table.schema, table.name)} {`);
+    for (const column of table.columns) {
+      const keys = columnKeys(table, column.name);
+      lines.push([
+        `    ${word(column.type)} ${word(column.name)}`,
+        ...(keys.length > 0 ? [keys.join(', ')] : []),
+        ...(column.comment ? [`"${column.comment.replace(/"/g, "'").replace(/\s+/g, ' ')}"`] : []),
+      ].join(' '));
+    }
+    lines.push('  }');
+  }
+
+  for (const { from, fk, required, unique } of relationships) {
+    // The referenced table is on the left: exactly one (or zero or one) parent per row
+    lines.push(
+      `  ${entity(fk.referencedSchema, fk.referencedTable)} ${required ? '||' : '|o'}--${unique ? 'o|' : 'o{'} ` +
+      `${entity(from.schema, from.name)} : "${fk.columns.join(', ')}"`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a Graphviz digraph with one HTML-like table per node
+ * Edges run from the referencing column to the referenced column, with crow's foot arrows.
+ */
+function renderDot(tables: TableDescription[], relationships: Relationship[], label: (schema: string, name: string) => string): string {
+  const id = (schema: string, name: string) => `"${label(schema, name).replace(/[\\"]/g, '\\$&')}"`;
+  const html = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const port = (table: TableDescription, column: string) => {
+    const index = table.columns.findIndex((candidate) => candidate.name === column);
+    return index >= 0 ? `:c${index}` : '';
+  };
+
+  const lines = [
+    'digraph erd {',
+    '  rankdir=LR;',
+    '  node [shape=plain, fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9, dir=both];',
+  ];
+
+  for (const table of tables) {
+    lines.push(`  ${id(table.schema, table.name)} [label=<`);
+    lines.push('    <table border="0" cellborder="1" cellspacing="0" cellpadding="4">');
+    lines.push(`      <tr><td colspan="3" bgcolor="#e8e8e8"><b>${html(label(table.schema, table.name))}</b></td></tr>`);
+    table.columns.forEach((column, index) => {
+      lines.push(
+        `      <tr><td port="c${index}" align="left">${html(column.name)}</td>` +
+        `<td align="left">${html(column.type)}</td><td>${columnKeys(table, column.name).join(', ')}</td></tr>`
+      );
+    });
+    lines.push('    </table>>];');
+  }
+
+  // Referenced tables outside the diagram are drawn as dashed boxes
+  const stubs = new Set<string>();
+  for (const { fk, to } of relationships) {
+    const stub = id(fk.referencedSchema, fk.referencedTable);
+    if (!to && !stubs.has(stub)) {
+      stubs.add(stub);
+      lines.push(`  ${stub} [shape=box, style=dashed];`);
+    }
+  }
+
+  for (const { from, fk, to, required, unique } of relationships) {
+    lines.push(
+      `  ${id(from.schema, from.name)}${port(from, fk.columns[0])} -> ` +
+      `${id(fk.referencedSchema, fk.referencedTable)}${to ? port(to, fk.referencedColumns[0]) : ''} ` +
+      `[label="${fk.columns.join(', ').replace(/[\\"]/g, '\\$&')}", arrowtail=${unique ? 'teeodot' : 'crowodot'}, arrowhead=${required ? 'teetee' : 'teeodot'}];`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,363 @@
+/**
+ * Query plan service
+ * Runs EXPLAIN for a query and condenses the JSON plan into a summary
+ * that highlights the usual causes of slow queries
+ */
+import { env, getNumber } from '../config/env.js';
+import { quoteLiteral } from '../utils/sql.js';
+import { classifyReadOnly } from '../utils/sql-classifier.js';
+import * as supabaseService from './supabase.js';
+import { runWithSource } from './audit-log.js';
+import { DatabaseError, QUERY_CANCELED } from './backends/errors.js';
+import type { QueryIdentity } from './backends/types.js';
+
+/**
+ * Options for running EXPLAIN
+ */
+export interface ExplainOptions {
+  // Execute the query to collect actual timings and row counts (rolled back afterwards)
+  analyze?: boolean;
+  // Include buffer usage; only meaningful with analyze
+  buffers?: boolean;
+  // Values for $1..$n placeholders in the query
+  params?: unknown[];
+  // Plan the query as this identity, so row level security policies are part of the plan
+  identity?: QueryIdentity;
+}
+
+/**
+ * A plan node that stands out in the summary
+ */
+export interface PlanNodeSummary {
+  nodeType: string;
+  relation?: string;
+  // Cost of this node alone, excluding its children
+  selfCost: number;
+  totalCost: number;
+  planRows: number;
+  actualRows?: number;
+  // Time spent in this node alone, excluding its children (analyze only)
+  selfTimeMs?: number;
+}
+
+/**
+ * Readable summary of a query plan
+ */
+export interface PlanSummary {
+  totalCost: number;
+  estimatedRows: number;
+  actualRows?: number;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  expensiveNodes: PlanNodeSummary[];
+  sequentialScans: Array<{ relation: string; planRows: number; actualRows?: number; tableRows?: number; large: boolean }>;
+  misestimates: Array<{ nodeType: string; relation?: string; planRows: number; actualRows: number; factor: number }>;
+  diskSpills: Array<{ nodeType: string; relation?: string; detail: string }>;
+  warnings: string[];
+}
+
+/**
+ * Result of explaining a query
+ */
+export interface ExplainResult {
+  plan: any;
+  summary: PlanSummary;
+}
+
+/**
+ * Error raised when a query cannot be explained
+ */
+export class ExplainError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'ExplainError';
+  }
+}
+
+// Number of nodes listed as most expensive
+const EXPENSIVE_NODE_COUNT = 5;
+
+// Estimates off by at least this factor are reported as misestimates
+const MISESTIMATE_FACTOR = 10;
+
+/**
+ * Runs EXPLAIN (FORMAT JSON) for a query and summarizes the plan
+ * ANALYZE runs inside a transaction that is always rolled back
+ */
+export async function explainQuery(sql: string, options: ExplainOptions = {}): Promise<ExplainResult> {
+  const check = classifyReadOnly(sql);
+
+  if (!check.allowed) {
+    // Planning a write without running it is harmless, so only ANALYZE requires a read-only statement
+    const explainableWrite = check.code === 'WRITE_STATEMENT' || check.code === 'DATA_MODIFYING_CTE';
+    if (options.analyze || !explainableWrite || check.statementType === 'TRUNCATE' || check.statementType === 'COPY') {
+      throw new ExplainError('Query cannot be explained: ' + check.reason, check.code, {
+        statementType: check.statementType
+      });
+    }
+  } else if (check.statementType === 'EXPLAIN' || check.statementType === 'SHOW') {
+    throw new ExplainError(`${check.statementType} statements cannot be explained`, 'UNSUPPORTED_STATEMENT');
+  }
+
+  const explainOptions = ['FORMAT JSON', 'VERBOSE'];
+  if (options.analyze) explainOptions.push('ANALYZE');
+  if (options.analyze && options.buffers) explainOptions.push('BUFFERS');
+
+  const explainSql = `EXPLAIN (${explainOptions.join(', ')}) ${sql.trim().replace(/;\s*$/, '')}`;
+
+  let rows: any[];
+  if (options.analyze) {
+    rows = await supabaseService.runInTransaction(
+      async (tx) => (await tx.query(explainSql, options.params)).rows,
+      { readOnly: true, rollback: true, identity: options.identity }
+    );
+  } else {
+    const { data, error } = await supabaseService.executeSqlQuery(explainSql, {
+      readOnly: true,
+      params: options.params,
+      identity: options.identity
+    });
+    if (error) {
+      // Timeouts and cancellations are reported as such by the caller
+      if (error.code === QUERY_CANCELED) {
+        throw new DatabaseError(error);
+      }
+      throw new ExplainError(error.message, 'EXPLAIN_FAILED', { detail: error.detail, hint: error.hint });
+    }
+    rows = data ?? [];
+  }
+
+  const plan = extractPlan(rows);
+  const tableRows = await fetchTableSizes(collectSeqScanRelations(plan.Plan));
+
+  return {
+    plan,
+    summary: summarizePlan(plan, {
+      largeTableRows: getNumber(env, 'EXPLAIN_LARGE_TABLE_ROWS', 100000),
+      tableRows
+    })
+  };
+}
+
+/**
+ * Pulls the plan object out of the EXPLAIN result rows
+ */
+function extractPlan(rows: any[]): any {
+  const value = rows[0]?.['QUERY PLAN'];
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  const plan = Array.isArray(parsed) ? parsed[0] : parsed;
+
+  if (!plan?.Plan) {
+    throw new ExplainError('EXPLAIN did not return a JSON plan', 'EXPLAIN_FAILED');
+  }
+
+  return plan;
+}
+
+/**
+ * Collects schema-qualified names of relations read by sequential scans
+ */
+function collectSeqScanRelations(node: any, relations = new Set<string>()): Set<string> {
+  if (node?.['Node Type'] === 'Seq Scan' && node['Relation Name']) {
+    relations.add(qualifiedRelation(node)!);
+  }
+  for (const child of node?.Plans ?? []) {
+    collectSeqScanRelations(child, relations);
+  }
+  return relations;
+}
+
+/**
+ * Looks up estimated row counts for relations from planner statistics
+ */
+async function fetchTableSizes(relations: Set<string>): Promise<Record<string, number>> {
+  if (relations.size === 0) {
+    return {};
+  }
+
+  const names = Array.from(relations).map(quoteLiteral).join(', ');
+  const { data, error } = await runWithSource('introspection', () => supabaseService.executeSqlQuery(
+    `SELECT n.nspname || '.' || c.relname AS relation, c.reltuples::bigint AS rows
+     FROM pg_catalog.pg_class c
+     JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname || '.' || c.relname IN (${names})`,
+    { readOnly: true }
+  ));
+
+  // Table sizes only enrich the summary; a failed lookup shouldn't fail the explain
+  if (error || !data) {
+    return {};
+  }
+
+  return Object.fromEntries(data.map((row: any) => [row.relation, Number(row.rows)]));
+}
+
+/**
+ * Returns schema.relation for a scan node, when it has one
+ */
+function qualifiedRelation(node: any): string | undefined {
+  if (!node['Relation Name']) return undefined;
+  return node.Schema ? `${node.Schema}.${node['Relation Name']}` : node['Relation Name'];
+}
+
+/**
+ * Condenses an EXPLAIN (FORMAT JSON) plan into the facts that matter for performance
+ */
+export function summarizePlan(
+  plan: any,
+  options: { largeTableRows: number; tableRows?: Record<string, number> }
+): PlanSummary {
+  const root = plan.Plan;
+  const analyzed = root['Actual Rows'] !== undefined;
+  const nodes: PlanNodeSummary[] = [];
+  const summary: PlanSummary = {
+    totalCost: root['Total Cost'],
+    estimatedRows: root['Plan Rows'],
+    actualRows: analyzed ? root['Actual Rows'] : undefined,
+    planningTimeMs: plan['Planning Time'],
+    executionTimeMs: plan['Execution Time'],
+    expensiveNodes: [],
+    sequentialScans: [],
+    misestimates: [],
+    diskSpills: [],
+    warnings: []
+  };
+
+  const visit = (node: any) => {
+    const children: any[] = node.Plans ?? [];
+    const relation = qualifiedRelation(node);
+    const loops = node['Actual Loops'] ?? 1;
+    const actualRows = node['Actual Rows'] !== undefined ? node['Actual Rows'] * loops : undefined;
+    const planRows = node['Plan Rows'] * (analyzed ? loops : 1);
+
+    const childCost = children.reduce((sum, child) => sum + (child['Total Cost'] ?? 0), 0);
+    const entry: PlanNodeSummary = {
+      nodeType: node['Node Type'],
+      relation,
+      selfCost: round(Math.max(0, node['Total Cost'] - childCost)),
+      totalCost: node['Total Cost'],
+      planRows,
+      actualRows
+    };
+
+    if (node['Actual Total Time'] !== undefined) {
+      const childTime = children.reduce(
+        (sum, child) => sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] ?? 1),
+        0
+      );
+      entry.selfTimeMs = round(Math.max(0, node['Actual Total Time'] * loops - childTime));
+    }
+    nodes.push(entry);
+
+    // Sequential scans, flagged when the table is large
+    if (node['Node Type'] === 'Seq Scan' && relation) {
+      const tableRows = options.tableRows?.[relation];
+      const scannedRows = tableRows ?? actualRows ?? planRows;
+      summary.sequentialScans.push({
+        relation,
+        planRows,
+        actualRows,
+        tableRows,
+        large: scannedRows >= options.largeTableRows
+      });
+    }
+
+    // Row estimates that are off by an order of magnitude or more
+    if (actualRows !== undefined) {
+      const factor = Math.max(actualRows, 1) / Math.max(planRows, 1);
+      if (factor >= MISESTIMATE_FACTOR || factor <= 1 / MISESTIMATE_FACTOR) {
+        summary.misestimates.push({
+          nodeType: node['Node Type'],
+          relation,
+          planRows,
+          actualRows,
+          factor: round(factor >= 1 ? factor : 1 / factor)
+        });
+      }
+    }
+
+    // Operations that spilled to disk
+    if (node['Sort Space Type'] === 'Disk') {
+      summary.diskSpills.push({
+        nodeType: node['Node Type'],
+        relation,
+        detail: `${node['Sort Method']} using ${node['Sort Space Used']} kB on disk`
+      });
+    }
+    if ((node['Hash Batches'] ?? 1) > 1) {
+      summary.diskSpills.push({
+        nodeType: node['Node Type'],
+        relation,
+        detail: `hash split into ${node['Hash Batches']} batches (work_mem too small)`
+      });
+    }
+    if ((node['Temp Written Blocks'] ?? 0) > 0 && node['Sort Space Type'] !== 'Disk' && !(node['Hash Batches'] > 1)) {
+      summary.diskSpills.push({
+        nodeType: node['Node Type'],
+        relation,
+        detail: `wrote ${node['Temp Written Blocks']} temporary blocks`
+      });
+    }
+
+    children.forEach(visit);
+  };
+
+  visit(root);
+
+  // Rank by time when the query was analyzed, otherwise by estimated cost
+  summary.expensiveNodes = nodes
+    .sort((a, b) => analyzed ? (b.selfTimeMs ?? 0) - (a.selfTimeMs ?? 0) : b.selfCost - a.selfCost)
+    .slice(0, EXPENSIVE_NODE_COUNT);
+
+  for (const scan of summary.sequentialScans.filter((scan) => scan.large)) {
+    const size = scan.tableRows !== undefined ? `~${scan.tableRows} rows` : `~${scan.actualRows ?? scan.planRows} rows scanned`;
+    summary.warnings.push(`Sequential scan on large table ${scan.relation} (${size}); consider an index on the filtered columns`);
+  }
+  for (const estimate of summary.misestimates) {
+    summary.warnings.push(
+      `Row estimate for ${estimate.nodeType}${estimate.relation ? ` on ${estimate.relation}` : ''} was off by ${estimate.factor}x ` +
+      `(planned ${estimate.planRows}, actual ${estimate.actualRows}); statistics may be stale, try ANALYZE on the table`
+    );
+  }
+  for (const spill of summary.diskSpills) {
+    summary.warnings.push(`${spill.nodeType}${spill.relation ? ` on ${spill.relation}` : ''} spilled to disk: ${spill.detail}`);
+  }
+
+  return summary;
+}
+
+/**
+ * Renders a plan summary as readable text
+ */
+export function formatPlanSummary(summary: PlanSummary): string {
+  const lines: string[] = [];
+
+  lines.push(`Estimated total cost: ${summary.totalCost}, estimated rows: ${summary.estimatedRows}`);
+  if (summary.actualRows !== undefined) {
+    lines.push(`Actual rows: ${summary.actualRows}`);
+  }
+  if (summary.planningTimeMs !== undefined || summary.executionTimeMs !== undefined) {
+    lines.push(`Planning time: ${summary.planningTimeMs ?? '?'} ms, execution time: ${summary.executionTimeMs ?? '?'} ms`);
+  }
+
+  lines.push('', 'Most expensive nodes:');
+  for (const node of summary.expensiveNodes) {
+    const cost = node.selfTimeMs !== undefined ? `${node.selfTimeMs} ms` : `cost ${node.selfCost}`;
+    const rows = node.actualRows !== undefined ? `${node.actualRows} rows (planned ${node.planRows})` : `${node.planRows} rows`;
+    lines.push(`- ${node.nodeType}${node.relation ? ` on ${node.relation}` : ''}: ${cost}, ${rows}`);
+  }
+
+  lines.push('', summary.warnings.length > 0 ? 'Warnings:' : 'No obvious problems found.');
+  for (const warning of summary.warnings) {
+    lines.push(`- ${warning}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Rounds a number to two decimal places
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
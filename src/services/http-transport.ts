@@ -0,0 +1,276 @@
+/**
+ * HTTP transport
+ * Serves MCP over Server-Sent Events so one process can be shared by several clients.
+ * Each client connection gets its own MCP server instance:
+ *
+ *   GET  /sse                         opens a session and its event stream
+ *   POST /messages?sessionId=<id>     sends a message to a session
+ *   GET  /health                      liveness check, no authentication
+ *
+ * Every request must name the server in its Host header, and browsers may only call it from
+ * the same host or an allowed origin, so web pages can't reach it through DNS rebinding.
+ */
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import logger from '../utils/logging.js';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Bearer token required on every request except /health, if set
+  authToken: string | null;
+  // Browser origins allowed besides the server's own host, such as https://app.example.com
+  allowedOrigins?: string[];
+}
+
+/**
+ * A running HTTP transport
+ */
+export interface HttpTransportHandle {
+  // Address the server is listening on
+  url: string;
+  // Number of open sessions
+  sessionCount(): number;
+  // Closes every session and stops listening
+  close(): Promise<void>;
+}
+
+/**
+ * An open client session
+ */
+interface Session {
+  server: Server;
+  transport: SSEServerTransport;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+// Host names that always refer to the local machine
+const LOOPBACK_NAMES = ['localhost', '::1'];
+
+// Addresses that listen on every interface
+const WILDCARD_HOSTS = ['0.0.0.0', '::', ''];
+
+/**
+ * Starts the HTTP transport
+ * `createServer` is called once per session to build a server with all handlers registered
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  if (!options.authToken && !isLoopbackHost(options.host)) {
+    throw new Error(`MCP_AUTH_TOKEN must be set for the HTTP transport to listen on ${options.host}; without it only loopback addresses are allowed`);
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error("HTTP request failed", { error: error.message });
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  /**
+   * Routes a request to the session endpoints
+   */
+  async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const refusal = checkRequestOrigin(req, options.host, options.allowedOrigins);
+    if (refusal) {
+      sendJson(res, 403, { error: refusal });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      await openSession(res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendJson(res, 404, { error: 'Unknown or closed session' });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Opens an event stream and connects a new server instance to it
+   */
+  async function openSession(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = createServer();
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, { server, transport });
+    logger.info("HTTP session opened", { sessionId, sessions: sessions.size });
+
+    // Fires when the client disconnects or the server shuts down; connect() owns transport.onclose
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      if (sessions.delete(sessionId)) {
+        logger.info("HTTP session closed", { sessionId, sessions: sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+
+    sessionCount: () => sessions.size,
+
+    async close() {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+
+      await Promise.all(open.map((session) => session.server.close().catch(() => {})));
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      httpServer.closeAllConnections();
+      await closed;
+    }
+  };
+}
+
+/**
+ * Whether a host name or address refers to the local machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const name = bareHost(host);
+  return LOOPBACK_NAMES.includes(name) || name.endsWith('.localhost') || /^127(\.\d{1,3}){3}$/.test(name);
+}
+
+/**
+ * Checks the Host and Origin headers of a request against the address the server listens on
+ * A server on a loopback address only answers to loopback names, and one on a specific address
+ * only to that address. Origins need an allowed host name, or must be listed in `allowedOrigins`.
+ * Returns the reason a request is refused, or null.
+ */
+export function checkRequestOrigin(
+  req: Pick<http.IncomingMessage, 'headers'>,
+  listenHost: string,
+  allowedOrigins: string[] = []
+): string | null {
+  const requested = req.headers.host ? hostNameOf(`http://${req.headers.host}`) : null;
+  if (!requested) {
+    return 'Missing or invalid Host header';
+  }
+
+  const listening = bareHost(listenHost);
+  const isAllowedName = (name: string) => {
+    if (isLoopbackHost(listening)) return isLoopbackHost(name);
+    // A server on every interface can't know its names, so it answers to the one it was called by
+    if (WILDCARD_HOSTS.includes(listening)) return name === requested;
+    return name === listening;
+  };
+  if (!isAllowedName(requested)) {
+    return `Host "${req.headers.host}" is not allowed`;
+  }
+
+  // Clients other than browsers don't send an Origin
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return null;
+  }
+
+  // Opaque origins such as "null" have no host name and are only allowed when listed
+  const originHost = hostNameOf(origin);
+  if (allowedOrigins.map(normalizeOrigin).includes(normalizeOrigin(origin)) || (originHost !== null && isAllowedName(originHost))) {
+    return null;
+  }
+  return `Origin "${origin}" is not allowed`;
+}
+
+/**
+ * Returns a host name without IPv6 brackets, in lowercase
+ */
+function bareHost(host: string): string {
+  return host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Returns the host name of a URL, or null if it isn't one
+ */
+function hostNameOf(value: string): string | null {
+  try {
+    const { hostname } = new URL(value);
+    return hostname ? bareHost(hostname) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns an origin in the form browsers send it, for comparison
+ */
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Checks the bearer token of a request
+ * Tokens are compared by hash so the comparison takes the same time for any input
+ */
+function isAuthorized(req: http.IncomingMessage, authToken: string | null): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const match = (req.headers.authorization ?? '').match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
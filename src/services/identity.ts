@@ -0,0 +1,222 @@
+/**
+ * Query identities
+ * Runs read-only queries as a database role with JWT claims, the way Supabase evaluates API
+ * requests for the anon and authenticated roles, so row level security policies can be checked
+ * from here. Needs the pg backend, whose user must be allowed to SET ROLE to the roles used.
+ *
+ *   IDENTITY_COMPARE_MAX_ROWS   rows read for each identity by compare_identities (default 1000)
+ */
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { currentTarget } from './targets.js';
+import type { ColumnInfo, QueryIdentity } from './backends/types.js';
+
+/**
+ * Rows of one query that two identities see differently
+ */
+export interface RowComparison {
+  // Columns rows were matched on; null when whole rows were compared
+  key: string[] | null;
+  // Rows both identities see, identical
+  inBoth: number;
+  onlyInFirst: any[];
+  onlyInSecond: any[];
+  // With a key: rows both see with different values
+  changed: { first: any; second: any }[];
+}
+
+/**
+ * What one identity saw
+ */
+export interface IdentityRows {
+  identity: QueryIdentity;
+  rowCount: number;
+  // More rows matched than were read
+  truncated: boolean;
+}
+
+/**
+ * Result of compare_identities
+ */
+export interface IdentityComparison extends RowComparison {
+  first: IdentityRows;
+  second: IdentityRows;
+  columns: ColumnInfo[];
+}
+
+/**
+ * Error raised for invalid identities, or where queries can't run as one
+ */
+export class IdentityError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'IdentityError';
+  }
+}
+
+// Role used when claims are given without one, as for a signed-in user
+const DEFAULT_ROLE = 'authenticated';
+
+/**
+ * Builds an identity from a role and JWT claims, or returns null when neither is given
+ * The role defaults to the claims' role, then to authenticated; the claims always carry the role,
+ * as PostgREST's do.
+ */
+export function parseIdentity(role: unknown, claims: unknown): QueryIdentity | null {
+  if ((role === undefined || role === null) && (claims === undefined || claims === null)) {
+    return null;
+  }
+
+  if (role !== undefined && role !== null && (typeof role !== 'string' || role === '')) {
+    throw new IdentityError('role must be a non-empty string', 'INVALID_IDENTITY');
+  }
+  if (claims !== undefined && claims !== null && (typeof claims !== 'object' || Array.isArray(claims))) {
+    throw new IdentityError('jwt_claims must be an object of JWT claims', 'INVALID_IDENTITY');
+  }
+
+  const given = (claims ?? {}) as Record<string, unknown>;
+  if (given.role !== undefined && typeof given.role !== 'string') {
+    throw new IdentityError('The role claim must be a string', 'INVALID_IDENTITY');
+  }
+  if (role && given.role !== undefined && given.role !== role) {
+    throw new IdentityError(`role "${role}" differs from the role claim "${given.role}"`, 'INVALID_IDENTITY');
+  }
+
+  const resolved = (role as string | undefined) || (given.role as string | undefined) || DEFAULT_ROLE;
+  return { role: resolved, claims: { ...given, role: resolved } };
+}
+
+/**
+ * Checks that the active target can run queries as another identity
+ */
+export function checkIdentitySupport(): void {
+  const target = currentTarget();
+  if (target.env.DB_BACKEND !== 'pg') {
+    throw new IdentityError(
+      `Target "${target.name}" uses the ${target.env.DB_BACKEND} backend, which runs as the API key's role. Running queries as another role needs DB_BACKEND=pg.`,
+      'IDENTITY_UNAVAILABLE',
+      { target: target.name }
+    );
+  }
+}
+
+/**
+ * Compares the rows two identities got for the same query
+ * Without a key, whole rows are compared and duplicates count once each. With a key, rows are
+ * matched on those columns and matched rows with other differences are listed as changed.
+ */
+export function compareRows(first: any[], second: any[], key?: string[]): RowComparison {
+  if (!key || key.length === 0) {
+    const remaining = new Map<string, number>();
+    for (const row of second) {
+      const text = JSON.stringify(row);
+      remaining.set(text, (remaining.get(text) ?? 0) + 1);
+    }
+
+    const onlyInFirst: any[] = [];
+    let inBoth = 0;
+    for (const row of first) {
+      const text = JSON.stringify(row);
+      const count = remaining.get(text) ?? 0;
+      if (count > 0) {
+        remaining.set(text, count - 1);
+        inBoth++;
+      } else {
+        onlyInFirst.push(row);
+      }
+    }
+
+    const onlyInSecond = second.filter((row) => {
+      const text = JSON.stringify(row);
+      const count = remaining.get(text) ?? 0;
+      if (count > 0) {
+        remaining.set(text, count - 1);
+        return true;
+      }
+      return false;
+    });
+
+    return { key: null, inBoth, onlyInFirst, onlyInSecond, changed: [] };
+  }
+
+  const keyOf = (row: any) => JSON.stringify(key.map((column) => row?.[column]));
+  const secondByKey = new Map<string, any>();
+  for (const row of second) {
+    secondByKey.set(keyOf(row), row);
+  }
+
+  const onlyInFirst: any[] = [];
+  const changed: { first: any; second: any }[] = [];
+  const matched = new Set<string>();
+  let inBoth = 0;
+  for (const row of first) {
+    const rowKey = keyOf(row);
+    const other = secondByKey.get(rowKey);
+    if (other === undefined) {
+      onlyInFirst.push(row);
+      continue;
+    }
+    matched.add(rowKey);
+    if (JSON.stringify(row) === JSON.stringify(other)) {
+      inBoth++;
+    } else {
+      changed.push({ first: row, second: other });
+    }
+  }
+
+  return {
+    key,
+    inBoth,
+    onlyInFirst,
+    onlyInSecond: second.filter((row) => !matched.has(keyOf(row))),
+    changed,
+  };
+}
+
+/**
+ * Reads the rows an identity sees for a query, up to a limit
+ */
+async function readAs(sql: string, params: unknown[], identity: QueryIdentity, maxRows: number) {
+  const cursor = await supabaseService.openQueryCursor(sql, { readOnly: true, params, identity });
+  try {
+    const rows = await cursor.read(maxRows + 1);
+    return {
+      rows: rows.slice(0, maxRows),
+      truncated: rows.length > maxRows,
+      columns: cursor.fields ?? [],
+    };
+  } finally {
+    await cursor.close();
+  }
+}
+
+/**
+ * Runs a read-only query as two identities, one after the other, and compares the rows they see
+ * Each identity reads at most IDENTITY_COMPARE_MAX_ROWS rows.
+ */
+export async function compareIdentities(
+  sql: string,
+  params: unknown[],
+  first: QueryIdentity,
+  second: QueryIdentity,
+  key?: string[]
+): Promise<IdentityComparison> {
+  checkIdentitySupport();
+  const maxRows = Math.max(1, getNumber(env, 'IDENTITY_COMPARE_MAX_ROWS', 1000));
+
+  const firstRows = await readAs(sql, params, first, maxRows);
+  const secondRows = await readAs(sql, params, second, maxRows);
+
+  const columns = firstRows.columns.length > 0 ? firstRows.columns : secondRows.columns;
+  const missing = (key ?? []).filter((column) => !columns.some((candidate) => candidate.name === column));
+  if (columns.length > 0 && missing.length > 0) {
+    throw new IdentityError(`Key columns not in the result: ${missing.join(', ')}`, 'INVALID_KEY', { columns: columns.map((column) => column.name) });
+  }
+
+  return {
+    first: { identity: first, rowCount: firstRows.rows.length, truncated: firstRows.truncated },
+    second: { identity: second, rowCount: secondRows.rows.length, truncated: secondRows.truncated },
+    columns,
+    ...compareRows(firstRows.rows, secondRows.rows, key),
+  };
+}
@@ -0,0 +1,627 @@
+/**
+ * Catalog introspection
+ * Builds the pg_catalog queries used to describe database objects
+ * and defines the shapes they return
+ */
+import { env } from '../config/env.js';
+import { quoteLiteral } from '../utils/sql.js';
+import type { ResourceKind } from './resource-uri.js';
+
+/**
+ * A column of a table or view
+ */
+export interface ColumnDescription {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  identity: 'always' | 'by default' | null;
+  generated: string | null;
+  comment: string | null;
+}
+
+/**
+ * A constraint over one or more columns
+ */
+export interface KeyDescription {
+  name: string;
+  columns: string[];
+}
+
+/**
+ * A foreign key, from the referencing side
+ */
+export interface ForeignKeyDescription extends KeyDescription {
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+  definition: string;
+}
+
+/**
+ * A foreign key in another table that references this one
+ */
+export interface ReferenceDescription extends KeyDescription {
+  referencingSchema: string;
+  referencingTable: string;
+  referencedColumns: string[];
+}
+
+/**
+ * A check constraint
+ */
+export interface CheckDescription {
+  name: string;
+  definition: string;
+}
+
+/**
+ * An index
+ */
+export interface IndexDescription {
+  name: string;
+  definition: string;
+  unique: boolean;
+  primary: boolean;
+}
+
+/**
+ * Complete description of a table-like relation
+ */
+export interface TableDescription {
+  schema: string;
+  name: string;
+  kind: 'table' | 'partitioned table' | 'view' | 'materialized view' | 'foreign table';
+  comment: string | null;
+  estimatedRowCount: number | null;
+  columns: ColumnDescription[];
+  primaryKey: KeyDescription | null;
+  foreignKeys: ForeignKeyDescription[];
+  referencedBy: ReferenceDescription[];
+  uniqueConstraints: KeyDescription[];
+  checkConstraints: CheckDescription[];
+  indexes: IndexDescription[];
+}
+
+/**
+ * A database object as returned by the object listing query
+ */
+export interface DatabaseObject {
+  kind: ResourceKind;
+  schema: string;
+  name: string;
+  // Argument types, for functions
+  args: string | null;
+  comment: string | null;
+}
+
+/**
+ * A database object with a hash of its definition, used to detect schema changes
+ */
+export interface ObjectFingerprint {
+  kind: ResourceKind;
+  schema: string;
+  name: string;
+  args: string | null;
+  hash: string;
+}
+
+/**
+ * A function or procedure
+ */
+export interface FunctionDescription {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure';
+  arguments: string;
+  returns: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  securityDefiner: boolean;
+  comment: string | null;
+  definition: string;
+}
+
+/**
+ * An enum or composite type
+ */
+export interface TypeDescription {
+  schema: string;
+  name: string;
+  kind: 'enum' | 'composite';
+  comment: string | null;
+  // Enum labels, in sort order
+  values?: string[];
+  // Composite type attributes
+  attributes?: { name: string; type: string }[];
+}
+
+/**
+ * A sequence
+ */
+export interface SequenceDescription {
+  schema: string;
+  name: string;
+  dataType: string;
+  // Bigint values are returned as text to avoid losing precision in JSON
+  startValue: string;
+  minValue: string;
+  maxValue: string;
+  increment: string;
+  cycle: boolean;
+  lastValue: string | null;
+  ownedBy: string | null;
+  comment: string | null;
+}
+
+/**
+ * Summary of a schema and the objects it contains
+ */
+export interface SchemaDescription {
+  name: string;
+  owner: string;
+  comment: string | null;
+  objectCounts: Record<string, number>;
+}
+
+/**
+ * A table or view in a schema overview
+ */
+export interface SchemaOverviewTable {
+  name: string;
+  kind: TableDescription['kind'];
+  comment: string | null;
+  columns: { name: string; type: string }[];
+  // Foreign key definitions, e.g. "FOREIGN KEY (team_id) REFERENCES teams(id)"
+  foreignKeys: string[];
+}
+
+// Schemas that are always hidden: system catalogs and per-session temp schemas
+const SYSTEM_SCHEMAS = ['pg_catalog', 'information_schema', 'pg_toast'];
+const SYSTEM_SCHEMA_PATTERN = '^pg_(toast_)?temp_';
+
+/**
+ * Parses a comma-separated list of schema names or glob patterns
+ */
+function parseSchemaList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns the configured schema allow and deny lists
+ * SCHEMA_ALLOWLIST restricts exposure to matching schemas; SCHEMA_DENYLIST hides schemas
+ * Both accept exact names and `*` wildcards, e.g. `app_*`
+ */
+export function getSchemaFilter(): { allow: string[]; deny: string[] } {
+  return {
+    allow: parseSchemaList(env.SCHEMA_ALLOWLIST),
+    deny: [...SYSTEM_SCHEMAS, ...parseSchemaList(env.SCHEMA_DENYLIST)]
+  };
+}
+
+/**
+ * Converts a glob pattern with `*` wildcards into a regular expression
+ */
+export function globToRegExp(pattern: string, flags = ''): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+/**
+ * Checks whether a schema may be exposed under the configured allow/deny lists
+ */
+export function isSchemaAllowed(schema: string): boolean {
+  const { allow, deny } = getSchemaFilter();
+
+  if (new RegExp(SYSTEM_SCHEMA_PATTERN).test(schema)) return false;
+  if (deny.some((pattern) => globToRegExp(pattern).test(schema))) return false;
+  return allow.length === 0 || allow.some((pattern) => globToRegExp(pattern).test(schema));
+}
+
+/**
+ * SQL condition applying the schema allow/deny lists to a schema name column
+ */
+export function schemaFilterSql(column: string): string {
+  const { allow, deny } = getSchemaFilter();
+  const toLike = (pattern: string) => quoteLiteral(pattern.replace(/([\\%_])/g, '\\$1').replace(/\*/g, '%'));
+
+  const conditions = [
+    `${column} !~ ${quoteLiteral(SYSTEM_SCHEMA_PATTERN)}`,
+    `NOT (${column} LIKE ANY (ARRAY[${deny.map(toLike).join(', ')}]::text[]))`
+  ];
+  if (allow.length > 0) {
+    conditions.push(`${column} LIKE ANY (ARRAY[${allow.map(toLike).join(', ')}]::text[])`);
+  }
+
+  return conditions.join(' AND ');
+}
+
+/**
+ * SQL condition excluding objects that belong to an extension
+ */
+function notExtensionMember(classId: string, objectId: string): string {
+  return `NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend dep WHERE dep.classid = '${classId}'::regclass AND dep.objid = ${objectId} AND dep.deptype = 'e')`;
+}
+
+/**
+ * Builds a query listing every exposed database object, ordered and paginated
+ * Objects that belong to extensions are skipped to keep the list focused on application objects
+ */
+export function buildListObjectsSql(limit: number, offset: number): string {
+  return `
+SELECT kind, schema, name, args, comment FROM (
+  SELECT 'schema' AS kind, n.nspname AS schema, n.nspname AS name, NULL::text AS args,
+         obj_description(n.oid, 'pg_namespace') AS comment, 0 AS kind_order
+  FROM pg_catalog.pg_namespace n
+  WHERE ${schemaFilterSql('n.nspname')}
+
+  UNION ALL
+
+  SELECT CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized_view'
+           WHEN 'S' THEN 'sequence' ELSE 'table' END,
+         n.nspname, c.relname, NULL, obj_description(c.oid, 'pg_class'),
+         CASE c.relkind WHEN 'v' THEN 2 WHEN 'm' THEN 3 WHEN 'S' THEN 6 ELSE 1 END
+  FROM pg_catalog.pg_class c
+  JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S')
+    AND NOT c.relispartition
+    AND ${schemaFilterSql('n.nspname')}
+    AND ${notExtensionMember('pg_catalog.pg_class', 'c.oid')}
+
+  UNION ALL
+
+  SELECT 'function', n.nspname, p.proname, oidvectortypes(p.proargtypes),
+         obj_description(p.oid, 'pg_proc'), 4
+  FROM pg_catalog.pg_proc p
+  JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+  WHERE p.prokind IN ('f', 'p')
+    AND ${schemaFilterSql('n.nspname')}
+    AND ${notExtensionMember('pg_catalog.pg_proc', 'p.oid')}
+
+  UNION ALL
+
+  SELECT 'type', n.nspname, t.typname, NULL, obj_description(t.oid, 'pg_type'), 5
+  FROM pg_catalog.pg_type t
+  JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+  LEFT JOIN pg_catalog.pg_class tc ON tc.oid = t.typrelid
+  WHERE (t.typtype = 'e' OR (t.typtype = 'c' AND tc.relkind = 'c'))
+    AND ${schemaFilterSql('n.nspname')}
+    AND ${notExtensionMember('pg_catalog.pg_type', 't.oid')}
+) objects
+ORDER BY schema, kind_order, name, args
+LIMIT ${Math.floor(limit)} OFFSET ${Math.floor(offset)}`;
+}
+
+/**
+ * Builds a query returning every exposed object with an md5 hash of what its resource describes:
+ * columns, constraints (including foreign keys that reference a table), indexes, view definitions,
+ * function sources, type attributes, sequence settings and comments. Data changes don't alter it.
+ */
+export function buildSchemaFingerprintSql(): string {
+  return `
+SELECT 'schema' AS kind, n.nspname AS schema, n.nspname AS name, NULL::text AS args,
+       md5(concat_ws('|', pg_get_userbyid(n.nspowner), obj_description(n.oid, 'pg_namespace'))) AS hash
+FROM pg_catalog.pg_namespace n
+WHERE ${schemaFilterSql('n.nspname')}
+
+UNION ALL
+
+SELECT CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized_view'
+         WHEN 'S' THEN 'sequence' ELSE 'table' END,
+       n.nspname, c.relname, NULL,
+       md5(concat_ws('|',
+         c.relkind,
+         obj_description(c.oid, 'pg_class'),
+         (SELECT string_agg(concat_ws(':', a.attname, format_type(a.atttypid, a.atttypmod), a.attnotnull,
+                   a.attidentity, a.attgenerated, pg_get_expr(d.adbin, d.adrelid), col_description(c.oid, a.attnum)),
+                   ',' ORDER BY a.attnum)
+          FROM pg_catalog.pg_attribute a
+          LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped),
+         (SELECT string_agg(co.conname || ':' || pg_get_constraintdef(co.oid), ',' ORDER BY co.conname, co.oid)
+          FROM pg_catalog.pg_constraint co
+          WHERE co.conrelid = c.oid OR co.confrelid = c.oid),
+         (SELECT string_agg(pg_get_indexdef(i.indexrelid), ',' ORDER BY i.indexrelid)
+          FROM pg_catalog.pg_index i WHERE i.indrelid = c.oid),
+         CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid) END,
+         (SELECT concat_ws(':', format_type(sq.seqtypid, NULL), sq.seqstart, sq.seqincrement, sq.seqmin, sq.seqmax, sq.seqcycle)
+          FROM pg_catalog.pg_sequence sq WHERE sq.seqrelid = c.oid)
+       ))
+FROM pg_catalog.pg_class c
+JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+WHERE c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S')
+  AND NOT c.relispartition
+  AND ${schemaFilterSql('n.nspname')}
+  AND ${notExtensionMember('pg_catalog.pg_class', 'c.oid')}
+
+UNION ALL
+
+SELECT 'function', n.nspname, p.proname, oidvectortypes(p.proargtypes),
+       md5(concat_ws('|', pg_get_function_arguments(p.oid), pg_get_function_result(p.oid), p.prolang,
+         p.provolatile, p.prosecdef, p.prosrc, obj_description(p.oid, 'pg_proc')))
+FROM pg_catalog.pg_proc p
+JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+WHERE p.prokind IN ('f', 'p')
+  AND ${schemaFilterSql('n.nspname')}
+  AND ${notExtensionMember('pg_catalog.pg_proc', 'p.oid')}
+
+UNION ALL
+
+SELECT 'type', n.nspname, t.typname, NULL,
+       md5(concat_ws('|',
+         obj_description(t.oid, 'pg_type'),
+         (SELECT string_agg(e.enumlabel, ',' ORDER BY e.enumsortorder)
+          FROM pg_catalog.pg_enum e WHERE e.enumtypid = t.oid),
+         (SELECT string_agg(a.attname || ':' || format_type(a.atttypid, a.atttypmod), ',' ORDER BY a.attnum)
+          FROM pg_catalog.pg_attribute a
+          WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped)
+       ))
+FROM pg_catalog.pg_type t
+JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+LEFT JOIN pg_catalog.pg_class tc ON tc.oid = t.typrelid
+WHERE (t.typtype = 'e' OR (t.typtype = 'c' AND tc.relkind = 'c'))
+  AND ${schemaFilterSql('n.nspname')}
+  AND ${notExtensionMember('pg_catalog.pg_type', 't.oid')}`;
+}
+
+/**
+ * Builds a query that describes a function or procedure, including its source
+ */
+export function buildDescribeFunctionSql(schema: string, name: string, args: string): string {
+  return `
+SELECT json_build_object(
+  'schema', n.nspname,
+  'name', p.proname,
+  'kind', CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END,
+  'arguments', pg_get_function_arguments(p.oid),
+  'returns', pg_get_function_result(p.oid),
+  'language', l.lanname,
+  'volatility', CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable' ELSE 'volatile' END,
+  'securityDefiner', p.prosecdef,
+  'comment', obj_description(p.oid, 'pg_proc'),
+  'definition', pg_get_functiondef(p.oid)
+) AS description
+FROM pg_catalog.pg_proc p
+JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+JOIN pg_catalog.pg_language l ON l.oid = p.prolang
+WHERE n.nspname = ${quoteLiteral(schema)}
+  AND p.proname = ${quoteLiteral(name)}
+  AND oidvectortypes(p.proargtypes) = ${quoteLiteral(args)}
+  AND p.prokind IN ('f', 'p')`;
+}
+
+/**
+ * Builds a query that describes an enum or composite type
+ */
+export function buildDescribeTypeSql(schema: string, name: string): string {
+  return `
+SELECT json_build_object(
+  'schema', n.nspname,
+  'name', t.typname,
+  'kind', CASE t.typtype WHEN 'e' THEN 'enum' ELSE 'composite' END,
+  'comment', obj_description(t.oid, 'pg_type'),
+  'values', CASE WHEN t.typtype = 'e' THEN (
+    SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder)
+    FROM pg_catalog.pg_enum e WHERE e.enumtypid = t.oid
+  ) END,
+  'attributes', CASE WHEN t.typtype = 'c' THEN (
+    SELECT json_agg(json_build_object('name', a.attname, 'type', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+    FROM pg_catalog.pg_attribute a
+    WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+  ) END
+) AS description
+FROM pg_catalog.pg_type t
+JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+WHERE n.nspname = ${quoteLiteral(schema)}
+  AND t.typname = ${quoteLiteral(name)}
+  AND t.typtype IN ('e', 'c')`;
+}
+
+/**
+ * Builds a query that describes a sequence
+ */
+export function buildDescribeSequenceSql(schema: string, name: string): string {
+  return `
+SELECT json_build_object(
+  'schema', s.schemaname,
+  'name', s.sequencename,
+  'dataType', format_type(s.data_type::regtype, NULL),
+  'startValue', s.start_value::text,
+  'minValue', s.min_value::text,
+  'maxValue', s.max_value::text,
+  'increment', s.increment_by::text,
+  'cycle', s.cycle,
+  'lastValue', s.last_value::text,
+  'ownedBy', (
+    SELECT quote_ident(tn.nspname) || '.' || quote_ident(tc.relname) || '.' || quote_ident(a.attname)
+    FROM pg_catalog.pg_depend d
+    JOIN pg_catalog.pg_class tc ON tc.oid = d.refobjid
+    JOIN pg_catalog.pg_namespace tn ON tn.oid = tc.relnamespace
+    JOIN pg_catalog.pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+    WHERE d.classid = 'pg_catalog.pg_class'::regclass AND d.objid = c.oid
+      AND d.deptype IN ('a', 'i')
+    LIMIT 1
+  ),
+  'comment', obj_description(c.oid, 'pg_class')
+) AS description
+FROM pg_catalog.pg_sequences s
+JOIN pg_catalog.pg_namespace n ON n.nspname = s.schemaname
+JOIN pg_catalog.pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+WHERE s.schemaname = ${quoteLiteral(schema)}
+  AND s.sequencename = ${quoteLiteral(name)}`;
+}
+
+/**
+ * Builds a query that summarizes a schema
+ */
+export function buildDescribeSchemaSql(schema: string): string {
+  return `
+SELECT json_build_object(
+  'name', n.nspname,
+  'owner', pg_get_userbyid(n.nspowner),
+  'comment', obj_description(n.oid, 'pg_namespace'),
+  'objectCounts', json_build_object(
+    'tables', (SELECT count(*) FROM pg_catalog.pg_class c WHERE c.relnamespace = n.oid AND c.relkind IN ('r', 'p', 'f') AND NOT c.relispartition),
+    'views', (SELECT count(*) FROM pg_catalog.pg_class c WHERE c.relnamespace = n.oid AND c.relkind = 'v'),
+    'materializedViews', (SELECT count(*) FROM pg_catalog.pg_class c WHERE c.relnamespace = n.oid AND c.relkind = 'm'),
+    'sequences', (SELECT count(*) FROM pg_catalog.pg_class c WHERE c.relnamespace = n.oid AND c.relkind = 'S'),
+    'functions', (SELECT count(*) FROM pg_catalog.pg_proc p WHERE p.pronamespace = n.oid AND p.prokind IN ('f', 'p')),
+    'types', (SELECT count(*) FROM pg_catalog.pg_type t LEFT JOIN pg_catalog.pg_class tc ON tc.oid = t.typrelid
+              WHERE t.typnamespace = n.oid AND (t.typtype = 'e' OR (t.typtype = 'c' AND tc.relkind = 'c')))
+  )
+) AS description
+FROM pg_catalog.pg_namespace n
+WHERE n.nspname = ${quoteLiteral(schema)}`;
+}
+
+/**
+ * Builds a query listing the tables and views of a schema with their columns and foreign keys
+ * Returns a single row with a `description` JSON array
+ */
+export function buildSchemaOverviewSql(schema: string, limit: number): string {
+  return `
+SELECT coalesce(json_agg(t ORDER BY t.name), '[]'::json) AS description
+FROM (
+  SELECT c.relname AS name,
+    CASE c.relkind
+      WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned table' WHEN 'v' THEN 'view'
+      WHEN 'm' THEN 'materialized view' WHEN 'f' THEN 'foreign table' END AS kind,
+    obj_description(c.oid, 'pg_class') AS comment,
+    (SELECT coalesce(json_agg(json_build_object(
+        'name', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod)
+      ) ORDER BY a.attnum), '[]'::json)
+      FROM pg_catalog.pg_attribute a
+      WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped) AS columns,
+    (SELECT coalesce(json_agg(pg_get_constraintdef(con.oid) ORDER BY con.conname), '[]'::json)
+      FROM pg_catalog.pg_constraint con
+      WHERE con.conrelid = c.oid AND con.contype = 'f') AS "foreignKeys"
+  FROM pg_catalog.pg_class c
+  JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ${quoteLiteral(schema)}
+    AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+    AND NOT c.relispartition
+  ORDER BY c.relname
+  LIMIT ${Math.max(1, Math.floor(limit))}
+) t`;
+}
+
+// Foreign key action codes used by pg_constraint
+const FK_ACTION_SQL = (column: string) => `CASE ${column}
+      WHEN 'a' THEN 'NO ACTION' WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE'
+      WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' END`;
+
+/**
+ * SQL expression returning the names of the columns listed in an attnum array, in order
+ */
+function columnNamesSql(relationOid: string, attnums: string): string {
+  return `(SELECT coalesce(json_agg(a.attname ORDER BY k.ord), '[]'::json)
+      FROM unnest(${attnums}) WITH ORDINALITY AS k(attnum, ord)
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = ${relationOid} AND a.attnum = k.attnum)`;
+}
+
+/**
+ * Builds a query that describes a table, view or materialized view
+ * Returns a single row with a `description` JSON column, or no rows if the relation doesn't exist
+ */
+export function buildDescribeTableSql(schema: string, table: string): string {
+  return `
+WITH rel AS (
+  SELECT c.oid, n.nspname, c.relname, c.relkind, c.reltuples
+  FROM pg_catalog.pg_class c
+  JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ${quoteLiteral(schema)}
+    AND c.relname = ${quoteLiteral(table)}
+    AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+)
+SELECT json_build_object(
+  'schema', rel.nspname,
+  'name', rel.relname,
+  'kind', CASE rel.relkind
+    WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned table' WHEN 'v' THEN 'view'
+    WHEN 'm' THEN 'materialized view' WHEN 'f' THEN 'foreign table' END,
+  'comment', obj_description(rel.oid, 'pg_class'),
+  'estimatedRowCount', CASE WHEN rel.reltuples < 0 THEN NULL ELSE rel.reltuples::bigint END,
+  'columns', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', a.attname,
+      'type', format_type(a.atttypid, a.atttypmod),
+      'nullable', NOT a.attnotnull,
+      'default', CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END,
+      'identity', CASE a.attidentity WHEN 'a' THEN 'always' WHEN 'd' THEN 'by default' END,
+      'generated', CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END,
+      'comment', col_description(a.attrelid, a.attnum)
+    ) ORDER BY a.attnum), '[]'::json)
+    FROM pg_catalog.pg_attribute a
+    LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    WHERE a.attrelid = rel.oid AND a.attnum > 0 AND NOT a.attisdropped
+  ),
+  'primaryKey', (
+    SELECT json_build_object('name', con.conname, 'columns', ${columnNamesSql('con.conrelid', 'con.conkey')})
+    FROM pg_catalog.pg_constraint con
+    WHERE con.conrelid = rel.oid AND con.contype = 'p'
+  ),
+  'foreignKeys', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', con.conname,
+      'columns', ${columnNamesSql('con.conrelid', 'con.conkey')},
+      'referencedSchema', rn.nspname,
+      'referencedTable', rc.relname,
+      'referencedColumns', ${columnNamesSql('con.confrelid', 'con.confkey')},
+      'onUpdate', ${FK_ACTION_SQL('con.confupdtype')},
+      'onDelete', ${FK_ACTION_SQL('con.confdeltype')},
+      'definition', pg_get_constraintdef(con.oid)
+    ) ORDER BY con.conname), '[]'::json)
+    FROM pg_catalog.pg_constraint con
+    JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+    JOIN pg_catalog.pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE con.conrelid = rel.oid AND con.contype = 'f'
+  ),
+  'referencedBy', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', con.conname,
+      'referencingSchema', sn.nspname,
+      'referencingTable', sc.relname,
+      'columns', ${columnNamesSql('con.conrelid', 'con.conkey')},
+      'referencedColumns', ${columnNamesSql('con.confrelid', 'con.confkey')}
+    ) ORDER BY sn.nspname, sc.relname, con.conname), '[]'::json)
+    FROM pg_catalog.pg_constraint con
+    JOIN pg_catalog.pg_class sc ON sc.oid = con.conrelid
+    JOIN pg_catalog.pg_namespace sn ON sn.oid = sc.relnamespace
+    WHERE con.confrelid = rel.oid AND con.contype = 'f'
+  ),
+  'uniqueConstraints', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', con.conname,
+      'columns', ${columnNamesSql('con.conrelid', 'con.conkey')}
+    ) ORDER BY con.conname), '[]'::json)
+    FROM pg_catalog.pg_constraint con
+    WHERE con.conrelid = rel.oid AND con.contype = 'u'
+  ),
+  'checkConstraints', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', con.conname,
+      'definition', pg_get_constraintdef(con.oid)
+    ) ORDER BY con.conname), '[]'::json)
+    FROM pg_catalog.pg_constraint con
+    WHERE con.conrelid = rel.oid AND con.contype = 'c'
+  ),
+  'indexes', (
+    SELECT coalesce(json_agg(json_build_object(
+      'name', ic.relname,
+      'definition', pg_get_indexdef(i.indexrelid),
+      'unique', i.indisunique,
+      'primary', i.indisprimary
+    ) ORDER BY ic.relname), '[]'::json)
+    FROM pg_catalog.pg_index i
+    JOIN pg_catalog.pg_class ic ON ic.oid = i.indexrelid
+    WHERE i.indrelid = rel.oid
+  )
+) AS description
+FROM rel`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Column masking
+ * Hides sensitive values in rows returned to clients, following a policy of rules that match
+ * columns by name or type. Table samples are always masked; query results only when enabled.
+ *
+ *   MASKING_POLICY_FILE   JSON file with the masking rules (no masking when unset)
+ *   MASKING_HASH_SALT     salt mixed into hashed values, so they can't be looked up in a dictionary
+ *   MASK_QUERY_RESULTS    also mask the rows returned by the query tool (default false)
+ *
+ * A policy file looks like:
+ *
+ *   { "rules": [
+ *       { "column": "*password*", "action": "null" },
+ *       { "column": "email", "action": "partial", "showFirst": 2 },
+ *       { "table": "public.payments", "column": "card_*", "action": "partial", "showLast": 4 },
+ *       { "type": "inet", "action": "hash" }
+ *   ] }
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { env, getFlag } from '../config/env.js';
+import { globToRegExp } from './introspection.js';
+import type { ColumnInfo } from './backends/types.js';
+
+/**
+ * How a masked value is replaced
+ */
+export type MaskingAction =
+  | 'hash'      // salted SHA-256 prefix; equal values keep equal hashes
+  | 'partial'   // first and last characters kept, the rest replaced by ****
+  | 'null';     // replaced by null
+
+const MASKING_ACTIONS: MaskingAction[] = ['hash', 'partial', 'null'];
+
+/**
+ * A rule of the masking policy
+ * Every pattern given must match; patterns are case-insensitive globs with `*` wildcards.
+ */
+export interface MaskingRule {
+  // "schema.table", or a table name in any schema
+  table?: string;
+  column?: string;
+  // Type name without modifiers, e.g. "character varying" or "inet"
+  type?: string;
+  action: MaskingAction;
+  // Characters kept at the start and end of partially revealed values
+  showFirst?: number;
+  showLast?: number;
+}
+
+/**
+ * The rules applied to returned rows; the first matching rule masks a column
+ */
+export interface MaskingPolicy {
+  rules: MaskingRule[];
+}
+
+/**
+ * Rows with their sensitive columns masked
+ */
+export interface MaskedRows {
+  rows: any[];
+  // Names of the columns that were masked
+  masked: string[];
+}
+
+/**
+ * Error raised when the masking policy can't be loaded
+ */
+export class MaskingError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'MaskingError';
+  }
+}
+
+// Replaces the hidden part of partially revealed values
+const PARTIAL_MASK = '****';
+
+// The last policy read, reused until the file changes
+let cachedPolicy: { file: string; mtimeMs: number; policy: MaskingPolicy } | null = null;
+
+/**
+ * Whether query tool results are masked too
+ */
+export function isQueryMaskingEnabled(): boolean {
+  return getFlag(env, 'MASK_QUERY_RESULTS', false);
+}
+
+/**
+ * Loads the policy from MASKING_POLICY_FILE, or returns null when none is configured
+ * An unreadable or invalid policy is an error rather than no masking, so values are never shown by mistake.
+ */
+export function loadMaskingPolicy(): MaskingPolicy | null {
+  if (!env.MASKING_POLICY_FILE) {
+    return null;
+  }
+
+  const file = path.resolve(process.cwd(), env.MASKING_POLICY_FILE);
+  try {
+    const { mtimeMs } = fs.statSync(file);
+    if (cachedPolicy?.file !== file || cachedPolicy.mtimeMs !== mtimeMs) {
+      cachedPolicy = { file, mtimeMs, policy: parseMaskingPolicy(JSON.parse(fs.readFileSync(file, 'utf8'))) };
+    }
+    return cachedPolicy.policy;
+  } catch (error: any) {
+    cachedPolicy = null;
+    throw error instanceof MaskingError ? error : new MaskingError(
+      `Could not read the masking policy ${file}: ${error.message}`,
+      'INVALID_MASKING_POLICY'
+    );
+  }
+}
+
+/**
+ * Checks that a parsed policy is well-formed
+ */
+export function parseMaskingPolicy(content: any): MaskingPolicy {
+  const invalid = (message: string) => new MaskingError(`Invalid masking policy: ${message}`, 'INVALID_MASKING_POLICY');
+
+  if (!content || !Array.isArray(content.rules)) {
+    throw invalid('expected an object with a "rules" array');
+  }
+
+  const rules = content.rules.map((rule: any, index: number): MaskingRule => {
+    if (!rule || typeof rule !== 'object') {
+      throw invalid(`rule ${index + 1} is not an object`);
+    }
+    if (!MASKING_ACTIONS.includes(rule.action)) {
+      throw invalid(`rule ${index + 1} needs an "action": ${MASKING_ACTIONS.join(', ')}`);
+    }
+    for (const key of ['table', 'column', 'type']) {
+      if (rule[key] !== undefined && (typeof rule[key] !== 'string' || rule[key] === '')) {
+        throw invalid(`"${key}" of rule ${index + 1} must be a non-empty string`);
+      }
+    }
+    if (rule.column === undefined && rule.type === undefined) {
+      throw invalid(`rule ${index + 1} needs a "column" or "type" pattern`);
+    }
+    for (const key of ['showFirst', 'showLast']) {
+      if (rule[key] !== undefined && !(Number.isInteger(rule[key]) && rule[key] >= 0)) {
+        throw invalid(`"${key}" of rule ${index + 1} must be a whole number, 0 or more`);
+      }
+    }
+
+    return {
+      ...(rule.table !== undefined ? { table: rule.table } : {}),
+      ...(rule.column !== undefined ? { column: rule.column } : {}),
+      ...(rule.type !== undefined ? { type: rule.type } : {}),
+      action: rule.action,
+      ...(rule.action === 'partial' ? { showFirst: rule.showFirst ?? 0, showLast: rule.showLast ?? 4 } : {}),
+    };
+  });
+
+  return { rules };
+}
+
+/**
+ * Returns the rule that masks a column, if any
+ * When the table is unknown, as for query results, rules scoped to a table match any table.
+ */
+function findRule(policy: MaskingPolicy, column: ColumnInfo, table?: { schema: string; name: string }): MaskingRule | undefined {
+  // Type modifiers such as (255) aren't part of the type name
+  const type = column.type.replace(/\s*\([^)]*\)/g, '');
+
+  return policy.rules.find((rule) =>
+    (rule.table === undefined || table === undefined ||
+      globToRegExp(rule.table, 'i').test(rule.table.includes('.') ? `${table.schema}.${table.name}` : table.name)) &&
+    (rule.column === undefined || globToRegExp(rule.column, 'i').test(column.name)) &&
+    (rule.type === undefined || globToRegExp(rule.type, 'i').test(type)));
+}
+
+/**
+ * Applies a rule to one value; nulls stay null
+ */
+export function maskValue(rule: MaskingRule, value: unknown): unknown {
+  if (value === null || value === undefined || rule.action === 'null') {
+    return null;
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (rule.action === 'hash') {
+    const digest = createHash('sha256').update(`${env.MASKING_HASH_SALT ?? ''}${text}`).digest('hex');
+    return `sha256:${digest.slice(0, 16)}`;
+  }
+
+  const showFirst = rule.showFirst ?? 0;
+  const showLast = rule.showLast ?? 0;
+  if (text.length <= showFirst + showLast) {
+    return PARTIAL_MASK;
+  }
+  return `${text.slice(0, showFirst)}${PARTIAL_MASK}${showLast > 0 ? text.slice(-showLast) : ''}`;
+}
+
+/**
+ * Masks the columns of some rows that a policy matches
+ * `table` is the table the rows were read from, when known.
+ */
+export function maskRows(
+  policy: MaskingPolicy,
+  columns: ColumnInfo[],
+  rows: any[],
+  table?: { schema: string; name: string }
+): MaskedRows {
+  const rules = new Map<string, MaskingRule>();
+  for (const column of columns) {
+    const rule = findRule(policy, column, table);
+    if (rule) {
+      rules.set(column.name, rule);
+    }
+  }
+
+  if (rules.size === 0) {
+    return { rows, masked: [] };
+  }
+
+  return {
+    rows: rows.map((row) => {
+      const masked = { ...row };
+      for (const [name, rule] of rules) {
+        if (name in masked) {
+          masked[name] = maskValue(rule, masked[name]);
+        }
+      }
+      return masked;
+    }),
+    masked: Array.from(rules.keys()),
+  };
+}
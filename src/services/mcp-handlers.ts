@@ -4,86 +4,462 @@
  */
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { randomUUID } from 'crypto';
+import { env, getNumber } from '../config/env.js';
 import * as supabaseService from './supabase.js';
+import { isSchemaAllowed } from './introspection.js';
+import {
+  buildResourceUri,
+  DiagramRef,
+  parseDiagramUri,
+  parseResourceUri,
+  parseSampleUri,
+  ResourceKind,
+  ResourceRef,
+} from './resource-uri.js';
+import * as erd from './erd.js';
+import * as tableSample from './table-sample.js';
+import * as masking from './masking.js';
+import * as capabilities from './capabilities.js';
+import * as sqlquerySetup from './sqlquery-setup.js';
+import * as identity from './identity.js';
+import * as postgrest from './postgrest.js';
+import * as explain from './explain.js';
+import * as costGuard from './cost-guard.js';
+import * as prompts from './prompts.js';
+import * as audit from './audit-log.js';
+import * as queryControl from './query-control.js';
+import * as schemaCache from './schema-cache.js';
+import * as schemaDiff from './schema-diff.js';
+import * as migrations from './migrations.js';
+import * as schemaWatcher from './schema-watcher.js';
+import * as targets from './targets.js';
+import * as queryPager from './query-pager.js';
+import * as writeOperations from './write-operations.js';
+import { inferColumns } from './backends/array-cursor.js';
+import { classifyReadOnly } from '../utils/sql-classifier.js';
+import { bindParameters, normalizeParameters, QueryParameterError } from '../utils/sql-params.js';
+import {
+  parseResultFormat,
+  renderResult,
+  RenderableResult,
+  RESULT_FORMATS,
+  ResultFormat,
+  ResultFormatError,
+} from '../utils/result-format.js';
+import logger from '../utils/logging.js';
 
 /**
  * Sets up all request handlers for the MCP server
  */
 export function setupRequestHandlers(server: Server): void {
-  // Handler for listing all database tables as resources
-  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
+  // Statements run for this client are recorded in the audit log under one session id;
+  // they get the default statement timeout and are cancelled when the client cancels the request
+  const session = randomUUID();
+  const audited = <T>(source: audit.AuditSource, origin: (request: any) => string, handler: (request: any) => Promise<T>) =>
+    (request: any, extra?: { signal?: AbortSignal }) => audit.runWithAuditContext(
+      { session, source, origin: origin(request) },
+      () => queryControl.runWithQueryControl(
+        { timeoutMs: queryControl.getDefaultTimeout(), signal: extra?.signal },
+        () => handler(request)
+      )
+    );
+  
+  // Handler for listing database objects as resources
+  server.setRequestHandler(ListResourcesRequestSchema, audited('resource', () => 'resources/list', handleListResources));
+  
+  // Handler for listing the URI templates of parameterized resources
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, handleListResourceTemplates);
   
-  // Handler for reading schema information about a table
-  server.setRequestHandler(ReadResourceRequestSchema, handleReadResource);
+  // Handler for reading the definition of a database object
+  server.setRequestHandler(ReadResourceRequestSchema, audited('resource', (request) => request.params.uri, handleReadResource));
   
   // Handler for listing available tools
   server.setRequestHandler(ListToolsRequestSchema, handleListTools);
   
   // Handler for executing tools (SQL queries)
-  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+  server.setRequestHandler(CallToolRequestSchema, audited('tool', (request) => request.params.name, handleCallTool));
+  
+  // Handler for listing prompt templates
+  server.setRequestHandler(ListPromptsRequestSchema, handleListPrompts);
+  
+  // Handler for filling a prompt template with schema context
+  server.setRequestHandler(GetPromptRequestSchema, audited('prompt', (request) => request.params.name, handleGetPrompt));
+  
+  // Handler for the client choosing which log messages it receives
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logger.setMcpLevel(server, request.params.level);
+    return {};
+  });
+  
+  // Resources this client subscribed to; it is told when a schema change alters them
+  const subscriptions = new Set<string>();
+  
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  
+  // Schema changes are reported to this client for as long as it is connected
+  const stopWatching = schemaWatcher.onSchemaChange((change) => notifySchemaChange(server, subscriptions, change));
+  
+  // Which tools are advertised depends on what the targets can do, so a new probe result can change the list
+  const stopProbing = capabilities.onCapabilitiesChange(() => {
+    server.sendToolListChanged().catch(() => {});
+  });
+  const onclose = server.onclose;
+  server.onclose = () => {
+    stopWatching();
+    stopProbing();
+    onclose?.();
+  };
 }
 
 /**
- * Helper function to create a resource URI for a table
+ * Sends the notifications for a schema change to one client
+ * Resource listings cover the default target; subscribed URIs name any other target with ?target=
  */
-function createResourceUri(tableName: string): string {
+function notifySchemaChange(server: Server, subscriptions: Set<string>, change: schemaWatcher.SchemaChange): void {
+  const defaultTarget = targets.getTarget().name;
+  
+  if (change.listChanged && change.target === defaultTarget) {
+    server.sendResourceListChanged().catch(() => {});
+  }
+  
+  for (const uri of subscriptions) {
+    const ref = parseResourceUri(uri);
+    const diagram = ref ? null : parseDiagramUri(uri);
+    if ((!ref && !diagram) || (new URL(uri).searchParams.get('target') ?? defaultTarget) !== change.target) {
+      continue;
+    }
+    
+    // A schema resource counts the objects it contains, so any change inside the schema updates it.
+    // A schema diagram changes with the tables of the schema; a table's neighbors can be in any schema.
+    const affected = change.changed.some((object) => diagram
+      ? object.kind === 'table' && (diagram.table !== undefined || object.schema === diagram.schema)
+      : ref!.kind === 'schema'
+        ? object.schema === ref!.schema
+        : object.kind === ref!.kind && object.schema === ref!.schema && object.name === ref!.name &&
+          (object.args ?? '') === (ref!.args ?? ''));
+    
+    if (affected) {
+      server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Helper function to create a resource URI for a database object
+ */
+function createResourceUri(ref: ResourceRef): string {
   const projectRef = supabaseService.getProjectRef();
-  return `supabase://${projectRef}.supabase.co/tables/${tableName}`;
+  return buildResourceUri(projectRef, ref);
+}
+
+// Human-readable labels for resource kinds
+const KIND_LABELS: Record<ResourceKind, string> = {
+  schema: 'schema',
+  table: 'table',
+  view: 'view',
+  materialized_view: 'materialized view',
+  function: 'function',
+  type: 'type',
+  sequence: 'sequence',
+};
+
+/**
+ * Helper function to encode a pagination cursor
+ */
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
 }
 
 /**
- * Handler for listing all database tables as resources
+ * Helper function to decode a pagination cursor
  */
-async function handleListResources() {
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+  
   try {
-    const { tables, error } = await supabaseService.listTables();
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Builds the tool error for a query that hit its statement timeout or was cancelled
+ * Returns null for any other error
+ */
+function interruptionError(error: any, control: queryControl.QueryControl = queryControl.currentQueryControl()) {
+  const interruption = queryControl.describeInterruption(error, control);
+  if (!interruption) {
+    return null;
+  }
+  
+  if (interruption.code === 'QUERY_TIMEOUT') {
+    return toolError(interruption.message, {
+      code: interruption.code,
+      timeoutMs: interruption.timeoutMs,
+      maxTimeoutMs: queryControl.getMaxTimeout(),
+      hint: "Narrow the query (filters, LIMIT, indexed columns) or pass a larger timeout_ms",
+    });
+  }
+  
+  return toolError(interruption.message, { code: interruption.code });
+}
+
+/**
+ * Helper function to build a structured tool error result
+ */
+function toolError(message: string, details: Record<string, any> = {}) {
+  return {
+    content: [{ 
+      type: "text", 
+      text: JSON.stringify({ 
+        error: true, 
+        message,
+        ...details
+      }, null, 2) 
+    }],
+    isError: true,
+  };
+}
+
+// Resource listing the configured database targets
+const TARGETS_RESOURCE_URI = "supabase://targets";
+
+const TARGETS_RESOURCE = {
+  uri: TARGETS_RESOURCE_URI,
+  mimeType: "application/json",
+  name: "Database targets",
+  description: "Configured database targets that tools can select with the target argument",
+};
+
+// Resource listing recorded statements; filters are passed as query parameters
+const AUDIT_RESOURCE_URI = "audit://queries";
+
+const AUDIT_RESOURCE = {
+  uri: AUDIT_RESOURCE_URI,
+  mimeType: "application/json",
+  name: "Query audit log",
+  description: "Recent SQL statements run by this server. Filter with ?session= (or session=current), target, source, origin, since, until, errors, contains and limit",
+};
+
+// Resource with what each target was found able to do; ?refresh=true probes the targets again
+const DIAGNOSTICS_RESOURCE_URI = "supabase://diagnostics";
+
+const DIAGNOSTICS_RESOURCE = {
+  uri: DIAGNOSTICS_RESOURCE_URI,
+  mimeType: "application/json",
+  name: "Target diagnostics",
+  description: "What each target's key and backend can do: SQL through the sqlquery function, catalog access and the PostgREST OpenAPI description. Read with ?refresh=true to probe again",
+};
+
+/**
+ * Returns the resources listed before the database objects
+ */
+function serverResources() {
+  return audit.isAuditEnabled()
+    ? [TARGETS_RESOURCE, DIAGNOSTICS_RESOURCE, AUDIT_RESOURCE]
+    : [TARGETS_RESOURCE, DIAGNOSTICS_RESOURCE];
+}
+
+/**
+ * Handler for listing database objects as resources
+ * Results are paginated; pass the returned nextCursor to get the next page
+ */
+async function handleListResources(request: any) {
+  const offset = decodeCursor(request.params?.cursor);
+  const pageSize = Math.max(1, getNumber(env, 'RESOURCE_PAGE_SIZE', 100));
+  
+  try {
+    // Fetch one extra row to find out whether another page exists
+    const { objects, error } = await supabaseService.listDatabaseObjects(pageSize + 1, offset);
     
     if (error) {
-      console.warn('Could not list tables:', error.message);
-      return { resources: [] };
+      logger.warn('Could not list database objects', { error: error.message });
+      return { resources: offset === 0 ? serverResources() : [] };
     }
     
+    const page = objects.slice(0, pageSize);
+    
     return {
-      resources: tables.map((tableName) => ({
-        uri: createResourceUri(tableName),
-        mimeType: "application/json",
-        name: `"${tableName}" database table`,
-      })),
+      resources: [
+        // The targets and audit resources lead the first page
+        ...(offset === 0 ? serverResources() : []),
+        ...page.map((object) => {
+          const label = object.kind === 'schema'
+            ? `"${object.name}" schema`
+            : `"${object.schema}"."${object.name}${object.kind === 'function' ? `(${object.args ?? ''})` : ''}" ${KIND_LABELS[object.kind]}`;
+          
+          return {
+            uri: createResourceUri({
+              kind: object.kind,
+              schema: object.schema,
+              name: object.name,
+              args: object.args ?? undefined,
+            }),
+            mimeType: "application/json",
+            name: label,
+            ...(object.comment ? { description: object.comment } : {}),
+          };
+        }),
+      ],
+      ...(objects.length > pageSize ? { nextCursor: encodeCursor(offset + pageSize) } : {}),
     };
   } catch (error) {
-    console.error('Error listing resources:', error);
+    logger.error('Error listing resources', { error });
     return { resources: [] };
   }
 }
 
 /**
- * Handler for reading schema information about a table
+ * Handler for listing resource templates
+ * Diagrams and samples take options in the query string, so they are offered as templates rather than listed
+ */
+async function handleListResourceTemplates() {
+  const base = `supabase://${supabaseService.getProjectRef()}.supabase.co/schemas/{schema}`;
+  
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${base}/erd{?format,target}`,
+        name: "Schema entity-relationship diagram",
+        mimeType: erd.ERD_MIME_TYPES.mermaid,
+        description: "Tables of a schema with their columns, keys and foreign keys, as a Mermaid erDiagram (format=mermaid, default) or Graphviz DOT (format=dot)",
+      },
+      {
+        uriTemplate: `${base}/tables/{table}/erd{?depth,format,target}`,
+        name: "Table entity-relationship diagram",
+        mimeType: erd.ERD_MIME_TYPES.mermaid,
+        description: "A table and the tables up to depth foreign key hops away (default 1), as a Mermaid erDiagram (format=mermaid, default) or Graphviz DOT (format=dot)",
+      },
+      {
+        uriTemplate: `${base}/tables/{table}/sample{?limit,method,percent,target}`,
+        name: "Table sample rows",
+        mimeType: "application/json",
+        description: "A few rows of a table (views/ and materialized_views/ work too), with sensitive columns masked. method=first (default) returns the first rows; system or bernoulli use TABLESAMPLE over about percent of the table",
+      },
+    ],
+  };
+}
+
+/**
+ * Loads the description of the database object a resource URI points to
+ */
+async function describeResource(ref: ResourceRef): Promise<{ description: any; error: any }> {
+  switch (ref.kind) {
+    case 'schema': {
+      const { definition, error } = await supabaseService.getSchemaDescription(ref.schema);
+      return { description: definition, error };
+    }
+    case 'table':
+    case 'view':
+    case 'materialized_view': {
+      const { schema, error } = await supabaseService.getTableSchema(ref.name, ref.schema);
+      return { description: schema, error };
+    }
+    case 'function': {
+      const { definition, error } = await supabaseService.getFunctionDefinition(ref.schema, ref.name, ref.args ?? '');
+      return { description: definition, error };
+    }
+    case 'type': {
+      const { definition, error } = await supabaseService.getTypeDefinition(ref.schema, ref.name);
+      return { description: definition, error };
+    }
+    case 'sequence': {
+      const { definition, error } = await supabaseService.getSequenceDefinition(ref.schema, ref.name);
+      return { description: definition, error };
+    }
+  }
+}
+
+/**
+ * Handler for reading a database object resource
  */
 async function handleReadResource(request: any) {
   try {
     const uri = request.params.uri;
-    const matches = uri.match(/supabase:\/\/[^\/]+\/tables\/([^\/]+)/);
     
-    if (!matches) {
+    if (uri === TARGETS_RESOURCE_URI) {
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify({ targets: targets.getTargets().map(targets.describeTarget) }, null, 2),
+          },
+        ],
+      };
+    }
+    
+    if (uri.split('?')[0] === DIAGNOSTICS_RESOURCE_URI) {
+      return await readDiagnosticsResource(uri);
+    }
+    
+    if (uri.startsWith('audit:')) {
+      return readAuditResource(uri);
+    }
+    
+    const diagram = parseDiagramUri(uri);
+    if (diagram) {
+      return await readDiagramResource(uri, diagram);
+    }
+    
+    const sample = parseSampleUri(uri);
+    if (sample) {
+      return await readSampleResource(uri, sample);
+    }
+    
+    const ref = parseResourceUri(uri);
+    
+    if (!ref) {
       throw new Error(`Invalid resource URI: ${uri}`);
     }
     
-    const tableName = matches[1];
-    const { schema, error } = await supabaseService.getTableSchema(tableName);
+    if (!isSchemaAllowed(ref.schema)) {
+      throw new Error(`Schema "${ref.schema}" is not exposed by this server`);
+    }
+    
+    // Resources describe the default target unless the URI asks for another with ?target=<name>
+    const target = new URL(uri).searchParams.get('target') ?? undefined;
+    const { description, error } = await targets.runWithTarget(target, () => describeResource(ref));
     
     if (error) {
-      console.warn(`Could not get schema for table ${tableName}:`, error.message);
+      logger.warn(`Could not describe ${KIND_LABELS[ref.kind]} ${ref.schema}.${ref.name}`, { error: error.message });
       return {
         contents: [
           {
             uri: request.params.uri,
             mimeType: "application/json",
-            text: JSON.stringify({ error: "Could not access schema with current permissions" }, null, 2),
+            text: JSON.stringify({ 
+              error: "Could not access schema with current permissions",
+              details: error.message
+            }, null, 2),
           },
         ],
       };
@@ -94,12 +470,12 @@ async function handleReadResource(request: any) {
         {
           uri: request.params.uri,
           mimeType: "application/json",
-          text: JSON.stringify(schema, null, 2),
+          text: JSON.stringify(description, null, 2),
         },
       ],
     };
   } catch (error: any) {
-    console.error('Error reading resource:', error);
+    logger.error('Error reading resource', { error });
     return {
       contents: [
         {
@@ -113,65 +489,1183 @@ async function handleReadResource(request: any) {
 }
 
 /**
- * Handler for listing available tools
+ * Renders the entity-relationship diagram a diagram resource URI points to
  */
-async function handleListTools() {
+async function readDiagramResource(uri: string, diagram: DiagramRef) {
+  if (!isSchemaAllowed(diagram.schema)) {
+    throw new Error(`Schema "${diagram.schema}" is not exposed by this server`);
+  }
+  
+  const params = new URL(uri).searchParams;
+  const options = erd.parseErdOptions(params);
+  const tables = await targets.runWithTarget(params.get('target') ?? undefined,
+    () => erd.loadDiagramTables(diagram, options.depth));
+  
   return {
-    tools: [
+    contents: [
+      {
+        uri,
+        mimeType: erd.ERD_MIME_TYPES[options.format],
+        text: erd.renderErd(tables, options.format),
+      },
+    ],
+  };
+}
+
+/**
+ * Reads a masked sample of the rows of a table through a sample resource URI
+ */
+async function readSampleResource(uri: string, ref: ResourceRef) {
+  if (!isSchemaAllowed(ref.schema)) {
+    throw new Error(`Schema "${ref.schema}" is not exposed by this server`);
+  }
+  
+  const params = new URL(uri).searchParams;
+  const options = tableSample.parseSampleOptions(params);
+  const sample = await targets.runWithTarget(params.get('target') ?? undefined,
+    () => tableSample.sampleTable(ref.schema, ref.name, options));
+  
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(sample, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Reads the diagnostics resource, probing the targets first when asked to
+ * Targets that haven't been probed are listed with checkedAt null
+ */
+async function readDiagnosticsResource(uri: string) {
+  if (new URLSearchParams(uri.split('?')[1] ?? '').get('refresh') === 'true') {
+    await capabilities.probeAllTargets();
+  }
+  
+  const diagnostics = targets.getTargets().map((target) => capabilities.getCapabilities(target.name) ?? {
+    target: target.name,
+    backend: target.env.DB_BACKEND,
+    checkedAt: null,
+  });
+  
+  return {
+    contents: [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify({ probeAtStartup: capabilities.isProbeEnabled(), targets: diagnostics }, null, 2),
+    }],
+  };
+}
+
+/**
+ * Reads the audit log through an audit://queries resource URI
+ */
+function readAuditResource(uri: string) {
+  const url = new URL(uri);
+  if (url.host !== 'queries' || url.pathname.replace(/\/$/, '') !== '') {
+    throw new Error(`Unknown audit resource: ${uri}. Use ${AUDIT_RESOURCE_URI}`);
+  }
+  if (!audit.isAuditEnabled()) {
+    throw new Error('The audit log is disabled by AUDIT_LOG=false, so no statements are recorded. Remove the setting or set AUDIT_LOG=true to enable it.');
+  }
+  
+  const filter = audit.parseAuditFilter(url.searchParams);
+  if (filter.session === 'current') {
+    filter.session = audit.currentSession() ?? undefined;
+  }
+  const entries = audit.readAuditLog(filter);
+  
+  return {
+    contents: [
       {
-        name: "query",
-        description: "Run a read-only SQL query on the Supabase database",
-        inputSchema: {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify({ filter, count: entries.length, entries }, null, 2),
+      },
+    ],
+  };
+}
+
+// Output format argument shared by every tool that returns rows
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: RESULT_FORMATS,
+  description: "Output format for rows: json (pretty, default), compact (single-line JSON), ndjson, csv or markdown",
+};
+
+// Statement timeout argument shared by the tools that run arbitrary SQL
+const TIMEOUT_PROPERTY = {
+  type: "number",
+  description: "Statement timeout in milliseconds for this call (default and maximum set by the server)",
+};
+
+// Identity arguments: queries run as this role, with these claims, inside their transaction
+const ROLE_PROPERTY = {
+  type: "string",
+  description: "Database role to run as with SET LOCAL ROLE, e.g. anon or authenticated (default: the role claim, or authenticated when claims are given). Needs DB_BACKEND=pg.",
+};
+
+const JWT_CLAIMS_PROPERTY = {
+  type: "object",
+  description: "JWT claims exposed as request.jwt.claims, e.g. {\"sub\": \"<user id>\", \"email\": \"...\"}, so auth.uid() and auth.jwt() return them. Needs DB_BACKEND=pg.",
+};
+
+// Target argument shared by every tool
+const TARGET_PROPERTY = {
+  type: "string",
+  description: "Database target to run against, from the supabase://targets resource (default: the default target)",
+};
+
+/**
+ * Helper function to render rows in the requested format as tool content
+ */
+function renderContent(result: RenderableResult, format: ResultFormat) {
+  const blocks = renderResult(result, format, {
+    maxCellWidth: getNumber(env, 'QUERY_MARKDOWN_CELL_WIDTH', 40),
+  });
+  return blocks.map((text) => ({ type: "text", text }));
+}
+
+/**
+ * Tool definition for read-only SQL queries
+ */
+const QUERY_TOOL = {
+  name: "query",
+  description: "Run a read-only SQL query on the Supabase database. Only a single SELECT, WITH, VALUES, TABLE, SHOW or EXPLAIN statement is accepted; writes, DDL and multiple statements are rejected. Pass values through params and refer to them as $1, $2, ... instead of writing them into the SQL. Large results are split into pages: when the result is truncated, call again with the returned page_token to get the next page.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: { type: "string", description: "Query to run (not needed with page_token)" },
+      params: {
+        type: "array",
+        description: "Values for the $1..$n placeholders, in order. Each item is a value, or an object {\"value\": ..., \"type\": \"uuid\"} to cast the placeholder to a PostgreSQL type. Wrap JSON objects this way with type json or jsonb.",
+        items: {},
+      },
+      page_token: { type: "string", description: "Token from a previous truncated result, to fetch its next page" },
+      max_rows: { type: "number", description: "Maximum rows to return in this page (capped by the server limit)" },
+      timeout_ms: TIMEOUT_PROPERTY,
+      cost_confirmation_token: {
+        type: "string",
+        description: "Token from a COST_CONFIRMATION_REQUIRED error, to run that exact query despite its estimated cost",
+      },
+      role: ROLE_PROPERTY,
+      jwt_claims: JWT_CLAIMS_PROPERTY,
+      format: FORMAT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+// An identity to run a query as, for the compare_identities tool
+const IDENTITY_PROPERTY = {
+  type: "object",
+  properties: {
+    role: ROLE_PROPERTY,
+    jwt_claims: JWT_CLAIMS_PROPERTY,
+  },
+};
+
+/**
+ * Tool definition for comparing the rows two identities see
+ */
+const COMPARE_IDENTITIES_TOOL = {
+  name: "compare_identities",
+  description: "Run the same read-only query as two identities (a role and JWT claims, as Supabase's API evaluates them) and compare the rows each one sees, to check row level security policies. Needs DB_BACKEND=pg.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: { type: "string", description: "Query to run as both identities" },
+      params: QUERY_TOOL.inputSchema.properties.params,
+      first: { ...IDENTITY_PROPERTY, description: "First identity, e.g. {\"role\": \"anon\"}" },
+      second: { ...IDENTITY_PROPERTY, description: "Second identity, e.g. {\"jwt_claims\": {\"sub\": \"<user id>\"}}" },
+      key: {
+        type: "array",
+        items: { type: "string" },
+        description: "Columns identifying a row. With a key, rows both identities see with different values are listed as changed; without one, whole rows are compared.",
+      },
+      timeout_ms: TIMEOUT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+    required: ["sql", "first", "second"],
+  },
+};
+
+// An embedded table: rows of a related table nested in each row through a foreign key
+const EMBED_ITEM = {
+  type: "object",
+  properties: {
+    table: { type: "string", description: "Related table" },
+    alias: { type: "string", description: "Key the related rows are returned under (default: the table name)" },
+    foreign_key: { type: "string", description: "Foreign key constraint to follow when several relate the tables" },
+    inner: { type: "boolean", description: "Only return rows that have a related row (default: false)" },
+    columns: { type: "array", items: { type: "string" }, description: "Columns of the related table (default: all)" },
+    embed: { type: "array", items: { type: "object" }, description: "Tables embedded in the related rows, in the same form" },
+  },
+  required: ["table"],
+};
+
+/**
+ * Tool definition for reading rows through PostgREST
+ */
+const SELECT_ROWS_TOOL = {
+  name: "select_rows",
+  description: "Read rows of a table or view through the Supabase REST API (PostgREST), with the same row level security as the app. Works without the sqlquery function. Pick columns, filter, order, page with limit/offset and embed related tables through their foreign keys.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      table: { type: "string", description: "Table or view to read" },
+      schema: { type: "string", description: "Schema of the table; it must be exposed by the API (default: public)" },
+      columns: { type: "array", items: { type: "string" }, description: "Columns to return (default: all)" },
+      embed: { type: "array", items: EMBED_ITEM, description: "Related tables to nest in each row" },
+      filters: {
+        type: "array",
+        description: "Conditions that must all hold. Columns of embedded tables are written as table.column.",
+        items: {
           type: "object",
           properties: {
-            sql: { type: "string" },
+            column: { type: "string" },
+            op: { type: "string", enum: postgrest.FILTER_OPERATORS },
+            value: { description: "Value to compare with: an array for in, null/true/false for is, [from, to] for range (null for an open end), a pattern with % for like and ilike" },
           },
+          required: ["column", "op", "value"],
         },
       },
+      order: {
+        type: "array",
+        description: "Sort keys, in order",
+        items: {
+          type: "object",
+          properties: {
+            column: { type: "string" },
+            ascending: { type: "boolean", description: "Default: true" },
+            nulls_first: { type: "boolean" },
+          },
+          required: ["column"],
+        },
+      },
+      limit: { type: "number", description: "Maximum rows to return (default and maximum set by the server)" },
+      offset: { type: "number", description: "Rows to skip (default: 0)" },
+      count: { type: "boolean", description: "Also return the number of matching rows (default: false)" },
+      timeout_ms: { ...TIMEOUT_PROPERTY, description: "Timeout in milliseconds for this call (default and maximum set by the server)" },
+      format: FORMAT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+    required: ["table"],
+  },
+};
+
+/**
+ * Tool definition for query plans
+ */
+const EXPLAIN_TOOL = {
+  name: "explain_query",
+  description: "Show the execution plan of a SQL query with a readable summary of the most expensive nodes, sequential scans on large tables, misestimated row counts and spills to disk. With analyze=true the query is executed inside a transaction that is rolled back.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: { type: "string", description: "Query to explain" },
+      analyze: { type: "boolean", description: "Run the query to collect actual timings and row counts (default: false)" },
+      buffers: { type: "boolean", description: "Include buffer usage; requires analyze (default: false)" },
+      timeout_ms: TIMEOUT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+    required: ["sql"],
+  },
+};
+
+/**
+ * Tool definition for estimated query plans, used when no target can run analyze
+ */
+const EXPLAIN_ESTIMATE_TOOL = {
+  ...EXPLAIN_TOOL,
+  description: "Show the estimated execution plan of a SQL query with a readable summary of the most expensive nodes and sequential scans on large tables. The query is not executed.",
+  inputSchema: {
+    ...EXPLAIN_TOOL.inputSchema,
+    properties: {
+      sql: EXPLAIN_TOOL.inputSchema.properties.sql,
+      timeout_ms: TIMEOUT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+/**
+ * Tool definition for dropping cached schema information
+ */
+const REFRESH_SCHEMA_TOOL = {
+  name: "refresh_schema",
+  description: "Drop cached schema information so resources are read from the catalog again, and check the schema for changes. Use it after the schema was changed outside this server.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+// Schemas argument shared by the schema snapshot and diff tools
+const SCHEMAS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description: "Schemas to include (default: public)",
+};
+
+/**
+ * Tool definition for saving a schema snapshot
+ */
+const SCHEMA_SNAPSHOT_TOOL = {
+  name: "schema_snapshot",
+  description: "Save the tables, views, columns, constraints, indexes and types of a database as a named JSON snapshot, to compare against later with schema_diff.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Snapshot name; letters, digits, dots, dashes and underscores. An existing snapshot of that name is replaced." },
+      schemas: SCHEMAS_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+    required: ["name"],
+  },
+};
+
+/**
+ * Tool definition for comparing two schemas
+ */
+const SCHEMA_DIFF_TOOL = {
+  name: "schema_diff",
+  description: "Compare the schema of two database targets, or of a target and a saved snapshot. Reports tables, views, columns, constraints, indexes and enum or composite types that were added, removed or changed in `to` relative to `from`. With ddl=true it also returns the DDL that would make `from` match `to`; review it before running it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      from: { type: "string", description: "Target to compare from (default: the default target)" },
+      from_snapshot: { type: "string", description: "Saved snapshot to compare from, instead of a target" },
+      to: { type: "string", description: "Target to compare to (default: the default target)" },
+      to_snapshot: { type: "string", description: "Saved snapshot to compare to, instead of a target" },
+      schemas: { ...SCHEMAS_PROPERTY, description: "Schemas to compare (default: the schemas of the snapshot, or public)" },
+      ddl: { type: "boolean", description: "Also return DDL that reconciles the differences (default: false)" },
+    },
+  },
+};
+
+// Version argument shared by the migration tools that plan or apply
+const UP_TO_PROPERTY = {
+  type: "string",
+  description: "Stop after this migration version (the file name without .sql); default: all pending migrations",
+};
+
+/**
+ * Tool definitions for the migrations of MIGRATIONS_DIR
+ */
+const MIGRATION_STATUS_TOOL = {
+  name: "migrations_status",
+  description: "Compare the SQL files of the migrations directory with the migrations recorded on a target: applied, pending, drifted (edited after being applied) and missing (recorded but no longer in the directory).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+const MIGRATION_PLAN_TOOL = {
+  name: "migrations_plan",
+  description: "List the pending migrations that migrations_apply would run on a target, in order and with checksums, and any drift that would stop it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      up_to: UP_TO_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+const MIGRATION_APPLY_TOOL = {
+  name: "migrations_apply",
+  description: "Apply the pending migrations to a target, each in its own transaction, stopping at the first failure. With dry_run=true they run in one transaction that is rolled back. Only targets with migrations enabled accept this.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      dry_run: { type: "boolean", description: "Run the migrations and roll them back (default: false)" },
+      up_to: UP_TO_PROPERTY,
+      timeout_ms: TIMEOUT_PROPERTY,
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+/**
+ * Tool definition for installing the sqlquery function
+ */
+const SETUP_SQLQUERY_FUNCTION_TOOL = {
+  name: "setup_sqlquery_function",
+  description: "Install the sqlquery function the rpc backend needs, over a direct database connection (DB_PASSWORD or DATABASE_URL). The function runs with the caller's privileges, is read-only unless read_only=false, and can only be executed by the roles in grant_to. Only targets with sqlquery setup enabled accept this; dry_run=true returns the SQL without running it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      read_only: { type: "boolean", description: "Refuse writes inside the function (default: true)" },
+      grant_to: {
+        type: "array",
+        items: { type: "string" },
+        description: "Roles allowed to execute the function (default: [\"service_role\"]). Grant anon or authenticated only if the configured key uses that role.",
+      },
+      replace: { type: "boolean", description: "Replace an existing sqlquery function (default: false)" },
+      dry_run: { type: "boolean", description: "Return the SQL without running it (default: false)" },
+      target: TARGET_PROPERTY,
+    },
+  },
+};
+
+// Properties shared by all write tools
+const WRITE_TARGET_PROPERTIES = {
+  table: { type: "string", description: "Table to modify" },
+  schema: { type: "string", description: "Schema of the table (default: public)" },
+  confirmation_token: {
+    type: "string",
+    description: "Token from a previous preview of the same call. Omit it to preview the change; pass it to commit.",
+  },
+  format: { ...FORMAT_PROPERTY, description: "Output format for the before/after row samples (default: json)" },
+  target: { ...TARGET_PROPERTY, description: `${TARGET_PROPERTY.description}. Read-only targets refuse writes.` },
+};
+
+/**
+ * Tool definitions for the opt-in write tools
+ */
+const WRITE_TOOLS = [
+  {
+    name: "insert_rows",
+    description: "Insert rows into a table. The first call previews the change in a rolled-back transaction and returns a confirmation token; call again with the same arguments and the token to commit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...WRITE_TARGET_PROPERTIES,
+        rows: { type: "array", items: { type: "object" }, description: "Rows to insert, as column/value objects" },
+      },
+      required: ["table", "rows"],
+    },
+  },
+  {
+    name: "update_rows",
+    description: "Update rows matching equality filters. The first call previews affected rows in a rolled-back transaction and returns a confirmation token; call again with the same arguments and the token to commit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...WRITE_TARGET_PROPERTIES,
+        set: { type: "object", description: "Column values to set" },
+        where: { type: "object", description: "Equality filters (column: value); null matches IS NULL, arrays match any value" },
+      },
+      required: ["table", "set", "where"],
+    },
+  },
+  {
+    name: "delete_rows",
+    description: "Delete rows matching equality filters. The first call previews affected rows in a rolled-back transaction and returns a confirmation token; call again with the same arguments and the token to commit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...WRITE_TARGET_PROPERTIES,
+        where: { type: "object", description: "Equality filters (column: value); null matches IS NULL, arrays match any value" },
+      },
+      required: ["table", "where"],
+    },
+  },
+];
+
+/**
+ * Handler for listing available tools
+ * Write tools are only advertised when ENABLE_WRITE_TOOLS is set
+ */
+async function handleListTools() {
+  // Tools that run SQL are left out when the probes found no target able to run it
+  const sql = targets.getTargets().some((target) => capabilities.canRunSql(target.name));
+  // Tools that need transactions are left out when no target uses the pg backend
+  const pgTargets = targets.getTargets().filter((target) => target.env.DB_BACKEND === 'pg');
+  const pg = sql && pgTargets.length > 0;
+  
+  return {
+    tools: [
+      ...(sql ? [QUERY_TOOL] : []),
+      SELECT_ROWS_TOOL,
+      ...(pg ? [COMPARE_IDENTITIES_TOOL] : []),
+      ...(sql ? [pg ? EXPLAIN_TOOL : EXPLAIN_ESTIMATE_TOOL] : []),
+      REFRESH_SCHEMA_TOOL,
+      ...(sql ? [SCHEMA_SNAPSHOT_TOOL, SCHEMA_DIFF_TOOL, MIGRATION_STATUS_TOOL, MIGRATION_PLAN_TOOL] : []),
+      // Only advertised when at least one pg target accepts migrations
+      ...(pg && pgTargets.some((target) => target.allowMigrations) ? [MIGRATION_APPLY_TOOL] : []),
+      ...(pg && writeOperations.isWriteEnabled() ? WRITE_TOOLS : []),
+      // Only advertised when at least one target accepts the setup
+      ...(targets.getTargets().some((target) => target.allowSqlquerySetup) ? [SETUP_SQLQUERY_FUNCTION_TOOL] : []),
     ],
   };
 }
 
+// Tools that need SQL on the target they run against
+const SQL_TOOLS = new Set([
+  "query",
+  "compare_identities",
+  "explain_query",
+  "schema_snapshot",
+  "schema_diff",
+  "migrations_status",
+  "migrations_plan",
+  "migrations_apply",
+  "insert_rows",
+  "update_rows",
+  "delete_rows",
+]);
+
 /**
- * Handler for executing tools (SQL queries)
+ * Handler for executing tools
  */
 async function handleCallTool(request: any) {
-  if (request.params.name === "query") {
-    const sql = request.params.arguments?.sql as string;
-    
-    try {
-      const { data, error } = await supabaseService.executeSqlQuery(sql);
-      
-      if (error) {
-        return {
-          content: [{ 
-            type: "text", 
-            text: JSON.stringify({ 
-              error: true, 
-              message: error.message 
-            }, null, 2) 
-          }],
-          isError: true,
-        };
+  const args = request.params.arguments ?? {};
+  
+  let target: targets.DatabaseTarget;
+  try {
+    target = targets.getTarget(args.target || undefined);
+  } catch (error: any) {
+    return toolError(error.message, { code: error.code ?? 'UNKNOWN_TARGET' });
+  }
+  
+  // Everything the tool does, including nested calls, runs against the selected target
+  return targets.runWithTarget(target.name, async () => {
+    if (SQL_TOOLS.has(request.params.name)) {
+      const unavailable = await checkSqlAvailable();
+      if (unavailable) {
+        return unavailable;
       }
-      
+    }
+    
+    switch (request.params.name) {
+      case "query":
+        return handleQueryTool(args);
+      case "select_rows":
+        return handleSelectRowsTool(args);
+      case "compare_identities":
+        return handleCompareIdentitiesTool(args);
+      case "explain_query":
+        return handleExplainTool(args);
+      case "refresh_schema":
+        return handleRefreshSchemaTool();
+      case "schema_snapshot":
+        return handleSchemaSnapshotTool(args);
+      case "schema_diff":
+        return handleSchemaDiffTool(args);
+      case "migrations_status":
+      case "migrations_plan":
+      case "migrations_apply":
+        return handleMigrationTool(request.params.name, args);
+      case "insert_rows":
+        return handleWriteTool('insert', args);
+      case "update_rows":
+        return handleWriteTool('update', args);
+      case "delete_rows":
+        return handleWriteTool('delete', args);
+      case "setup_sqlquery_function":
+        return handleSetupSqlqueryFunctionTool(args);
+    }
+    
+    throw new Error(`Unknown tool: ${request.params.name}`);
+  });
+}
+
+/**
+ * Returns the tool error for a call that needs SQL on a target found unable to run it, or null
+ * The target is probed again first, in case the sqlquery function was installed since.
+ */
+async function checkSqlAvailable() {
+  const target = targets.currentTarget().name;
+  if (capabilities.canRunSql(target)) {
+    return null;
+  }
+  
+  const probe = await capabilities.probeTarget();
+  if (probe.sql) {
+    return null;
+  }
+  
+  return toolError(`Target "${target}" can't run SQL`, {
+    code: 'SQL_UNAVAILABLE',
+    problems: probe.problems,
+    hint: probe.sqlqueryFunction === false
+      ? "Use select_rows to read rows without SQL, install the function with setup_sqlquery_function, or set DB_BACKEND=pg"
+      : `See ${DIAGNOSTICS_RESOURCE_URI} for what the target can do`,
+  });
+}
+
+/**
+ * Handler for the read-only query tool
+ * Results are returned one bounded page at a time; pass page_token to continue
+ */
+async function handleQueryTool(args: any) {
+  let control = queryControl.currentQueryControl();
+  
+  try {
+    const format = parseResultFormat(args.format);
+    
+    // A per-call max_rows can lower the configured limit but never raise it
+    const budget = queryPager.resolveBudget(args.max_rows);
+    
+    // A per-call timeout_ms replaces the default, up to the configured maximum
+    control = { ...control, timeoutMs: queryControl.resolveTimeout(args.timeout_ms) };
+    
+    if (args.page_token) {
+      const page = await queryControl.runWithQueryControl(control, () => queryPager.fetchNextPage(args.page_token, budget));
+      return queryPageResult(page, format);
+    }
+    
+    const sql = args.sql as string;
+    
+    // Placeholders are bound as real parameters; type hints become casts in the SQL
+    const bound = bindParameters(sql, normalizeParameters(args.params));
+    
+    // Refuse anything that isn't a single read-only statement before it reaches the database.
+    // The bound SQL is checked, since it is what runs, casts included.
+    const check = classifyReadOnly(bound.sql);
+    if (!check.allowed) {
+      return toolError("Query rejected: only read-only statements are allowed", {
+        code: check.code,
+        statementType: check.statementType,
+        reason: check.reason
+      });
+    }
+    
+    // With role or jwt_claims the query runs as that identity, so row level security applies to it
+    const as = identity.parseIdentity(args.role, args.jwt_claims);
+    if (as) {
+      identity.checkIdentitySupport();
+    }
+    
+    const page = await queryControl.runWithQueryControl(control, async () => {
+      // Queries the planner expects to be expensive are refused or need confirmation (COST_GUARD)
+      await costGuard.checkQueryCost(bound.sql, bound.values, args.cost_confirmation_token || undefined, as ?? undefined);
+      return queryPager.startQuery(bound.sql, budget, bound.values, as ?? undefined);
+    });
+    return queryPageResult(page, format);
+  } catch (error: any) {
+    if (error instanceof QueryParameterError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    
+    if (error instanceof ResultFormatError) {
+      return toolError(error.message, { code: 'INVALID_FORMAT' });
+    }
+    
+    if (error instanceof queryControl.QueryControlError) {
+      return toolError(error.message, { code: error.code });
+    }
+    
+    if (error instanceof costGuard.CostGuardError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    
+    if (error instanceof queryPager.PageTokenError) {
+      return toolError(error.message, { code: 'INVALID_PAGE_TOKEN' });
+    }
+    
+    if (error instanceof queryPager.PageBudgetError) {
+      return toolError(error.message, { code: error.code });
+    }
+    
+    if (error instanceof masking.MaskingError) {
+      return toolError(error.message, { code: error.code });
+    }
+    
+    if (error instanceof identity.IdentityError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    
+    // 25006 = read_only_sql_transaction, raised when the transaction refuses a write
+    if (error.code === '25006') {
+      return toolError("Query rejected: only read-only statements are allowed", {
+        code: 'READ_ONLY_TRANSACTION',
+        reason: error.message
+      });
+    }
+    
+    return interruptionError(error, control)
+      ?? toolError(error.message || String(error), error.code ? { code: error.code } : {});
+  }
+}
+
+/**
+ * Helper function to build the tool result for a page of query rows
+ */
+function queryPageResult(page: queryPager.QueryPage, format: ResultFormat) {
+  const { rows, columns, ...metadata } = page;
+  
+  // With MASK_QUERY_RESULTS the masking policy applies here too; result columns have no table
+  const policy = masking.isQueryMaskingEnabled() ? masking.loadMaskingPolicy() : null;
+  const masked = policy ? masking.maskRows(policy, columns, rows) : null;
+  
+  return {
+    content: renderContent({
+      columns,
+      rows: masked ? masked.rows : rows,
+      metadata: masked?.masked.length ? { ...metadata, masked: masked.masked } : metadata,
+    }, format),
+    isError: false,
+  };
+}
+
+/**
+ * Handler for the select_rows tool
+ * Rows are read through PostgREST with the target's API key, so row level security applies
+ */
+async function handleSelectRowsTool(args: any) {
+  let control = queryControl.currentQueryControl();
+  
+  try {
+    const format = parseResultFormat(args.format);
+    const request = postgrest.parseSelectRequest(args, queryPager.getDefaultBudget().maxRows);
+    if (!isSchemaAllowed(request.schema)) {
+      return toolError(`Schema not exposed by this server: ${request.schema}`, { code: 'INVALID_REQUEST' });
+    }
+    
+    // Load the masking policy first: without a valid policy no rows are read
+    const policy = masking.isQueryMaskingEnabled() ? masking.loadMaskingPolicy() : null;
+    
+    control = { ...control, timeoutMs: queryControl.resolveTimeout(args.timeout_ms) };
+    const result = await queryControl.runWithQueryControl(control,
+      () => postgrest.selectRows(supabaseService.getSupabaseClient(), request));
+    
+    const masked = policy
+      ? postgrest.maskSelectedRows(policy, result.rows, { schema: request.schema, name: request.table }, request.embed)
+      : null;
+    const rows = masked ? masked.rows : result.rows;
+    const offset = request.offset ?? 0;
+    const more = result.totalRows !== null ? offset + rows.length < result.totalRows : rows.length === request.limit;
+    
+    return {
+      content: renderContent({
+        columns: inferColumns(rows),
+        rows,
+        metadata: {
+          rowCount: rows.length,
+          offset,
+          ...(result.totalRows !== null ? { totalRows: result.totalRows } : {}),
+          ...(more ? { nextOffset: offset + rows.length } : {}),
+          ...(masked?.masked.length ? { masked: masked.masked } : {}),
+        },
+      }, format),
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof ResultFormatError) {
+      return toolError(error.message, { code: 'INVALID_FORMAT' });
+    }
+    if (error instanceof postgrest.SelectRowsError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    if (error instanceof queryControl.QueryControlError) {
+      return toolError(error.message, { code: error.code });
+    }
+    if (error instanceof masking.MaskingError) {
+      return toolError(error.message, { code: error.code });
+    }
+    return interruptionError(error, control) ?? toolError(error.message || String(error));
+  }
+}
+
+/**
+ * Handler for the compare_identities tool
+ * Both identities run the query in their own read-only transaction; masking applies to the rows shown
+ */
+async function handleCompareIdentitiesTool(args: any) {
+  let control = queryControl.currentQueryControl();
+  
+  try {
+    // The bound SQL is what runs, casts included, so it is what gets classified
+    const bound = bindParameters(args.sql, normalizeParameters(args.params));
+    const check = classifyReadOnly(bound.sql);
+    if (!check.allowed) {
+      return toolError("Query rejected: only read-only statements are allowed", {
+        code: check.code,
+        statementType: check.statementType,
+        reason: check.reason
+      });
+    }
+    
+    const parse = (value: any, name: string) => {
+      const parsed = value && typeof value === 'object' ? identity.parseIdentity(value.role, value.jwt_claims) : null;
+      if (!parsed) {
+        throw new identity.IdentityError(`${name} must be an object with a role, jwt_claims or both`, 'INVALID_IDENTITY');
+      }
+      return parsed;
+    };
+    const first = parse(args.first, 'first');
+    const second = parse(args.second, 'second');
+    if (args.key !== undefined && (!Array.isArray(args.key) || args.key.some((column: unknown) => typeof column !== 'string'))) {
+      throw new identity.IdentityError('key must be an array of column names', 'INVALID_KEY');
+    }
+    
+    const policy = masking.isQueryMaskingEnabled() ? masking.loadMaskingPolicy() : null;
+    
+    control = { ...control, timeoutMs: queryControl.resolveTimeout(args.timeout_ms) };
+    const comparison = await queryControl.runWithQueryControl(control,
+      () => identity.compareIdentities(bound.sql, bound.values, first, second, args.key));
+    
+    // Only a sample of the differing rows is shown, masked like query results
+    const sampleSize = queryPager.getDefaultBudget().maxRows;
+    const show = (rows: any[]) => {
+      const sample = rows.slice(0, sampleSize);
+      return policy ? masking.maskRows(policy, comparison.columns, sample).rows : sample;
+    };
+    const changedFirst = show(comparison.changed.map((change) => change.first));
+    const changedSecond = show(comparison.changed.map((change) => change.second));
+    
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          first: comparison.first,
+          second: comparison.second,
+          key: comparison.key,
+          identical: comparison.onlyInFirst.length === 0 && comparison.onlyInSecond.length === 0 && comparison.changed.length === 0,
+          inBoth: comparison.inBoth,
+          onlyInFirstCount: comparison.onlyInFirst.length,
+          onlyInSecondCount: comparison.onlyInSecond.length,
+          changedCount: comparison.changed.length,
+          columns: comparison.columns,
+          onlyInFirst: show(comparison.onlyInFirst),
+          onlyInSecond: show(comparison.onlyInSecond),
+          changed: changedFirst.map((row, index) => ({ first: row, second: changedSecond[index] })),
+        }, null, 2),
+      }],
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof identity.IdentityError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    if (error instanceof QueryParameterError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    if (error instanceof queryControl.QueryControlError) {
+      return toolError(error.message, { code: error.code });
+    }
+    if (error instanceof masking.MaskingError) {
+      return toolError(error.message, { code: error.code });
+    }
+    return interruptionError(error, control)
+      ?? toolError(error.message || String(error), error.code ? { code: error.code } : {});
+  }
+}
+
+/**
+ * Handler for the explain_query tool
+ */
+async function handleExplainTool(args: any) {
+  let control = queryControl.currentQueryControl();
+  
+  try {
+    control = { ...control, timeoutMs: queryControl.resolveTimeout(args.timeout_ms) };
+    const result = await queryControl.runWithQueryControl(control, () => explain.explainQuery(args.sql, {
+      analyze: args.analyze === true,
+      buffers: args.buffers === true,
+    }));
+    
+    return {
+      content: [
+        { type: "text", text: explain.formatPlanSummary(result.summary) },
+        { type: "text", text: JSON.stringify({ summary: result.summary, plan: result.plan }, null, 2) },
+      ],
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof explain.ExplainError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    if (error instanceof queryControl.QueryControlError) {
+      return toolError(error.message, { code: error.code });
+    }
+    return interruptionError(error, control) ?? toolError(error.message || String(error));
+  }
+}
+
+/**
+ * Handler for the refresh_schema tool
+ * Subscribed clients are notified of the changes it finds, as with a scheduled check
+ */
+async function handleRefreshSchemaTool() {
+  const target = targets.currentTarget().name;
+  const dropped = schemaCache.invalidateSchemaCache(target);
+  const change = await schemaWatcher.checkSchema(target);
+  
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        target,
+        cacheEntriesDropped: dropped,
+        changed: change?.changed ?? [],
+      }, null, 2),
+    }],
+    isError: false,
+  };
+}
+
+/**
+ * Reads the schemas argument of the schema tools, or returns null when it is omitted
+ */
+function parseSchemasArgument(value: unknown): string[] | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (!Array.isArray(value) || value.length === 0 || value.some((schema) => typeof schema !== 'string' || !schema)) {
+    throw new schemaDiff.SchemaDiffError('schemas must be a non-empty array of schema names', 'INVALID_ARGUMENTS');
+  }
+  
+  const hidden = value.filter((schema) => !isSchemaAllowed(schema));
+  if (hidden.length > 0) {
+    throw new schemaDiff.SchemaDiffError(`Schemas not exposed by this server: ${hidden.join(', ')}`, 'INVALID_ARGUMENTS');
+  }
+  return value;
+}
+
+/**
+ * Builds the tool error for the schema snapshot and diff tools
+ */
+function schemaToolError(error: any) {
+  if (error instanceof schemaDiff.SchemaDiffError) {
+    return toolError(error.message, { code: error.code });
+  }
+  if (error instanceof targets.TargetError) {
+    return toolError(error.message, { code: error.code });
+  }
+  return interruptionError(error) ?? toolError(error.message || String(error));
+}
+
+/**
+ * Handler for the schema_snapshot tool
+ */
+async function handleSchemaSnapshotTool(args: any) {
+  try {
+    const schemas = parseSchemasArgument(args.schemas) ?? ['public'];
+    const snapshot = await schemaDiff.captureSnapshot(schemas);
+    const file = schemaDiff.saveSnapshot(args.name, snapshot);
+    
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          file,
+          target: snapshot.target,
+          capturedAt: snapshot.capturedAt,
+          schemas,
+          tables: snapshot.tables.length,
+          types: snapshot.types.length,
+        }, null, 2),
+      }],
+      isError: false,
+    };
+  } catch (error: any) {
+    return schemaToolError(error);
+  }
+}
+
+/**
+ * Handler for the schema_diff tool
+ * Each side is a saved snapshot or a target described now; the DDL, when asked for, follows as a second block
+ */
+async function handleSchemaDiffTool(args: any) {
+  try {
+    for (const side of ['from', 'to']) {
+      if (args[side] && args[`${side}_snapshot`]) {
+        throw new schemaDiff.SchemaDiffError(`Pass either ${side} or ${side}_snapshot, not both`, 'INVALID_ARGUMENTS');
+      }
+    }
+    if (!args.from && !args.from_snapshot && !args.to && !args.to_snapshot) {
+      throw new schemaDiff.SchemaDiffError('Name two targets, or a target and a snapshot, to compare', 'INVALID_ARGUMENTS');
+    }
+    
+    // Snapshots are read first: without a schemas argument, live targets are described in the snapshot's schemas.
+    // A snapshot side is labelled with the snapshot name rather than the target it was taken from.
+    const readSnapshot = (name: string) => ({ ...schemaDiff.loadSnapshot(name), target: `snapshot:${name}` });
+    const fromSnapshot = args.from_snapshot ? readSnapshot(args.from_snapshot) : null;
+    const toSnapshot = args.to_snapshot ? readSnapshot(args.to_snapshot) : null;
+    const schemas = parseSchemasArgument(args.schemas) ?? fromSnapshot?.schemas ?? toSnapshot?.schemas ?? ['public'];
+    
+    const capture = (target: string | undefined) =>
+      targets.runWithTarget(target || undefined, () => schemaDiff.captureSnapshot(schemas));
+    const from = fromSnapshot ?? await capture(args.from);
+    const to = toSnapshot ?? await capture(args.to);
+    
+    const diff = schemaDiff.diffSnapshots(from, to, schemas);
+    const content = [{ type: "text", text: JSON.stringify(diff, null, 2) }];
+    
+    if (args.ddl === true) {
+      const statements = schemaDiff.buildReconcileDdl(diff);
+      content.push({
+        type: "text",
+        text: statements.length > 0
+          ? `-- DDL to make ${diff.from} match ${diff.to}\n${statements.join('\n\n')}`
+          : '-- The schemas match; no DDL needed',
+      });
+    }
+    
+    return { content, isError: false };
+  } catch (error: any) {
+    return schemaToolError(error);
+  }
+}
+
+/**
+ * Handler for the migrations_status, migrations_plan and migrations_apply tools
+ */
+async function handleMigrationTool(name: string, args: any) {
+  let control = queryControl.currentQueryControl();
+  
+  try {
+    let result: any;
+    if (name === 'migrations_status') {
+      result = await migrations.getMigrationStatus();
+    } else if (name === 'migrations_plan') {
+      result = await migrations.planMigrations(args.up_to || undefined);
+    } else {
+      control = { ...control, timeoutMs: queryControl.resolveTimeout(args.timeout_ms) };
+      result = await queryControl.runWithQueryControl(control, () => migrations.applyMigrations({
+        dryRun: args.dry_run === true,
+        upTo: args.up_to || undefined,
+      }));
+    }
+    
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof migrations.MigrationError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    if (error instanceof queryControl.QueryControlError) {
+      return toolError(error.message, { code: error.code });
+    }
+    return interruptionError(error, control) ?? toolError(error.message || String(error));
+  }
+}
+
+/**
+ * Handler for the setup_sqlquery_function tool
+ * After an install the target is probed again, so the advertised tools follow
+ */
+async function handleSetupSqlqueryFunctionTool(args: any) {
+  try {
+    const result = await sqlquerySetup.setupSqlqueryFunction(sqlquerySetup.parseSetupOptions(args));
+    if (result.dryRun) {
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         isError: false,
       };
-    } catch (error: any) {
+    }
+    
+    schemaCache.invalidateSchemaCache(result.target);
+    const probe = await capabilities.probeTarget();
+    
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          ...result,
+          capabilities: probe,
+          ...(probe.sql ? {} : {
+            note: `PostgREST may take a few seconds to reload its schema cache. Read ${DIAGNOSTICS_RESOURCE_URI}?refresh=true to check again.`,
+          }),
+        }, null, 2),
+      }],
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof sqlquerySetup.SqlquerySetupError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    return interruptionError(error) ?? toolError(error.message || String(error), error.code ? { code: error.code } : {});
+  }
+}
+
+/**
+ * Handler for the insert_rows, update_rows and delete_rows tools
+ */
+async function handleWriteTool(kind: writeOperations.WriteKind, args: any) {
+  if (!writeOperations.isWriteEnabled()) {
+    return toolError("Write tools are disabled. Set ENABLE_WRITE_TOOLS=true to enable them.", {
+      code: 'WRITES_DISABLED'
+    });
+  }
+  
+  try {
+    const format = parseResultFormat(args.format);
+    const result = await writeOperations.executeWrite({
+      kind,
+      schema: args.schema || 'public',
+      table: args.table,
+      rows: args.rows,
+      set: args.set,
+      where: args.where
+    }, args.confirmation_token);
+    
+    const summary = result.committed
+      ? `Committed: ${result.affectedRows} row(s) affected.`
+      : `Preview only (rolled back): ${result.affectedRows} row(s) would be affected. Call ${kind}_rows again with the same arguments and confirmation_token "${result.confirmationToken}" to commit.`;
+    
+    if (format === 'json') {
       return {
-        content: [{ 
-          type: "text", 
-          text: JSON.stringify({ 
-            error: true, 
-            message: error.message || String(error)
-          }, null, 2) 
-        }],
-        isError: true,
+        content: [{ type: "text", text: JSON.stringify({ summary, ...result }, null, 2) }],
+        isError: false,
       };
     }
+    
+    // Other formats render each row sample as its own block after the summary
+    const { before, after, ...metadata } = result;
+    const samples = Object.entries({ before, after })
+      .filter(([, rows]) => rows !== undefined)
+      .flatMap(([label, rows]) => renderContent({
+        columns: inferColumns(rows!),
+        rows: rows!,
+        metadata: { sample: label },
+      }, format));
+    
+    return {
+      content: [{ type: "text", text: JSON.stringify({ summary, ...metadata }) }, ...samples],
+      isError: false,
+    };
+  } catch (error: any) {
+    if (error instanceof ResultFormatError) {
+      return toolError(error.message, { code: 'INVALID_FORMAT' });
+    }
+    if (error instanceof writeOperations.WriteOperationError) {
+      return toolError(error.message, { code: error.code, ...error.details });
+    }
+    return interruptionError(error) ?? toolError(error.message || String(error));
   }
+}
+
+/**
+ * Handler for listing prompt templates
+ */
+async function handleListPrompts() {
+  return {
+    prompts: prompts.listPrompts().map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments.map((argument) => ({
+        name: argument.name,
+        description: argument.description,
+        required: argument.required === true,
+      })),
+    })),
+  };
+}
+
+/**
+ * Handler for filling a prompt template with its arguments and live schema context
+ */
+async function handleGetPrompt(request: any) {
+  const { description, text } = await prompts.renderPrompt(request.params.name, request.params.arguments ?? {});
   
-  throw new Error(`Unknown tool: ${request.params.name}`);
-} 
\ No newline at end of file
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
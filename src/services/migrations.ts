@@ -0,0 +1,408 @@
+/**
+ * Migrations
+ * Applies the SQL files of a local migrations directory in order and records each one in a
+ * tracking table, so every target can be compared with the files in the repository.
+ *
+ *   MIGRATIONS_DIR     directory of the migration files (default ./migrations)
+ *   MIGRATIONS_TABLE   tracking table, optionally schema-qualified (default public.mcp_schema_migrations)
+ *   ALLOW_MIGRATIONS   lets migrations_apply change the target (TARGET_<NAME>_ALLOW_MIGRATIONS for named targets)
+ *
+ * Files are applied in name order, so names should start with a sortable version,
+ * e.g. 20240105120000_add_teams.sql or 0002_add_teams.sql.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { env } from '../config/env.js';
+import { quoteLiteral, quoteQualified, splitStatements } from '../utils/sql.js';
+import * as supabaseService from './supabase.js';
+import { invalidateSchemaCache } from './schema-cache.js';
+import { checkSchema } from './schema-watcher.js';
+import { currentTarget } from './targets.js';
+import type { TransactionClient } from './backends/types.js';
+
+/**
+ * A migration file of the local directory
+ */
+export interface MigrationFile {
+  // File name without the .sql extension
+  version: string;
+  file: string;
+  // sha256 of the contents, with line endings normalized
+  checksum: string;
+  bytes: number;
+  sql: string;
+}
+
+/**
+ * Where a migration stands on the target
+ *   applied: recorded with the checksum the file still has
+ *   pending: in the directory but not recorded
+ *   drifted: recorded, but the file was edited since it was applied
+ *   missing: recorded, but the file is no longer in the directory
+ */
+export type MigrationState = 'applied' | 'pending' | 'drifted' | 'missing';
+
+/**
+ * A migration with its state on the target
+ */
+export interface MigrationStatusEntry {
+  version: string;
+  state: MigrationState;
+  // Checksum of the file in the directory
+  checksum: string | null;
+  // Checksum recorded when it was applied
+  appliedChecksum: string | null;
+  appliedAt: string | null;
+  // A pending migration that sorts before one already applied
+  outOfOrder?: boolean;
+}
+
+/**
+ * State of every migration on the target
+ */
+export interface MigrationStatus {
+  target: string;
+  directory: string;
+  table: string;
+  trackingTableExists: boolean;
+  counts: Record<MigrationState, number>;
+  migrations: MigrationStatusEntry[];
+}
+
+/**
+ * Migrations that migrations_apply would run, and the problems that would stop it
+ */
+export interface MigrationPlan {
+  target: string;
+  pending: { version: string; file: string; checksum: string; bytes: number; outOfOrder: boolean }[];
+  // Drifted and missing migrations; applying is refused until they are resolved
+  drift: MigrationStatusEntry[];
+  ready: boolean;
+}
+
+/**
+ * Outcome of applying migrations
+ */
+export interface MigrationApplyResult {
+  target: string;
+  dryRun: boolean;
+  // Migrations run, in order; with dryRun they were rolled back
+  applied: { version: string; checksum: string; durationMs: number }[];
+}
+
+/**
+ * Error raised when migrations can't be read, planned or applied
+ */
+export class MigrationError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Statements that would end the transaction each migration runs in
+const TRANSACTION_CONTROL = ['BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT'];
+
+// A migration recorded in the tracking table
+interface AppliedMigration {
+  checksum: string;
+  appliedAt: string;
+}
+
+/**
+ * Returns the directory of the migration files
+ */
+function migrationsDir(): string {
+  return path.resolve(process.cwd(), env.MIGRATIONS_DIR || 'migrations');
+}
+
+/**
+ * Returns the schema and name of the tracking table
+ */
+function trackingTable(): { schema: string; name: string } {
+  const [first, second] = (env.MIGRATIONS_TABLE || 'public.mcp_schema_migrations').split('.');
+  return second === undefined ? { schema: 'public', name: first } : { schema: first, name: second };
+}
+
+/**
+ * Reads the migration files, sorted by name with numbers compared by value
+ */
+export function readMigrationFiles(): MigrationFile[] {
+  const dir = migrationsDir();
+  if (!fs.existsSync(dir)) {
+    throw new MigrationError(`Migrations directory ${dir} does not exist. Set MIGRATIONS_DIR.`, 'MIGRATIONS_DIR_NOT_FOUND');
+  }
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.sql'))
+    .sort((a, b) => a.localeCompare(b, 'en', { numeric: true }))
+    .map((file) => {
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+      return {
+        version: file.slice(0, -'.sql'.length),
+        file,
+        // Line endings are normalized so a checkout on another platform doesn't look like drift
+        checksum: createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex'),
+        bytes: Buffer.byteLength(sql),
+        sql
+      };
+    });
+}
+
+/**
+ * Reads the migrations recorded on the active target
+ * Returns null when the tracking table doesn't exist yet
+ */
+async function readAppliedMigrations(): Promise<Map<string, AppliedMigration> | null> {
+  const { schema, name } = trackingTable();
+  const table = quoteQualified(schema, name);
+
+  const exists = await supabaseService.executeSqlQuery(
+    `SELECT to_regclass(${quoteLiteral(table)}) IS NOT NULL AS exists`,
+    { readOnly: true }
+  );
+  if (exists.error) {
+    throw new Error(`Could not look up the migrations table: ${exists.error.message}`);
+  }
+  if (!exists.data?.[0]?.exists) {
+    return null;
+  }
+
+  const result = await supabaseService.executeSqlQuery(
+    `SELECT version, checksum, applied_at::text AS applied_at FROM ${table} ORDER BY version`,
+    { readOnly: true }
+  );
+  if (result.error) {
+    throw new Error(`Could not read the migrations table: ${result.error.message}`);
+  }
+
+  return new Map((result.data ?? []).map((row: any) => [row.version, { checksum: row.checksum, appliedAt: row.applied_at }]));
+}
+
+/**
+ * Compares the migration files with the migrations recorded on the active target
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const applied = await readAppliedMigrations();
+  const { counts, migrations } = compareMigrations(readMigrationFiles(), applied ?? new Map());
+
+  const { schema, name } = trackingTable();
+  return {
+    target: currentTarget().name,
+    directory: migrationsDir(),
+    table: `${schema}.${name}`,
+    trackingTableExists: applied !== null,
+    counts,
+    migrations
+  };
+}
+
+/**
+ * Compares migration files with the migrations recorded on a target
+ */
+export function compareMigrations(
+  files: Pick<MigrationFile, 'version' | 'checksum'>[],
+  recorded: Map<string, AppliedMigration>
+): Pick<MigrationStatus, 'counts' | 'migrations'> {
+  const migrations: MigrationStatusEntry[] = files.map((file) => {
+    const record = recorded.get(file.version);
+    return {
+      version: file.version,
+      state: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'drifted',
+      checksum: file.checksum,
+      appliedChecksum: record?.checksum ?? null,
+      appliedAt: record?.appliedAt ?? null
+    };
+  });
+
+  const versions = new Set(files.map((file) => file.version));
+  for (const [version, record] of recorded) {
+    if (!versions.has(version)) {
+      migrations.push({ version, state: 'missing', checksum: null, appliedChecksum: record.checksum, appliedAt: record.appliedAt });
+    }
+  }
+  migrations.sort((a, b) => a.version.localeCompare(b.version, 'en', { numeric: true }));
+
+  // A pending migration sorting before an applied one would run out of its intended order
+  const lastApplied = migrations.filter((entry) => entry.state !== 'pending').pop()?.version;
+  for (const entry of migrations) {
+    if (entry.state === 'pending' && lastApplied && entry.version.localeCompare(lastApplied, 'en', { numeric: true }) < 0) {
+      entry.outOfOrder = true;
+    }
+  }
+
+  const counts: Record<MigrationState, number> = { applied: 0, pending: 0, drifted: 0, missing: 0 };
+  for (const entry of migrations) {
+    counts[entry.state]++;
+  }
+
+  return { counts, migrations };
+}
+
+/**
+ * Lists the migrations that would be applied, up to and including a version if given
+ */
+export async function planMigrations(upTo?: string): Promise<MigrationPlan> {
+  const status = await getMigrationStatus();
+  return { target: status.target, ...selectPendingMigrations(status.migrations, readMigrationFiles(), upTo) };
+}
+
+/**
+ * Picks the pending migrations to run, in order, up to and including a version if given
+ */
+export function selectPendingMigrations(
+  migrations: MigrationStatusEntry[],
+  migrationFiles: MigrationFile[],
+  upTo?: string
+): Omit<MigrationPlan, 'target'> {
+  const files = new Map(migrationFiles.map((file) => [file.version, file]));
+
+  if (upTo !== undefined && !files.has(upTo)) {
+    throw new MigrationError(`No migration file has the version "${upTo}"`, 'UNKNOWN_MIGRATION');
+  }
+
+  const pending: MigrationPlan['pending'] = [];
+  for (const entry of migrations) {
+    if (entry.state === 'pending') {
+      const file = files.get(entry.version)!;
+      pending.push({ version: file.version, file: file.file, checksum: file.checksum, bytes: file.bytes, outOfOrder: entry.outOfOrder === true });
+    }
+    if (entry.version === upTo) break;
+  }
+
+  const drift = migrations.filter((entry) => entry.state === 'drifted' || entry.state === 'missing');
+  return { pending, drift, ready: drift.length === 0 };
+}
+
+/**
+ * Refuses migration files that manage transactions themselves
+ */
+export function checkTransactionControl(file: Pick<MigrationFile, 'version' | 'file' | 'sql'>): void {
+  let statements: ReturnType<typeof splitStatements>;
+  try {
+    statements = splitStatements(file.sql);
+  } catch {
+    // SQL the tokenizer can't follow is left for the database to report
+    return;
+  }
+
+  const control = statements.find((tokens) => {
+    const first = tokens.find((token) => token.type === 'word')?.value;
+    return first !== undefined && TRANSACTION_CONTROL.includes(first);
+  });
+
+  if (control) {
+    throw new MigrationError(
+      `Migration ${file.file} contains transaction control statements; each migration already runs in its own transaction`,
+      'INVALID_MIGRATION',
+      { version: file.version }
+    );
+  }
+}
+
+/**
+ * Runs one migration and records it, inside the given transaction
+ * An advisory lock keeps two servers from applying migrations to the same database at once
+ */
+async function runMigration(tx: TransactionClient, file: MigrationFile): Promise<number> {
+  const { schema, name } = trackingTable();
+  const table = quoteQualified(schema, name);
+
+  await tx.query(`SELECT pg_advisory_xact_lock(hashtext(${quoteLiteral(table)}))`);
+  await tx.query(`CREATE TABLE IF NOT EXISTS ${table} (
+  version text PRIMARY KEY,
+  checksum text NOT NULL,
+  applied_at timestamptz NOT NULL DEFAULT now(),
+  duration_ms integer
+)`);
+
+  const existing = await tx.query(`SELECT 1 FROM ${table} WHERE version = $1`, [file.version]);
+  if (existing.rows.length > 0) {
+    throw new MigrationError(`Migration ${file.version} was applied by another client in the meantime`, 'MIGRATION_ALREADY_APPLIED', {
+      version: file.version
+    });
+  }
+
+  const startedAt = Date.now();
+  await tx.query(file.sql);
+  const durationMs = Date.now() - startedAt;
+
+  await tx.query(`INSERT INTO ${table} (version, checksum, duration_ms) VALUES ($1, $2, $3)`, [file.version, file.checksum, durationMs]);
+  return durationMs;
+}
+
+/**
+ * Applies the pending migrations to the active target
+ * Each migration runs in its own transaction and the first failure stops the run. A dry run
+ * applies all of them in one transaction that is rolled back, so later files can build on earlier ones.
+ */
+export async function applyMigrations(options: { dryRun?: boolean; upTo?: string } = {}): Promise<MigrationApplyResult> {
+  const target = currentTarget();
+  if (target.readOnly) {
+    throw new MigrationError(`Target "${target.name}" is read-only; migrations can't be applied.`, 'TARGET_READ_ONLY', {
+      target: target.name
+    });
+  }
+  if (!target.allowMigrations) {
+    const setting = target.name === 'default' && !env.TARGETS
+      ? 'ALLOW_MIGRATIONS'
+      : `TARGET_${target.name.toUpperCase().replace(/-/g, '_')}_ALLOW_MIGRATIONS`;
+    throw new MigrationError(`Migrations are not enabled for target "${target.name}". Set ${setting}=true to allow them.`, 'MIGRATIONS_DISABLED', {
+      target: target.name
+    });
+  }
+
+  const plan = await planMigrations(options.upTo);
+  if (!plan.ready) {
+    throw new MigrationError('Applied migrations differ from the files; resolve the drift before applying new migrations', 'MIGRATION_DRIFT', {
+      drift: plan.drift
+    });
+  }
+
+  const files = new Map(readMigrationFiles().map((file) => [file.version, file]));
+  const pending = plan.pending.map((entry) => files.get(entry.version)!);
+  pending.forEach(checkTransactionControl);
+
+  const dryRun = options.dryRun === true;
+  const applied: MigrationApplyResult['applied'] = [];
+  const run = async (tx: TransactionClient, file: MigrationFile) => {
+    try {
+      const durationMs = await runMigration(tx, file);
+      applied.push({ version: file.version, checksum: file.checksum, durationMs });
+    } catch (error: any) {
+      if (error instanceof MigrationError) throw error;
+      throw new MigrationError(`Migration ${file.version} failed: ${error.message}`, 'MIGRATION_FAILED', {
+        version: file.version,
+        applied: dryRun ? [] : applied.map((entry) => entry.version),
+        dryRun
+      });
+    }
+  };
+
+  if (pending.length === 0) {
+    return { target: target.name, dryRun, applied };
+  }
+
+  try {
+    if (dryRun) {
+      await supabaseService.runInTransaction(async (tx) => {
+        for (const file of pending) {
+          await run(tx, file);
+        }
+      }, { rollback: true });
+    } else {
+      for (const file of pending) {
+        await supabaseService.runInTransaction((tx) => run(tx, file));
+      }
+    }
+  } finally {
+    // Resources reflect the new schema right away, and subscribed clients are told about it
+    if (!dryRun && applied.length > 0) {
+      invalidateSchemaCache(target.name);
+      await checkSchema(target.name);
+    }
+  }
+
+  return { target: target.name, dryRun, applied };
+}
@@ -0,0 +1,385 @@
+/**
+ * PostgREST access
+ * Reads rows through the Supabase REST API with supabase.from(table).select(), for projects
+ * that can't add the sqlquery RPC function. Requests carry the target's API key, so row level
+ * security applies exactly as it does for the app using that key. When the RPC is missing,
+ * tables are listed from the PostgREST OpenAPI description instead of the catalog.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { currentTarget } from './targets.js';
+import { auditQuery } from './audit-log.js';
+import { currentQueryControl } from './query-control.js';
+import { QUERY_CANCELED } from './backends/errors.js';
+import { inferColumns } from './backends/array-cursor.js';
+import { MaskingPolicy, maskRows } from './masking.js';
+import { DatabaseObject, isSchemaAllowed } from './introspection.js';
+
+/**
+ * Filter operators accepted by select_rows
+ */
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'like' | 'ilike'  // `%` matches any characters
+  | 'in'              // value is an array
+  | 'is'              // value is null, true or false
+  | 'range';          // value is [from, to], inclusive; either bound can be null
+
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is', 'range'];
+
+/**
+ * A filter on a column; columns of embedded tables are written as table.column
+ */
+export interface RowFilter {
+  column: string;
+  op: FilterOperator;
+  value: unknown;
+}
+
+/**
+ * A related table embedded in each row through a foreign key
+ */
+export interface EmbeddedSelect {
+  table: string;
+  // Key the embedded rows are returned under (default: the table name)
+  alias?: string;
+  // Foreign key to follow when several relate the two tables
+  foreignKey?: string;
+  // Only return rows that have a related row
+  inner?: boolean;
+  columns?: string[];
+  embed?: EmbeddedSelect[];
+}
+
+/**
+ * A sort key
+ */
+export interface RowOrder {
+  column: string;
+  ascending?: boolean;
+  nullsFirst?: boolean;
+}
+
+/**
+ * A select_rows request, as received from a tool call
+ */
+export interface SelectRequest {
+  schema: string;
+  table: string;
+  columns?: string[];
+  embed?: EmbeddedSelect[];
+  filters?: RowFilter[];
+  order?: RowOrder[];
+  limit: number;
+  offset?: number;
+  // Ask PostgREST for the exact number of matching rows
+  count?: boolean;
+}
+
+/**
+ * Rows returned by a select_rows request
+ */
+export interface SelectResult {
+  rows: any[];
+  // Number of matching rows, when it was counted
+  totalRows: number | null;
+}
+
+/**
+ * Error raised when a select request is invalid or PostgREST refuses it
+ */
+export class SelectRowsError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'SelectRowsError';
+  }
+}
+
+// Characters with a meaning in PostgREST select and filter syntax
+const RESERVED_NAME_CHARACTERS = /[,()"!:*]/;
+
+/**
+ * Returns a column or table name for a select string, quoting names that aren't plain identifiers
+ */
+function selectName(name: unknown, what: string): string {
+  if (typeof name !== 'string' || name === '' || RESERVED_NAME_CHARACTERS.test(name)) {
+    throw new SelectRowsError(`Invalid ${what} name: ${JSON.stringify(name)}`, 'INVALID_REQUEST');
+  }
+  return /^[A-Za-z_][A-Za-z0-9_$]*$/.test(name) ? name : `"${name}"`;
+}
+
+/**
+ * Builds the PostgREST select string for a column list and embedded tables
+ * e.g. `id,name,team:teams!people_team_id_fkey!inner(id,name)`
+ */
+export function buildSelect(columns: string[] | undefined, embed: EmbeddedSelect[] = []): string {
+  const names = !columns || columns.length === 0 || (columns.length === 1 && columns[0] === '*')
+    ? ['*']
+    : columns.map((column) => selectName(column, 'column'));
+
+  const embedded = embed.map((related) => {
+    if (!related || typeof related !== 'object') {
+      throw new SelectRowsError('Each embed entry must be an object with a "table"', 'INVALID_REQUEST');
+    }
+    const alias = related.alias !== undefined ? `${selectName(related.alias, 'alias')}:` : '';
+    const hint = related.foreignKey !== undefined ? `!${selectName(related.foreignKey, 'foreign key')}` : '';
+    const inner = related.inner ? '!inner' : '';
+    return `${alias}${selectName(related.table, 'table')}${hint}${inner}(${buildSelect(related.columns, related.embed ?? [])})`;
+  });
+
+  return [...names, ...embedded].join(',');
+}
+
+/**
+ * Builds a request from select_rows tool arguments
+ * limit defaults to, and is capped at, maxRows.
+ */
+export function parseSelectRequest(args: any, maxRows: number): SelectRequest {
+  const list = (value: unknown, name: string): any[] | undefined => {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      throw new SelectRowsError(`${name} must be an array`, 'INVALID_REQUEST');
+    }
+    return value;
+  };
+  const embeds = (value: unknown, name: string): EmbeddedSelect[] | undefined => list(value, name)?.map((related) => {
+    if (!related || typeof related !== 'object' || typeof related.table !== 'string') {
+      throw new SelectRowsError(`Each ${name} entry must be an object with a "table"`, 'INVALID_REQUEST');
+    }
+    return {
+      table: related.table,
+      ...(related.alias !== undefined ? { alias: related.alias } : {}),
+      ...(related.foreign_key !== undefined ? { foreignKey: related.foreign_key } : {}),
+      ...(related.inner === true ? { inner: true } : {}),
+      ...(related.columns !== undefined ? { columns: list(related.columns, `${name}.columns`) } : {}),
+      ...(related.embed !== undefined ? { embed: embeds(related.embed, `${name}.embed`) } : {}),
+    };
+  });
+
+  const limit = args.limit === undefined || args.limit === null ? maxRows : Number(args.limit);
+  if (limit > maxRows) {
+    throw new SelectRowsError(`limit can't be more than ${maxRows} (QUERY_MAX_ROWS)`, 'INVALID_REQUEST');
+  }
+
+  return {
+    schema: args.schema || 'public',
+    table: args.table,
+    columns: list(args.columns, 'columns'),
+    embed: embeds(args.embed, 'embed'),
+    filters: list(args.filters, 'filters'),
+    order: list(args.order, 'order')?.map((order) => ({
+      column: order?.column,
+      ascending: order?.ascending !== false,
+      ...(order?.nulls_first !== undefined ? { nullsFirst: order.nulls_first === true } : {}),
+    })),
+    limit,
+    offset: args.offset === undefined || args.offset === null ? 0 : Number(args.offset),
+    count: args.count === true,
+  };
+}
+
+/**
+ * Checks a request before it is sent
+ */
+function validateRequest(request: SelectRequest): void {
+  selectName(request.table, 'table');
+  if (!Number.isInteger(request.limit) || request.limit < 1) {
+    throw new SelectRowsError('limit must be a positive whole number', 'INVALID_REQUEST');
+  }
+  if (request.offset !== undefined && !(Number.isInteger(request.offset) && request.offset >= 0)) {
+    throw new SelectRowsError('offset must be a whole number, 0 or more', 'INVALID_REQUEST');
+  }
+
+  for (const filter of request.filters ?? []) {
+    if (!filter || typeof filter.column !== 'string' || !filter.column || /[,()"]/.test(filter.column)) {
+      throw new SelectRowsError(`Invalid filter column: ${JSON.stringify(filter?.column)}`, 'INVALID_REQUEST');
+    }
+    if (!FILTER_OPERATORS.includes(filter.op)) {
+      throw new SelectRowsError(`Unknown filter operator "${filter.op}". Use one of: ${FILTER_OPERATORS.join(', ')}`, 'INVALID_REQUEST');
+    }
+    if (filter.op === 'in' && !Array.isArray(filter.value)) {
+      throw new SelectRowsError(`The "in" filter on ${filter.column} needs an array of values`, 'INVALID_REQUEST');
+    }
+    if (filter.op === 'is' && ![null, true, false].includes(filter.value as any)) {
+      throw new SelectRowsError(`The "is" filter on ${filter.column} takes null, true or false`, 'INVALID_REQUEST');
+    }
+    if (filter.op === 'range' && !(Array.isArray(filter.value) && filter.value.length === 2)) {
+      throw new SelectRowsError(`The "range" filter on ${filter.column} needs [from, to]`, 'INVALID_REQUEST');
+    }
+    if (['like', 'ilike'].includes(filter.op) && typeof filter.value !== 'string') {
+      throw new SelectRowsError(`The "${filter.op}" filter on ${filter.column} needs a string pattern`, 'INVALID_REQUEST');
+    }
+  }
+
+  for (const order of request.order ?? []) {
+    if (!order || typeof order.column !== 'string' || !order.column || /[,()"]/.test(order.column)) {
+      throw new SelectRowsError(`Invalid order column: ${JSON.stringify(order?.column)}`, 'INVALID_REQUEST');
+    }
+  }
+}
+
+/**
+ * Reads rows through PostgREST on the active target
+ * The request is recorded in the audit log as the REST call, with filter values as parameters.
+ */
+export async function selectRows(client: SupabaseClient, request: SelectRequest): Promise<SelectResult> {
+  validateRequest(request);
+
+  const select = buildSelect(request.columns, request.embed);
+  const offset = request.offset ?? 0;
+
+  let query = client
+    .schema(request.schema)
+    .from(request.table)
+    .select(select, request.count ? { count: 'exact' } : undefined);
+
+  // Filter values go into the audit log as parameters, like the values of SQL placeholders
+  const values: unknown[] = [];
+  const conditions: string[] = [];
+  const condition = (column: string, op: string, value: unknown) => {
+    values.push(value);
+    conditions.push(`${column}=${op}.$${values.length}`);
+  };
+
+  for (const { column, op, value } of request.filters ?? []) {
+    if (op === 'in') {
+      query = query.in(column, value as unknown[]);
+      condition(column, op, value);
+    } else if (op === 'is') {
+      query = query.is(column, value as boolean | null);
+      condition(column, op, value);
+    } else if (op === 'range') {
+      const [from, to] = value as [unknown, unknown];
+      if (from !== null && from !== undefined) {
+        query = query.gte(column, from);
+        condition(column, 'gte', from);
+      }
+      if (to !== null && to !== undefined) {
+        query = query.lte(column, to);
+        condition(column, 'lte', to);
+      }
+    } else {
+      query = query.filter(column, op, value);
+      condition(column, op, value);
+    }
+  }
+
+  for (const order of request.order ?? []) {
+    query = query.order(order.column, { ascending: order.ascending ?? true, nullsFirst: order.nullsFirst });
+  }
+  query = query.range(offset, offset + request.limit - 1);
+
+  // PostgREST can't set statement_timeout per request, so a timeout aborts the HTTP request instead
+  const { timeoutMs, signal } = currentQueryControl();
+  const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+  const signals = [signal, timeout].filter((candidate): candidate is AbortSignal => candidate !== undefined);
+  if (signals.length > 0) {
+    query = query.abortSignal(AbortSignal.any(signals));
+  }
+
+  const description = [
+    `GET /rest/v1/${request.table}?select=${select}`,
+    ...conditions,
+    ...(request.order?.length
+      ? [`order=${request.order.map((order) => `${order.column}.${order.ascending === false ? 'desc' : 'asc'}`).join(',')}`]
+      : []),
+    `offset=${offset}`,
+    `limit=${request.limit}`,
+  ].join('&');
+  const record = auditQuery(request.schema === 'public' ? description : `${description} (schema ${request.schema})`, values);
+
+  const { data, error, count } = await query;
+  record({ rowCount: data?.length ?? null, error });
+
+  if (error) {
+    if (signal?.aborted || timeout?.aborted) {
+      throw Object.assign(new Error(
+        timeout?.aborted ? `Request aborted after the statement timeout of ${timeoutMs} ms` : 'Request cancelled'
+      ), { code: QUERY_CANCELED });
+    }
+    throw new SelectRowsError(`PostgREST refused the request: ${error.message}`, 'POSTGREST_ERROR', {
+      postgrestCode: error.code,
+      ...(error.details ? { postgrestDetails: error.details } : {}),
+      ...(error.hint ? { hint: error.hint } : {}),
+    });
+  }
+
+  return { rows: data ?? [], totalRows: count ?? null };
+}
+
+/**
+ * Masks selected rows and the rows embedded in them, each with the policy rules of its own table
+ * Column types aren't known from a REST response, so only rules matching by name apply.
+ * Returns the masked columns as table.column.
+ */
+export function maskSelectedRows(
+  policy: MaskingPolicy,
+  rows: any[],
+  table: { schema: string; name: string },
+  embed: EmbeddedSelect[] = []
+): { rows: any[]; masked: string[] } {
+  const columns = inferColumns(rows).filter((column) => !embed.some((related) => (related.alias ?? related.table) === column.name));
+  const result = maskRows(policy, columns.map((column) => ({ ...column, type: '' })), rows, table);
+  const masked = result.masked.map((column) => `${table.name}.${column}`);
+
+  const maskedRows = embed.reduce((current, related) => {
+    const key = related.alias ?? related.table;
+    return current.map((row) => {
+      const value = row?.[key];
+      if (value === null || value === undefined || typeof value !== 'object') {
+        return row;
+      }
+      const nested = maskSelectedRows(policy, Array.isArray(value) ? value : [value],
+        { schema: table.schema, name: related.table }, related.embed ?? []);
+      masked.push(...nested.masked.filter((column) => !masked.includes(column)));
+      return { ...row, [key]: Array.isArray(value) ? nested.rows : nested.rows[0] };
+    });
+  }, result.rows);
+
+  return { rows: maskedRows, masked };
+}
+
+/**
+ * Whether an error of the rpc backend means the sqlquery function doesn't exist
+ * PGRST202 is PostgREST's "function not found in the schema cache"
+ */
+export function isMissingRpcError(error: any): boolean {
+  return error?.code === 'PGRST202' || /sqlquery/.test(error?.message ?? '');
+}
+
+/**
+ * Lists the tables and views PostgREST exposes, from its OpenAPI description
+ * The description covers the default schema of the API, which is `public` on Supabase;
+ * nothing is listed when that schema isn't allowed.
+ */
+export async function listOpenApiTables(): Promise<DatabaseObject[]> {
+  const { env: targetEnv } = currentTarget();
+  const key = targetEnv.SUPABASE_API_KEY;
+  const { timeoutMs, signal } = currentQueryControl();
+  const signals = [signal, timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined]
+    .filter((candidate): candidate is AbortSignal => candidate !== undefined);
+
+  const response = await fetch(`${targetEnv.SUPABASE_PROJECT_URL.replace(/\/$/, '')}/rest/v1/`, {
+    headers: { apikey: key, Authorization: `Bearer ${key}`, Accept: 'application/openapi+json' },
+    ...(signals.length > 0 ? { signal: AbortSignal.any(signals) } : {}),
+  });
+  if (!response.ok) {
+    throw new Error(`The PostgREST OpenAPI description is not available (HTTP ${response.status})`);
+  }
+
+  if (!isSchemaAllowed('public')) {
+    return [];
+  }
+
+  const description: any = await response.json();
+  return Object.entries<any>(description?.definitions ?? {})
+    .map(([name, definition]): DatabaseObject => ({
+      kind: 'table',
+      schema: 'public',
+      name,
+      args: null,
+      comment: typeof definition?.description === 'string' ? definition.description : null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
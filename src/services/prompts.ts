@@ -0,0 +1,445 @@
+/**
+ * Prompt templates
+ * Built-in and user-defined MCP prompts that are filled with live schema context
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import * as explain from './explain.js';
+import { isSchemaAllowed, TableDescription } from './introspection.js';
+import { sampleTable, TableSample } from './table-sample.js';
+import { inferColumns } from './backends/array-cursor.js';
+import { renderMarkdownTable } from '../utils/result-format.js';
+import { quoteIdent, quoteQualified } from '../utils/sql.js';
+import logger from '../utils/logging.js';
+
+/**
+ * An argument accepted by a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  // Value used when the argument is omitted
+  default?: string;
+}
+
+/**
+ * A prompt template
+ * `{{name}}` in the template is replaced by an argument value or a context block
+ */
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  template: string;
+}
+
+/**
+ * Error raised when a prompt can't be found or filled
+ */
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+/**
+ * Context blocks available to templates, fetched only when a template uses them
+ */
+const CONTEXT_PROVIDERS: Record<string, {
+  // Arguments the block is built from
+  requires: string[];
+  build: (args: Record<string, string>) => Promise<string>;
+}> = {
+  table_description: { requires: ['table'], build: (args) => tableDescriptionContext(args.table, schemaArg(args)) },
+  sample_rows: { requires: ['table'], build: (args) => sampleRowsContext(args.table, schemaArg(args)) },
+  column_stats: { requires: ['table'], build: (args) => columnStatsContext(args.table, schemaArg(args)) },
+  schema_overview: { requires: [], build: (args) => schemaOverviewContext(schemaArg(args)) },
+  query_plan: { requires: ['sql'], build: (args) => queryPlanContext(args.sql) },
+};
+
+const SCHEMA_ARGUMENT: PromptArgument = {
+  name: 'schema',
+  description: 'Schema name (default: public)',
+  default: 'public',
+};
+
+/**
+ * Templates shipped with the server
+ */
+const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'explain_table',
+    description: 'Explain what a table stores and how it relates to the rest of the database',
+    arguments: [
+      { name: 'table', description: 'Table or view name', required: true },
+      SCHEMA_ARGUMENT,
+    ],
+    template: `Explain what the table {{schema}}.{{table}} stores and how it is used.
+Describe the meaning of each column, the keys and constraints, and how the table relates to the tables it references or that reference it. Point out anything surprising.
+
+## Table definition
+{{table_description}}
+
+## Sample rows
+{{sample_rows}}`,
+  },
+  {
+    name: 'write_query',
+    description: 'Write a SQL query that answers a question about the data',
+    arguments: [
+      { name: 'question', description: 'Question the query should answer', required: true },
+      SCHEMA_ARGUMENT,
+    ],
+    template: `Write a single read-only PostgreSQL query that answers this question:
+
+{{question}}
+
+Use only the tables and columns listed below. Pass literal values as $1, $2, ... parameters instead of writing them into the SQL, then run the query with the query tool and explain the result.
+
+## Tables in schema {{schema}}
+{{schema_overview}}`,
+  },
+  {
+    name: 'review_sql',
+    description: 'Review a SQL query for performance problems',
+    arguments: [
+      { name: 'sql', description: 'Query to review', required: true },
+    ],
+    template: `Review this SQL query for performance. Look for missing indexes, sequential scans on large tables, poor join order, misestimated row counts and work that could be avoided. Suggest concrete changes and explain the trade-offs.
+
+\`\`\`sql
+{{sql}}
+\`\`\`
+
+## Plan summary
+{{query_plan}}`,
+  },
+  {
+    name: 'data_quality',
+    description: 'Summarize the data quality of a table',
+    arguments: [
+      { name: 'table', description: 'Table or view name', required: true },
+      SCHEMA_ARGUMENT,
+    ],
+    template: `Summarize the data quality of the table {{schema}}.{{table}}.
+Look for columns that are mostly NULL, columns with suspiciously few or many distinct values, values that don't match the column's apparent meaning, and constraints that seem to be missing. Suggest checks or fixes.
+
+## Table definition
+{{table_description}}
+
+## Column statistics
+{{column_stats}}
+
+## Sample rows
+{{sample_rows}}`,
+  },
+];
+
+/**
+ * Lists the built-in prompts and those loaded from PROMPTS_DIR
+ * Prompts from the directory replace built-in prompts with the same name
+ */
+export function listPrompts(): PromptTemplate[] {
+  const prompts = new Map(BUILT_IN_PROMPTS.map((prompt) => [prompt.name, prompt]));
+
+  for (const prompt of loadCustomPrompts()) {
+    prompts.set(prompt.name, prompt);
+  }
+
+  return Array.from(prompts.values());
+}
+
+/**
+ * Fills a prompt with its arguments and the context blocks it uses
+ */
+export async function renderPrompt(
+  name: string,
+  input: Record<string, unknown> = {}
+): Promise<{ description: string; text: string }> {
+  const prompt = listPrompts().find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new PromptError(`Unknown prompt: ${name}`);
+  }
+
+  const args: Record<string, string> = {};
+  for (const argument of prompt.arguments) {
+    const value = input[argument.name];
+    if (value !== undefined && value !== null && value !== '') {
+      args[argument.name] = String(value);
+    } else if (argument.default !== undefined) {
+      args[argument.name] = argument.default;
+    } else if (argument.required) {
+      throw new PromptError(`Prompt "${name}" requires the argument "${argument.name}"`);
+    }
+  }
+
+  // Build each context block used by the template once
+  const blocks: Record<string, string> = {};
+  for (const placeholder of findPlaceholders(prompt.template)) {
+    if (placeholder in CONTEXT_PROVIDERS && !(placeholder in args)) {
+      blocks[placeholder] = await CONTEXT_PROVIDERS[placeholder].build(args);
+    }
+  }
+
+  return {
+    description: prompt.description,
+    text: prompt.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, placeholder) =>
+      args[placeholder] ?? blocks[placeholder] ?? ''),
+  };
+}
+
+/**
+ * Returns the placeholder names used in a template
+ */
+function findPlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), (match) => match[1])));
+}
+
+/**
+ * Loads prompt templates from the JSON files in PROMPTS_DIR
+ * Each file holds one template or an array of templates; invalid templates are skipped with a warning
+ */
+function loadCustomPrompts(): PromptTemplate[] {
+  if (!env.PROMPTS_DIR) {
+    return [];
+  }
+
+  const dir = path.resolve(process.cwd(), env.PROMPTS_DIR);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith('.json')).sort();
+  } catch (error: any) {
+    logger.warn(`Could not read PROMPTS_DIR ${dir}`, { error: error.message });
+    return [];
+  }
+
+  const prompts: PromptTemplate[] = [];
+  for (const file of files) {
+    let content: unknown;
+    try {
+      content = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+    } catch (error: any) {
+      logger.warn(`Skipping prompt file ${file}`, { error: error.message });
+      continue;
+    }
+
+    for (const candidate of Array.isArray(content) ? content : [content]) {
+      try {
+        prompts.push(validatePrompt(candidate));
+      } catch (error: any) {
+        logger.warn(`Skipping prompt in ${file}`, { error: error.message });
+      }
+    }
+  }
+
+  return prompts;
+}
+
+/**
+ * Checks that a loaded template is well-formed and only uses known placeholders
+ */
+export function validatePrompt(candidate: any): PromptTemplate {
+  if (!candidate || typeof candidate.name !== 'string' || !/^[\w-]+$/.test(candidate.name)) {
+    throw new PromptError('Prompt needs a "name" made of letters, digits, "_" or "-"');
+  }
+  if (typeof candidate.template !== 'string') {
+    throw new PromptError(`Prompt "${candidate.name}" needs a "template" string`);
+  }
+
+  const promptArguments: PromptArgument[] = (candidate.arguments ?? []).map((argument: any) => {
+    if (!argument || typeof argument.name !== 'string' || !/^\w+$/.test(argument.name)) {
+      throw new PromptError(`Prompt "${candidate.name}" has an argument without a valid "name"`);
+    }
+    return {
+      name: argument.name,
+      description: typeof argument.description === 'string' ? argument.description : undefined,
+      required: argument.required === true,
+      default: typeof argument.default === 'string' ? argument.default : undefined,
+    };
+  });
+
+  const argumentNames = new Set(promptArguments.map((argument) => argument.name));
+  for (const placeholder of findPlaceholders(candidate.template)) {
+    if (argumentNames.has(placeholder)) continue;
+
+    const provider = CONTEXT_PROVIDERS[placeholder];
+    if (!provider) {
+      throw new PromptError(`Prompt "${candidate.name}" uses unknown placeholder {{${placeholder}}}`);
+    }
+
+    const missing = provider.requires.filter((name) => !argumentNames.has(name));
+    if (missing.length > 0) {
+      throw new PromptError(`Prompt "${candidate.name}" uses {{${placeholder}}}, which needs the argument(s): ${missing.join(', ')}`);
+    }
+  }
+
+  return {
+    name: candidate.name,
+    description: typeof candidate.description === 'string' ? candidate.description : '',
+    arguments: promptArguments,
+    template: candidate.template,
+  };
+}
+
+/**
+ * Returns the schema argument, defaulting to public, and checks that it is exposed
+ */
+function schemaArg(args: Record<string, string>): string {
+  const schema = args.schema || 'public';
+  if (!isSchemaAllowed(schema)) {
+    throw new PromptError(`Schema "${schema}" is not exposed by this server`);
+  }
+  return schema;
+}
+
+/**
+ * Fetches a table description or fails with a readable error
+ */
+async function describeTable(table: string, schema: string): Promise<TableDescription> {
+  const { schema: description, error } = await supabaseService.getTableSchema(table, schema);
+  if (error || !description) {
+    throw new PromptError(error?.message || `Table "${schema}"."${table}" does not exist or is not accessible`);
+  }
+  return description;
+}
+
+/**
+ * Describes a table's columns, keys and indexes as text
+ */
+async function tableDescriptionContext(table: string, schema: string): Promise<string> {
+  const description = await describeTable(table, schema);
+  const lines = [`${description.kind} ${schema}.${table}${description.comment ? ` -- ${description.comment}` : ''}`];
+
+  if (description.estimatedRowCount !== null) {
+    lines.push(`Estimated rows: ${description.estimatedRowCount}`);
+  }
+
+  lines.push('', 'Columns:');
+  for (const column of description.columns) {
+    const attributes = [
+      column.type,
+      column.nullable ? null : 'not null',
+      column.default !== null ? `default ${column.default}` : null,
+      column.identity ? `generated ${column.identity} as identity` : null,
+      column.generated ? `generated as ${column.generated}` : null,
+    ].filter(Boolean).join(', ');
+    lines.push(`- ${column.name}: ${attributes}${column.comment ? ` -- ${column.comment}` : ''}`);
+  }
+
+  if (description.primaryKey) {
+    lines.push('', `Primary key: (${description.primaryKey.columns.join(', ')})`);
+  }
+  if (description.foreignKeys.length > 0) {
+    lines.push('', 'Foreign keys:', ...description.foreignKeys.map((fk) => `- ${fk.name}: ${fk.definition}`));
+  }
+  if (description.referencedBy.length > 0) {
+    lines.push('', 'Referenced by:', ...description.referencedBy.map((ref) =>
+      `- ${ref.referencingSchema}.${ref.referencingTable} (${ref.columns.join(', ')})`));
+  }
+  if (description.uniqueConstraints.length > 0) {
+    lines.push('', 'Unique:', ...description.uniqueConstraints.map((key) => `- ${key.name}: (${key.columns.join(', ')})`));
+  }
+  if (description.checkConstraints.length > 0) {
+    lines.push('', 'Checks:', ...description.checkConstraints.map((check) => `- ${check.name}: ${check.definition}`));
+  }
+  if (description.indexes.length > 0) {
+    lines.push('', 'Indexes:', ...description.indexes.map((index) => `- ${index.definition}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a few rows of a table as a markdown table
+ */
+async function sampleRowsContext(table: string, schema: string): Promise<string> {
+  let sample: TableSample;
+  try {
+    sample = await sampleTable(schema, table, { limit: getNumber(env, 'PROMPT_SAMPLE_ROWS', 5), method: 'first', percent: null });
+  } catch (error: any) {
+    return `(Sample rows unavailable: ${error.message || error})`;
+  }
+  if (sample.rows.length === 0) {
+    return '(The table is empty.)';
+  }
+
+  const rows = renderMarkdownTable(sample.columns, sample.rows, getNumber(env, 'QUERY_MARKDOWN_CELL_WIDTH', 40));
+  return sample.masked.length > 0 ? `${rows}\n\n(Masked columns: ${sample.masked.join(', ')})` : rows;
+}
+
+/**
+ * Counts NULL and distinct values per column over a bounded sample of rows
+ */
+async function columnStatsContext(table: string, schema: string): Promise<string> {
+  const description = await describeTable(table, schema);
+  const sampleSize = getNumber(env, 'PROMPT_STATS_SAMPLE_ROWS', 10000);
+  const columns = description.columns;
+
+  if (columns.length === 0) {
+    return '(The table has no columns.)';
+  }
+
+  // Values are compared as text so types without equality, such as json, can be counted
+  const aggregates = columns.map((column, i) =>
+    `count(${quoteIdent(column.name)}) AS n${i}, count(DISTINCT ${quoteIdent(column.name)}::text) AS d${i}`);
+  const result = await supabaseService.executeSqlQuery(
+    `SELECT count(*) AS sampled, ${aggregates.join(', ')}
+FROM (SELECT * FROM ${quoteQualified(schema, table)} LIMIT ${Math.max(1, Math.floor(sampleSize))}) sample`,
+    { readOnly: true }
+  );
+
+  if (result.error || !result.data?.[0]) {
+    return `(Column statistics unavailable: ${result.error?.message || 'no result'})`;
+  }
+
+  const stats = result.data[0];
+  const sampled = Number(stats.sampled);
+  const percent = (count: number) => sampled > 0 ? `${Math.round((count / sampled) * 1000) / 10}%` : '-';
+
+  const rows = columns.map((column, i) => ({
+    column: column.name,
+    type: column.type,
+    nulls: percent(sampled - Number(stats[`n${i}`])),
+    distinct: Number(stats[`d${i}`]),
+  }));
+
+  const header = `Computed over ${sampled} row(s)${sampled >= sampleSize ? ` (a sample of the first ${sampleSize})` : ''}.`;
+  return `${header}\n\n${renderMarkdownTable(inferColumns(rows), rows)}`;
+}
+
+/**
+ * Lists the tables of a schema with their columns and foreign keys
+ */
+async function schemaOverviewContext(schema: string): Promise<string> {
+  const { tables, error } = await supabaseService.getSchemaOverview(schema, getNumber(env, 'PROMPT_MAX_TABLES', 50));
+  if (error) {
+    throw new PromptError(error.message || String(error));
+  }
+  if (tables.length === 0) {
+    return '(No tables or views.)';
+  }
+
+  return tables.map((table) => {
+    const lines = [`${table.kind} ${table.name}(${table.columns.map((column) => `${column.name} ${column.type}`).join(', ')})`];
+    if (table.comment) lines.push(`  -- ${table.comment}`);
+    for (const fk of table.foreignKeys) lines.push(`  ${fk}`);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/**
+ * Summarizes the estimated plan of a query
+ * Errors are included in the text, since a query under review may not run as-is
+ */
+async function queryPlanContext(sql: string): Promise<string> {
+  try {
+    const { summary } = await explain.explainQuery(sql);
+    return explain.formatPlanSummary(summary);
+  } catch (error: any) {
+    return `(Plan unavailable: ${error.message || error})`;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Query control
+ * Statement timeouts and client cancellation for the database work of one MCP request.
+ *
+ *   QUERY_TIMEOUT_MS       statement timeout applied to every query (default 30000, 0 disables it)
+ *   QUERY_MAX_TIMEOUT_MS   upper bound for a per-call timeout_ms (default 300000, 0 allows any)
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { env, getNumber } from '../config/env.js';
+import { QUERY_CANCELED } from './backends/errors.js';
+
+/**
+ * Limits applied to the queries of a request
+ */
+export interface QueryControl {
+  // Statement timeout in milliseconds, or null for none
+  timeoutMs: number | null;
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a query was interrupted
+ */
+export interface QueryInterruption {
+  code: 'QUERY_TIMEOUT' | 'QUERY_CANCELLED';
+  message: string;
+  timeoutMs: number | null;
+}
+
+/**
+ * Error raised for an invalid timeout argument
+ */
+export class QueryControlError extends Error {
+  constructor(message: string, public readonly code: string = 'INVALID_TIMEOUT') {
+    super(message);
+    this.name = 'QueryControlError';
+  }
+}
+
+// Limits of the request that is currently running
+const activeControl = new AsyncLocalStorage<QueryControl>();
+
+/**
+ * Returns the configured default statement timeout, or null when disabled
+ */
+export function getDefaultTimeout(): number | null {
+  const timeout = Math.floor(getNumber(env, 'QUERY_TIMEOUT_MS', 30000));
+  return timeout > 0 ? timeout : null;
+}
+
+/**
+ * Returns the largest timeout a call may ask for, or null when unbounded
+ */
+export function getMaxTimeout(): number | null {
+  const max = Math.floor(getNumber(env, 'QUERY_MAX_TIMEOUT_MS', 300000));
+  return max > 0 ? max : null;
+}
+
+/**
+ * Resolves the timeout for a call from its timeout_ms argument
+ * A requested timeout is capped by QUERY_MAX_TIMEOUT_MS; without one the default applies
+ */
+export function resolveTimeout(requested: unknown): number | null {
+  if (requested === undefined || requested === null) {
+    return getDefaultTimeout();
+  }
+
+  // Booleans and arrays convert to numbers too, so only numbers and numeric strings are taken
+  const value = typeof requested === 'number' || typeof requested === 'string' ? Number(requested) : NaN;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new QueryControlError(`timeout_ms must be a positive integer number of milliseconds, got ${JSON.stringify(requested)}`);
+  }
+
+  const max = getMaxTimeout();
+  return max === null ? value : Math.min(value, max);
+}
+
+/**
+ * Returns the limits of the running request
+ */
+export function currentQueryControl(): QueryControl {
+  return activeControl.getStore() ?? { timeoutMs: getDefaultTimeout() };
+}
+
+/**
+ * Runs a callback with query limits
+ * Queries inside the callback, including nested async calls, use these limits
+ */
+export function runWithQueryControl<T>(control: QueryControl, fn: () => Promise<T>): Promise<T> {
+  return activeControl.run(control, fn);
+}
+
+/**
+ * Tells whether an error means the query was interrupted, and why
+ * A cancelled request takes precedence, since cancelling the backend query also raises query_canceled
+ */
+export function describeInterruption(error: any, control: QueryControl = currentQueryControl()): QueryInterruption | null {
+  if (control.signal?.aborted) {
+    return {
+      code: 'QUERY_CANCELLED',
+      message: 'Query cancelled: the client cancelled the request',
+      timeoutMs: control.timeoutMs
+    };
+  }
+
+  if (error?.code === QUERY_CANCELED) {
+    const timedOut = /timeout/i.test(error.message ?? '');
+    return timedOut
+      ? {
+          code: 'QUERY_TIMEOUT',
+          message: control.timeoutMs
+            ? `Query cancelled: it ran longer than the statement timeout of ${control.timeoutMs} ms`
+            : 'Query cancelled: it ran longer than the statement timeout',
+          timeoutMs: control.timeoutMs
+        }
+      : {
+          code: 'QUERY_CANCELLED',
+          message: `Query cancelled by the database: ${error.message}`,
+          timeoutMs: control.timeoutMs
+        };
+  }
+
+  return null;
+}
@@ -0,0 +1,259 @@
+/**
+ * Query pager
+ * Returns query results one bounded page at a time and keeps the
+ * underlying cursor open so later pages continue where the last one stopped
+ */
+import { randomBytes } from 'crypto';
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { currentTarget } from './targets.js';
+import { inferColumns } from './backends/array-cursor.js';
+import type { ColumnInfo, QueryCursor, QueryIdentity } from './backends/types.js';
+import logger from '../utils/logging.js';
+
+/**
+ * Row and byte budget for a single page
+ */
+export interface PageBudget {
+  maxRows: number;
+  maxBytes: number;
+}
+
+/**
+ * A page of query results with truncation metadata
+ */
+export interface QueryPage {
+  rows: any[];
+  // Result columns with their PostgreSQL types
+  columns: ColumnInfo[];
+  // Number of rows in this page
+  rowCount: number;
+  // Number of rows returned so far across all pages, including this one
+  rowsReturned: number;
+  // Total number of rows in the result, when known
+  totalRows: number | null;
+  // Whether more rows remain after this page
+  truncated: boolean;
+  // Which budget ended the page, when it was truncated
+  truncatedBy?: 'rows' | 'bytes';
+  // Token for fetching the next page, when more rows remain
+  nextPageToken?: string;
+}
+
+/**
+ * Error raised when a page token can't be used
+ */
+export class PageTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageTokenError';
+  }
+}
+
+/**
+ * Error raised when a requested page budget is invalid
+ */
+export class PageBudgetError extends Error {
+  constructor(message: string, public readonly code: string = 'INVALID_MAX_ROWS') {
+    super(message);
+    this.name = 'PageBudgetError';
+  }
+}
+
+/**
+ * An open result waiting for its next page to be requested
+ */
+interface PagedQuery {
+  cursor: QueryCursor;
+  // Target the query runs against
+  target: string;
+  // Rows read from the cursor but not yet returned
+  buffer: any[];
+  rowsReturned: number;
+  timer: NodeJS.Timeout;
+}
+
+// Open results, keyed by page token
+const pagedQueries = new Map<string, PagedQuery>();
+
+/**
+ * Returns the default page budget from configuration
+ */
+export function getDefaultBudget(): PageBudget {
+  return {
+    maxRows: getNumber(env, 'QUERY_MAX_ROWS', 100),
+    maxBytes: getNumber(env, 'QUERY_MAX_BYTES', 100000)
+  };
+}
+
+/**
+ * Resolves the page budget for a call from its max_rows argument
+ * A requested row count can lower the configured limit but never raise it
+ */
+export function resolveBudget(maxRows: unknown, defaults: PageBudget = getDefaultBudget()): PageBudget {
+  if (maxRows === undefined || maxRows === null) {
+    return defaults;
+  }
+
+  // Booleans and arrays convert to numbers too, so only numbers and numeric strings are taken
+  const value = typeof maxRows === 'number' || typeof maxRows === 'string' ? Number(maxRows) : NaN;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new PageBudgetError(`max_rows must be a positive integer, got ${JSON.stringify(maxRows)}`);
+  }
+
+  return { ...defaults, maxRows: Math.min(value, defaults.maxRows) };
+}
+
+/**
+ * Runs a read-only query and returns its first page
+ * With an identity, every page is read in the transaction that switched to it
+ */
+export async function startQuery(
+  sql: string,
+  budget: PageBudget = getDefaultBudget(),
+  params: unknown[] = [],
+  identity?: QueryIdentity
+): Promise<QueryPage> {
+  const cursor = await supabaseService.openQueryCursor(sql, { readOnly: true, params, identity });
+  return pageCursor(cursor, budget);
+}
+
+/**
+ * Returns the first page of an open cursor, keeping the cursor open for the next pages
+ */
+export function pageCursor(cursor: QueryCursor, budget: PageBudget = getDefaultBudget()): Promise<QueryPage> {
+  return readPage({ cursor, target: currentTarget().name, buffer: [], rowsReturned: 0 }, budget);
+}
+
+/**
+ * Returns the next page of a query started earlier
+ */
+export async function fetchNextPage(pageToken: string, budget: PageBudget = getDefaultBudget()): Promise<QueryPage> {
+  const paged = pagedQueries.get(pageToken);
+
+  if (!paged) {
+    throw new PageTokenError('Page token is invalid or has expired. Run the query again to start over.');
+  }
+
+  if (paged.target !== currentTarget().name) {
+    throw new PageTokenError(`Page token belongs to a query on target "${paged.target}"; pass the same target to continue it.`);
+  }
+
+  // Tokens are single-use; the next page gets a new one
+  pagedQueries.delete(pageToken);
+  clearTimeout(paged.timer);
+
+  return readPage(paged, budget);
+}
+
+/**
+ * Closes every open result, e.g. on shutdown
+ */
+export async function closeAllPages(): Promise<void> {
+  const open = Array.from(pagedQueries.values());
+  pagedQueries.clear();
+
+  await Promise.all(open.map(async (paged) => {
+    clearTimeout(paged.timer);
+    await paged.cursor.close().catch(() => {});
+  }));
+}
+
+/**
+ * Reads one page within the budget and parks the cursor if rows remain
+ */
+async function readPage(
+  state: Omit<PagedQuery, 'timer'>,
+  budget: PageBudget
+): Promise<QueryPage> {
+  const maxRows = Math.max(1, Math.floor(budget.maxRows));
+  const { cursor } = state;
+
+  let rows: any[];
+  try {
+    // Read one row past the budget to learn whether more rows remain
+    const needed = maxRows + 1 - state.buffer.length;
+    rows = needed > 0 ? [...state.buffer, ...await cursor.read(needed)] : state.buffer;
+  } catch (error) {
+    await cursor.close().catch(() => {});
+    throw error;
+  }
+
+  const page: any[] = [];
+  let bytes = 0;
+  let truncatedBy: 'rows' | 'bytes' | undefined;
+
+  for (const row of rows) {
+    if (page.length >= maxRows) {
+      truncatedBy = 'rows';
+      break;
+    }
+
+    // Always return at least one row so every page makes progress
+    const rowBytes = Buffer.byteLength(JSON.stringify(row) ?? '');
+    if (page.length > 0 && bytes + rowBytes > budget.maxBytes) {
+      truncatedBy = 'bytes';
+      break;
+    }
+
+    page.push(row);
+    bytes += rowBytes;
+  }
+
+  const remaining = rows.slice(page.length);
+  const rowsReturned = state.rowsReturned + page.length;
+  const result: QueryPage = {
+    rows: page,
+    columns: cursor.fields ?? inferColumns(page),
+    rowCount: page.length,
+    rowsReturned,
+    totalRows: cursor.totalRows,
+    truncated: remaining.length > 0
+  };
+
+  if (remaining.length === 0) {
+    // Exhausted: the total is now known even for server-side cursors
+    result.totalRows = rowsReturned;
+    await cursor.close().catch(() => {});
+    return result;
+  }
+
+  result.truncatedBy = truncatedBy;
+  result.nextPageToken = parkCursor({ cursor, target: state.target, buffer: remaining, rowsReturned });
+  return result;
+}
+
+/**
+ * Stores an open cursor under a new page token until it is fetched or expires
+ */
+function parkCursor(state: Omit<PagedQuery, 'timer'>): string {
+  const ttlMs = getNumber(env, 'QUERY_PAGE_TTL_SECONDS', 300) * 1000;
+  const maxOpen = Math.max(1, getNumber(env, 'QUERY_MAX_OPEN_CURSORS', 3));
+
+  // Each open pg cursor holds a pooled connection, so evict the oldest when at the limit
+  while (pagedQueries.size >= maxOpen) {
+    const [oldestToken] = pagedQueries.keys();
+    expire(oldestToken);
+  }
+
+  const token = randomBytes(16).toString('hex');
+  const timer = setTimeout(() => expire(token), ttlMs);
+  timer.unref();
+
+  pagedQueries.set(token, { ...state, timer });
+  return token;
+}
+
+/**
+ * Closes and forgets an open result
+ */
+function expire(token: string): void {
+  const paged = pagedQueries.get(token);
+  if (!paged) return;
+
+  pagedQueries.delete(token);
+  clearTimeout(paged.timer);
+  paged.cursor.close().catch((error) => {
+    logger.warn('Failed to close expired query cursor', { error: error.message });
+  });
+}
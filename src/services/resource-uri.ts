@@ -0,0 +1,181 @@
+/**
+ * Resource URI scheme
+ * Builds and parses the hierarchical URIs used to expose database objects:
+ *
+ *   supabase://<ref>.supabase.co/schemas/<schema>
+ *   supabase://<ref>.supabase.co/schemas/<schema>/tables/<name>
+ *   supabase://<ref>.supabase.co/schemas/<schema>/views/<name>
+ *   supabase://<ref>.supabase.co/schemas/<schema>/materialized_views/<name>
+ *   supabase://<ref>.supabase.co/schemas/<schema>/functions/<name>(<argument types>)
+ *   supabase://<ref>.supabase.co/schemas/<schema>/types/<name>
+ *   supabase://<ref>.supabase.co/schemas/<schema>/sequences/<name>
+ *
+ * The legacy form supabase://<ref>.supabase.co/tables/<name> refers to a table in `public`.
+ *
+ * Entity-relationship diagrams of a schema, or of a table and its neighbors, use:
+ *
+ *   supabase://<ref>.supabase.co/schemas/<schema>/erd
+ *   supabase://<ref>.supabase.co/schemas/<schema>/tables/<name>/erd
+ *
+ * Sample rows of a table, view or materialized view add /sample to its URI:
+ *
+ *   supabase://<ref>.supabase.co/schemas/<schema>/tables/<name>/sample
+ */
+
+/**
+ * Kinds of database objects exposed as resources
+ */
+export type ResourceKind =
+  | 'schema'
+  | 'table'
+  | 'view'
+  | 'materialized_view'
+  | 'function'
+  | 'type'
+  | 'sequence';
+
+/**
+ * A parsed reference to a database object
+ */
+export interface ResourceRef {
+  kind: ResourceKind;
+  schema: string;
+  // Object name; for schemas this is the schema name
+  name: string;
+  // Argument types of a function, e.g. "integer, text"
+  args?: string;
+}
+
+/**
+ * A parsed reference to an entity-relationship diagram
+ */
+export interface DiagramRef {
+  schema: string;
+  // Table at the center of the diagram; the whole schema is drawn when missing
+  table?: string;
+}
+
+// URI path segment used for each kind of object inside a schema
+const COLLECTIONS: Record<Exclude<ResourceKind, 'schema'>, string> = {
+  table: 'tables',
+  view: 'views',
+  materialized_view: 'materialized_views',
+  function: 'functions',
+  type: 'types',
+  sequence: 'sequences'
+};
+
+const KINDS_BY_COLLECTION = Object.fromEntries(
+  Object.entries(COLLECTIONS).map(([kind, collection]) => [collection, kind as ResourceKind])
+);
+
+/**
+ * Builds the resource URI for a database object
+ */
+export function buildResourceUri(projectRef: string, ref: ResourceRef): string {
+  const base = `supabase://${projectRef}.supabase.co/schemas/${encodeURIComponent(ref.schema)}`;
+
+  if (ref.kind === 'schema') {
+    return base;
+  }
+
+  const name = ref.kind === 'function' ? `${ref.name}(${ref.args ?? ''})` : ref.name;
+  return `${base}/${COLLECTIONS[ref.kind]}/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Parses a resource URI into a reference, or returns null if it isn't a database object URI
+ */
+export function parseResourceUri(uri: string): ResourceRef | null {
+  const match = uri.match(/^supabase:\/\/[^\/]+\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  // Ignore any query string; callers read options from it separately
+  const segments = decodeSegments(match[1]);
+  if (!segments) {
+    return null;
+  }
+
+  // Legacy URI: /tables/<name>
+  if (segments.length === 2 && segments[0] === 'tables') {
+    return { kind: 'table', schema: 'public', name: segments[1] };
+  }
+
+  if (segments[0] !== 'schemas' || !segments[1]) {
+    return null;
+  }
+
+  const schema = segments[1];
+
+  if (segments.length === 2) {
+    return { kind: 'schema', schema, name: schema };
+  }
+
+  const kind = KINDS_BY_COLLECTION[segments[2]];
+  if (!kind || segments.length !== 4 || !segments[3]) {
+    return null;
+  }
+
+  if (kind === 'function') {
+    const fn = segments[3].match(/^(.+)\((.*)\)$/);
+    if (!fn) {
+      return null;
+    }
+    return { kind, schema, name: fn[1], args: fn[2] };
+  }
+
+  return { kind, schema, name: segments[3] };
+}
+
+/**
+ * Parses a diagram resource URI, or returns null if it isn't one
+ */
+export function parseDiagramUri(uri: string): DiagramRef | null {
+  const match = uri.match(/^supabase:\/\/[^\/]+\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  // Diagram options are read from the query string separately
+  const segments = decodeSegments(match[1]);
+  if (!segments || segments[0] !== 'schemas' || !segments[1] || segments[segments.length - 1] !== 'erd') {
+    return null;
+  }
+
+  if (segments.length === 3) {
+    return { schema: segments[1] };
+  }
+  if (segments.length === 5 && segments[2] === 'tables' && segments[3]) {
+    return { schema: segments[1], table: segments[3] };
+  }
+  return null;
+}
+
+/**
+ * Parses a sample rows resource URI into a reference to its table, view or materialized view,
+ * or returns null if it isn't one
+ */
+export function parseSampleUri(uri: string): ResourceRef | null {
+  // Sample options are read from the query string separately
+  const path = uri.split('?')[0];
+  if (!path.endsWith('/sample')) {
+    return null;
+  }
+
+  const ref = parseResourceUri(path.slice(0, -'/sample'.length));
+  return ref && (ref.kind === 'table' || ref.kind === 'view' || ref.kind === 'materialized_view') ? ref : null;
+}
+
+/**
+ * Splits the path of a resource URI into decoded segments, or returns null if it is malformed
+ */
+function decodeSegments(path: string): string[] | null {
+  try {
+    return path.split('?')[0].split('/').map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Schema cache
+ * Reuses catalog introspection results per target, so listing and reading resources
+ * doesn't query the catalog again on every request.
+ *
+ *   SCHEMA_CACHE_TTL_SECONDS   how long an introspection result is reused (default 300, 0 disables the cache)
+ */
+import { env, getNumber } from '../config/env.js';
+import { currentTarget } from './targets.js';
+
+/**
+ * A cached introspection result
+ */
+interface CacheEntry {
+  // Shared by concurrent requests for the same key while it loads
+  value: Promise<{ error: any }>;
+  expiresAt: number;
+}
+
+// Cached results, per target name and then per key
+const caches = new Map<string, Map<string, CacheEntry>>();
+
+/**
+ * Returns the cache lifetime in milliseconds, or 0 when caching is disabled
+ */
+function cacheTtlMs(): number {
+  return Math.max(0, getNumber(env, 'SCHEMA_CACHE_TTL_SECONDS', 300)) * 1000;
+}
+
+/**
+ * Returns the cached result for a key on the active target, loading it when missing or expired
+ * Results with an error, and loads that throw, are not kept.
+ */
+export function cachedIntrospection<T extends { error: any }>(key: string, load: () => Promise<T>): Promise<T> {
+  const ttl = cacheTtlMs();
+  if (ttl === 0) {
+    return load();
+  }
+
+  const target = currentTarget().name;
+  let cache = caches.get(target);
+  if (!cache) {
+    cache = new Map();
+    caches.set(target, cache);
+  }
+
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.value as Promise<T>;
+  }
+
+  const entry: CacheEntry = { value: load(), expiresAt: now + ttl };
+  cache.set(key, entry);
+
+  const forget = () => {
+    if (cache!.get(key) === entry) {
+      cache!.delete(key);
+    }
+  };
+  entry.value.then((result) => result.error && forget(), forget);
+
+  return entry.value as Promise<T>;
+}
+
+/**
+ * Drops cached results of one target, or of every target
+ * Returns the number of results dropped
+ */
+export function invalidateSchemaCache(target?: string): number {
+  const dropped = (name: string) => {
+    const size = caches.get(name)?.size ?? 0;
+    caches.delete(name);
+    return size;
+  };
+
+  if (target !== undefined) {
+    return dropped(target);
+  }
+  return Array.from(caches.keys()).reduce((total, name) => total + dropped(name), 0);
+}
@@ -0,0 +1,544 @@
+/**
+ * Schema diff
+ * Captures the tables, views and types of a target as a snapshot, saves snapshots as JSON files,
+ * and compares two snapshots, optionally producing the DDL that turns one schema into the other.
+ *
+ *   SCHEMA_SNAPSHOT_DIR   directory of saved snapshot files (default ./snapshots)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { env } from '../config/env.js';
+import { quoteIdent, quoteLiteral, quoteQualified } from '../utils/sql.js';
+import * as supabaseService from './supabase.js';
+import { invalidateSchemaCache } from './schema-cache.js';
+import { currentTarget } from './targets.js';
+import type { ColumnDescription, IndexDescription, TableDescription, TypeDescription } from './introspection.js';
+
+/**
+ * The tables, views and types of some schemas at one point in time
+ */
+export interface SchemaSnapshot {
+  version: 1;
+  // Target the snapshot was taken from
+  target: string;
+  capturedAt: string;
+  schemas: string[];
+  tables: TableDescription[];
+  types: TypeDescription[];
+}
+
+/**
+ * A value that differs between the two sides
+ */
+export interface ValueChange<T = unknown> {
+  from: T;
+  to: T;
+}
+
+/**
+ * A table constraint in comparable form
+ */
+export interface ConstraintDefinition {
+  name: string;
+  type: 'primary key' | 'foreign key' | 'unique' | 'check';
+  definition: string;
+}
+
+/**
+ * Named items present on only one side, or on both with different definitions
+ */
+export interface ListDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ValueChange<T>[];
+}
+
+/**
+ * Column properties that differ
+ */
+export interface ColumnChange {
+  name: string;
+  changes: Partial<Record<'type' | 'nullable' | 'default' | 'identity' | 'generated' | 'comment', ValueChange>>;
+}
+
+/**
+ * Differences of a table or view present on both sides
+ */
+export interface TableDiff {
+  schema: string;
+  name: string;
+  kind?: ValueChange<TableDescription['kind']>;
+  comment?: ValueChange<string | null>;
+  columns: {
+    added: ColumnDescription[];
+    removed: ColumnDescription[];
+    changed: ColumnChange[];
+  };
+  constraints: ListDiff<ConstraintDefinition>;
+  indexes: ListDiff<IndexDescription>;
+}
+
+/**
+ * Differences of an enum or composite type present on both sides
+ */
+export interface TypeDiff {
+  schema: string;
+  name: string;
+  kind?: ValueChange<TypeDescription['kind']>;
+  comment?: ValueChange<string | null>;
+  values?: { added: string[]; removed: string[] };
+  attributes?: ListDiff<{ name: string; type: string }>;
+}
+
+/**
+ * How the `to` side differs from the `from` side
+ */
+export interface SchemaDiff {
+  from: string;
+  to: string;
+  schemas: string[];
+  identical: boolean;
+  tables: {
+    added: TableDescription[];
+    removed: { schema: string; name: string; kind: TableDescription['kind'] }[];
+    changed: TableDiff[];
+  };
+  types: {
+    added: TypeDescription[];
+    removed: { schema: string; name: string; kind: TypeDescription['kind'] }[];
+    changed: TypeDiff[];
+  };
+}
+
+/**
+ * Error raised for invalid snapshots and diff requests
+ */
+export class SchemaDiffError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'SchemaDiffError';
+  }
+}
+
+// Objects fetched per page while listing a target's objects
+const LIST_PAGE_SIZE = 500;
+
+/**
+ * Describes the tables, views and types of the given schemas on the active target
+ * The schema cache is dropped first so the snapshot reflects the catalog as it is now.
+ */
+export async function captureSnapshot(schemas: string[]): Promise<SchemaSnapshot> {
+  const target = currentTarget().name;
+  invalidateSchemaCache(target);
+
+  const tables: TableDescription[] = [];
+  const types: TypeDescription[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { objects, error } = await supabaseService.listDatabaseObjects(LIST_PAGE_SIZE, offset);
+    if (error) {
+      throw new Error(`Could not list database objects: ${error.message}`);
+    }
+
+    for (const object of objects.filter((candidate) => schemas.includes(candidate.schema))) {
+      if (object.kind === 'table' || object.kind === 'view' || object.kind === 'materialized_view') {
+        const { schema, error } = await supabaseService.getTableSchema(object.name, object.schema);
+        if (error) {
+          throw new Error(`Could not describe ${object.schema}.${object.name}: ${error.message}`);
+        }
+        // Row estimates change with the data, not the schema
+        tables.push({ ...schema!, estimatedRowCount: null });
+      } else if (object.kind === 'type') {
+        const { definition, error } = await supabaseService.getTypeDefinition(object.schema, object.name);
+        if (error) {
+          throw new Error(`Could not describe type ${object.schema}.${object.name}: ${error.message}`);
+        }
+        types.push(definition!);
+      }
+    }
+
+    if (objects.length < LIST_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { version: 1, target, capturedAt: new Date().toISOString(), schemas, tables, types };
+}
+
+/**
+ * Returns the file of a named snapshot
+ * Names are restricted so a snapshot can't be read or written outside SCHEMA_SNAPSHOT_DIR
+ */
+function snapshotFile(name: string): string {
+  const base = String(name ?? '').replace(/\.json$/, '');
+  if (!/^[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(base)) {
+    throw new SchemaDiffError(
+      `Invalid snapshot name "${name}". Use letters, digits, dots, dashes and underscores.`,
+      'INVALID_SNAPSHOT_NAME'
+    );
+  }
+  return path.resolve(process.cwd(), env.SCHEMA_SNAPSHOT_DIR || 'snapshots', `${base}.json`);
+}
+
+/**
+ * Writes a snapshot to SCHEMA_SNAPSHOT_DIR, replacing a snapshot of the same name
+ * Returns the path of the file
+ */
+export function saveSnapshot(name: string, snapshot: SchemaSnapshot): string {
+  const file = snapshotFile(name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * Reads a snapshot saved earlier
+ */
+export function loadSnapshot(name: string): SchemaSnapshot {
+  const file = snapshotFile(name);
+
+  let snapshot: any;
+  try {
+    snapshot = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new SchemaDiffError(`Snapshot "${name}" not found in ${path.dirname(file)}`, 'SNAPSHOT_NOT_FOUND');
+    }
+    throw new SchemaDiffError(`Snapshot "${name}" could not be read: ${error.message}`, 'INVALID_SNAPSHOT');
+  }
+
+  if (snapshot?.version !== 1 || !Array.isArray(snapshot.tables) || !Array.isArray(snapshot.types) || !Array.isArray(snapshot.schemas)) {
+    throw new SchemaDiffError(`Snapshot "${name}" is not a version 1 schema snapshot`, 'INVALID_SNAPSHOT');
+  }
+  return snapshot;
+}
+
+/**
+ * Key of a schema-qualified object
+ */
+function objectKey(object: { schema: string; name: string }): string {
+  return `${object.schema}.${object.name}`;
+}
+
+/**
+ * Compares two lists of named items by a definition
+ */
+function diffByName<T extends { name: string }>(from: T[], to: T[], definition: (item: T) => string): ListDiff<T> {
+  const before = new Map(from.map((item) => [item.name, item]));
+  const after = new Map(to.map((item) => [item.name, item]));
+
+  return {
+    added: to.filter((item) => !before.has(item.name)),
+    removed: from.filter((item) => !after.has(item.name)),
+    changed: to
+      .filter((item) => before.has(item.name) && definition(before.get(item.name)!) !== definition(item))
+      .map((item) => ({ from: before.get(item.name)!, to: item }))
+  };
+}
+
+/**
+ * Tells whether a list diff found nothing
+ */
+function isEmptyDiff(diff: { added: unknown[]; removed: unknown[]; changed: unknown[] }): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Lists the constraints of a table in comparable form
+ */
+export function tableConstraints(table: TableDescription): ConstraintDefinition[] {
+  const columns = (names: string[]) => names.map(quoteIdent).join(', ');
+
+  return [
+    ...(table.primaryKey
+      ? [{ name: table.primaryKey.name, type: 'primary key' as const, definition: `PRIMARY KEY (${columns(table.primaryKey.columns)})` }]
+      : []),
+    ...table.uniqueConstraints.map((key) => ({ name: key.name, type: 'unique' as const, definition: `UNIQUE (${columns(key.columns)})` })),
+    ...table.checkConstraints.map((check) => ({ name: check.name, type: 'check' as const, definition: check.definition })),
+    ...table.foreignKeys.map((key) => ({ name: key.name, type: 'foreign key' as const, definition: key.definition }))
+  ];
+}
+
+/**
+ * Lists the indexes of a table that don't back a constraint
+ * Primary key and unique constraint indexes come and go with their constraint
+ */
+function standaloneIndexes(table: TableDescription): IndexDescription[] {
+  const constraintNames = new Set(tableConstraints(table).map((constraint) => constraint.name));
+  return table.indexes.filter((index) => !index.primary && !constraintNames.has(index.name));
+}
+
+/**
+ * Compares the columns, constraints and indexes of a table present on both sides
+ * Returns null when they match
+ */
+function diffTable(from: TableDescription, to: TableDescription): TableDiff | null {
+  const beforeColumns = new Map(from.columns.map((column) => [column.name, column]));
+  const afterColumns = new Set(to.columns.map((column) => column.name));
+
+  const changedColumns: ColumnChange[] = [];
+  for (const column of to.columns) {
+    const before = beforeColumns.get(column.name);
+    if (!before) continue;
+
+    const changes: ColumnChange['changes'] = {};
+    for (const field of ['type', 'nullable', 'default', 'identity', 'generated', 'comment'] as const) {
+      if (before[field] !== column[field]) {
+        changes[field] = { from: before[field], to: column[field] };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      changedColumns.push({ name: column.name, changes });
+    }
+  }
+
+  const diff: TableDiff = {
+    schema: to.schema,
+    name: to.name,
+    ...(from.kind !== to.kind ? { kind: { from: from.kind, to: to.kind } } : {}),
+    ...(from.comment !== to.comment ? { comment: { from: from.comment, to: to.comment } } : {}),
+    columns: {
+      added: to.columns.filter((column) => !beforeColumns.has(column.name)),
+      removed: from.columns.filter((column) => !afterColumns.has(column.name)),
+      changed: changedColumns
+    },
+    constraints: diffByName(tableConstraints(from), tableConstraints(to), (constraint) => `${constraint.type}:${constraint.definition}`),
+    indexes: diffByName(standaloneIndexes(from), standaloneIndexes(to), (index) => index.definition)
+  };
+
+  const unchanged = !diff.kind && !diff.comment && isEmptyDiff(diff.columns) &&
+    isEmptyDiff(diff.constraints) && isEmptyDiff(diff.indexes);
+  return unchanged ? null : diff;
+}
+
+/**
+ * Compares an enum or composite type present on both sides
+ * Returns null when they match
+ */
+function diffType(from: TypeDescription, to: TypeDescription): TypeDiff | null {
+  const diff: TypeDiff = {
+    schema: to.schema,
+    name: to.name,
+    ...(from.kind !== to.kind ? { kind: { from: from.kind, to: to.kind } } : {}),
+    ...(from.comment !== to.comment ? { comment: { from: from.comment, to: to.comment } } : {})
+  };
+
+  if (from.kind === 'enum' && to.kind === 'enum') {
+    const values = {
+      added: (to.values ?? []).filter((value) => !(from.values ?? []).includes(value)),
+      removed: (from.values ?? []).filter((value) => !(to.values ?? []).includes(value))
+    };
+    if (values.added.length > 0 || values.removed.length > 0) {
+      diff.values = values;
+    }
+  }
+
+  if (from.kind === 'composite' && to.kind === 'composite') {
+    const attributes = diffByName(from.attributes ?? [], to.attributes ?? [], (attribute) => attribute.type);
+    if (!isEmptyDiff(attributes)) {
+      diff.attributes = attributes;
+    }
+  }
+
+  return diff.kind || diff.comment || diff.values || diff.attributes ? diff : null;
+}
+
+/**
+ * Compares two snapshots, limited to the given schemas
+ * The result describes how `to` differs from `from`
+ */
+export function diffSnapshots(from: SchemaSnapshot, to: SchemaSnapshot, schemas: string[]): SchemaDiff {
+  const inScope = <T extends { schema: string }>(items: T[]) => items.filter((item) => schemas.includes(item.schema));
+  const fromTables = new Map(inScope(from.tables).map((table) => [objectKey(table), table]));
+  const toTables = new Map(inScope(to.tables).map((table) => [objectKey(table), table]));
+  const fromTypes = new Map(inScope(from.types).map((type) => [objectKey(type), type]));
+  const toTypes = new Map(inScope(to.types).map((type) => [objectKey(type), type]));
+
+  const tables: SchemaDiff['tables'] = {
+    added: Array.from(toTables.values()).filter((table) => !fromTables.has(objectKey(table))),
+    removed: Array.from(fromTables.values())
+      .filter((table) => !toTables.has(objectKey(table)))
+      .map(({ schema, name, kind }) => ({ schema, name, kind })),
+    changed: Array.from(toTables.values())
+      .filter((table) => fromTables.has(objectKey(table)))
+      .map((table) => diffTable(fromTables.get(objectKey(table))!, table))
+      .filter((diff): diff is TableDiff => diff !== null)
+  };
+
+  const types: SchemaDiff['types'] = {
+    added: Array.from(toTypes.values()).filter((type) => !fromTypes.has(objectKey(type))),
+    removed: Array.from(fromTypes.values())
+      .filter((type) => !toTypes.has(objectKey(type)))
+      .map(({ schema, name, kind }) => ({ schema, name, kind })),
+    changed: Array.from(toTypes.values())
+      .filter((type) => fromTypes.has(objectKey(type)))
+      .map((type) => diffType(fromTypes.get(objectKey(type))!, type))
+      .filter((diff): diff is TypeDiff => diff !== null)
+  };
+
+  return {
+    from: from.target,
+    to: to.target,
+    schemas,
+    identical: isEmptyDiff(tables) && isEmptyDiff(types),
+    tables,
+    types
+  };
+}
+
+/**
+ * Builds the column definition used by CREATE TABLE and ADD COLUMN
+ */
+function columnDefinition(column: ColumnDescription): string {
+  let definition = `${quoteIdent(column.name)} ${column.type}`;
+  if (column.generated) {
+    definition += ` GENERATED ALWAYS AS (${column.generated}) STORED`;
+  } else if (column.identity) {
+    definition += ` GENERATED ${column.identity.toUpperCase()} AS IDENTITY`;
+  } else if (column.default) {
+    definition += ` DEFAULT ${column.default}`;
+  }
+  if (!column.nullable) {
+    definition += ' NOT NULL';
+  }
+  return definition;
+}
+
+/**
+ * Builds the DDL that turns a database shaped like the `from` side into the `to` side
+ * Statements are ordered so dependencies exist first: types, tables, column and constraint
+ * changes, foreign keys, then drops. Changes that can't be expressed safely, such as view
+ * definitions or removing enum values, are emitted as comments to handle by hand.
+ */
+export function buildReconcileDdl(diff: SchemaDiff): string[] {
+  const types: string[] = [];
+  const tables: string[] = [];
+  const alterations: string[] = [];
+  const foreignKeys: string[] = [];
+  const drops: string[] = [];
+
+  const comment = (target: string, value: string | null) =>
+    `COMMENT ON ${target} IS ${value === null ? 'NULL' : quoteLiteral(value)};`;
+
+  for (const type of diff.types.added) {
+    const name = quoteQualified(type.schema, type.name);
+    types.push(type.kind === 'enum'
+      ? `CREATE TYPE ${name} AS ENUM (${(type.values ?? []).map(quoteLiteral).join(', ')});`
+      : `CREATE TYPE ${name} AS (${(type.attributes ?? []).map((a) => `${quoteIdent(a.name)} ${a.type}`).join(', ')});`);
+    if (type.comment) types.push(comment(`TYPE ${name}`, type.comment));
+  }
+
+  for (const type of diff.types.changed) {
+    const name = quoteQualified(type.schema, type.name);
+    if (type.kind) {
+      types.push(`-- ${name} changed from ${type.kind.from} to ${type.kind.to}; drop and recreate it by hand`);
+    }
+    for (const value of type.values?.added ?? []) {
+      types.push(`ALTER TYPE ${name} ADD VALUE IF NOT EXISTS ${quoteLiteral(value)};`);
+    }
+    if (type.values?.removed.length) {
+      types.push(`-- ${name} no longer has the values ${type.values.removed.join(', ')}; enum values can't be dropped`);
+    }
+    for (const attribute of type.attributes?.added ?? []) {
+      types.push(`ALTER TYPE ${name} ADD ATTRIBUTE ${quoteIdent(attribute.name)} ${attribute.type};`);
+    }
+    for (const { to } of type.attributes?.changed ?? []) {
+      types.push(`ALTER TYPE ${name} ALTER ATTRIBUTE ${quoteIdent(to.name)} TYPE ${to.type};`);
+    }
+    for (const attribute of type.attributes?.removed ?? []) {
+      types.push(`ALTER TYPE ${name} DROP ATTRIBUTE ${quoteIdent(attribute.name)};`);
+    }
+    if (type.comment) types.push(comment(`TYPE ${name}`, type.comment.to));
+  }
+
+  for (const table of diff.tables.added) {
+    const name = quoteQualified(table.schema, table.name);
+    if (table.kind !== 'table') {
+      tables.push(`-- ${table.kind} ${name} is missing; its definition isn't part of the snapshot`);
+      continue;
+    }
+
+    const constraints = tableConstraints(table);
+    const definitions = [
+      ...table.columns.map(columnDefinition),
+      ...constraints
+        .filter((constraint) => constraint.type !== 'foreign key')
+        .map((constraint) => `CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition}`)
+    ];
+    tables.push(`CREATE TABLE ${name} (\n  ${definitions.join(',\n  ')}\n);`);
+    tables.push(...standaloneIndexes(table).map((index) => `${index.definition};`));
+    if (table.comment) tables.push(comment(`TABLE ${name}`, table.comment));
+    for (const column of table.columns.filter((column) => column.comment)) {
+      tables.push(comment(`COLUMN ${name}.${quoteIdent(column.name)}`, column.comment));
+    }
+    foreignKeys.push(...constraints
+      .filter((constraint) => constraint.type === 'foreign key')
+      .map((constraint) => `ALTER TABLE ${name} ADD CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition};`));
+  }
+
+  for (const table of diff.tables.changed) {
+    const name = quoteQualified(table.schema, table.name);
+    if (table.kind) {
+      alterations.push(`-- ${name} changed from ${table.kind.from} to ${table.kind.to}; recreate it by hand`);
+      continue;
+    }
+    const alter = (action: string) => `ALTER TABLE ${name} ${action};`;
+
+    // Constraints that change are dropped first and added back with their new definition
+    for (const constraint of [...table.constraints.removed, ...table.constraints.changed.map(({ from }) => from)]) {
+      alterations.push(alter(`DROP CONSTRAINT ${quoteIdent(constraint.name)}`));
+    }
+    for (const index of [...table.indexes.removed, ...table.indexes.changed.map(({ from }) => from)]) {
+      alterations.push(`DROP INDEX ${quoteQualified(table.schema, index.name)};`);
+    }
+
+    for (const column of table.columns.added) {
+      alterations.push(alter(`ADD COLUMN ${columnDefinition(column)}`));
+    }
+    for (const { name: columnName, changes } of table.columns.changed) {
+      const column = quoteIdent(columnName);
+      if (changes.type) {
+        alterations.push(alter(`ALTER COLUMN ${column} TYPE ${changes.type.to} USING ${column}::${changes.type.to}`));
+      }
+      if (changes.default) {
+        alterations.push(alter(changes.default.to === null
+          ? `ALTER COLUMN ${column} DROP DEFAULT`
+          : `ALTER COLUMN ${column} SET DEFAULT ${changes.default.to}`));
+      }
+      if (changes.nullable) {
+        alterations.push(alter(`ALTER COLUMN ${column} ${changes.nullable.to ? 'DROP' : 'SET'} NOT NULL`));
+      }
+      if (changes.identity || changes.generated) {
+        alterations.push(`-- identity or generated expression of ${name}.${column} changed; adjust it by hand`);
+      }
+      if (changes.comment) {
+        alterations.push(comment(`COLUMN ${name}.${column}`, changes.comment.to as string | null));
+      }
+    }
+    for (const column of table.columns.removed) {
+      alterations.push(alter(`DROP COLUMN ${quoteIdent(column.name)}`));
+    }
+
+    for (const constraint of [...table.constraints.added, ...table.constraints.changed.map(({ to }) => to)]) {
+      const statement = alter(`ADD CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition}`);
+      (constraint.type === 'foreign key' ? foreignKeys : alterations).push(statement);
+    }
+    for (const index of [...table.indexes.added, ...table.indexes.changed.map(({ to }) => to)]) {
+      alterations.push(`${index.definition};`);
+    }
+    if (table.comment) {
+      alterations.push(comment(`TABLE ${name}`, table.comment.to));
+    }
+  }
+
+  for (const table of diff.tables.removed) {
+    const keyword = table.kind === 'view' ? 'VIEW' : table.kind === 'materialized view' ? 'MATERIALIZED VIEW'
+      : table.kind === 'foreign table' ? 'FOREIGN TABLE' : 'TABLE';
+    drops.push(`DROP ${keyword} ${quoteQualified(table.schema, table.name)};`);
+  }
+  for (const type of diff.types.removed) {
+    drops.push(`DROP TYPE ${quoteQualified(type.schema, type.name)};`);
+  }
+
+  return [...types, ...tables, ...alterations, ...foreignKeys, ...drops];
+}
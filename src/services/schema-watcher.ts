@@ -0,0 +1,188 @@
+/**
+ * Schema change detection
+ * Polls a fingerprint of the catalog of every target while clients are connected. When DDL
+ * changes it, the schema cache of that target is dropped and listeners learn which objects changed.
+ *
+ *   SCHEMA_POLL_INTERVAL_SECONDS   seconds between checks (default 60, 0 disables polling)
+ */
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { invalidateSchemaCache } from './schema-cache.js';
+import { getTargets, runWithTarget } from './targets.js';
+import type { ObjectFingerprint } from './introspection.js';
+import type { ResourceRef } from './resource-uri.js';
+import logger from '../utils/logging.js';
+
+/**
+ * Objects of a target that changed between two checks
+ */
+export interface SchemaChange {
+  target: string;
+  // Objects were created or dropped, so resource listings differ
+  listChanged: boolean;
+  // Objects created, dropped or altered
+  changed: ResourceRef[];
+}
+
+type SchemaChangeListener = (change: SchemaChange) => void;
+
+// Objects of every target, with their definition hashes, from the last check
+const snapshots = new Map<string, ObjectFingerprint[]>();
+
+const listeners = new Set<SchemaChangeListener>();
+
+// Targets whose last check failed, so a lasting failure is only logged once
+const failingTargets = new Set<string>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Registers a listener for schema changes and starts polling with the first one
+ * Returns a function that removes the listener; polling stops with the last one
+ */
+export function onSchemaChange(listener: SchemaChangeListener): () => void {
+  listeners.add(listener);
+  startPolling();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      stopPolling();
+    }
+  };
+}
+
+/**
+ * Starts the poll timer if polling is enabled and not already running
+ */
+function startPolling(): void {
+  const intervalMs = getNumber(env, 'SCHEMA_POLL_INTERVAL_SECONDS', 60) * 1000;
+  if (pollTimer || intervalMs <= 0) {
+    return;
+  }
+
+  pollTimer = setInterval(poll, intervalMs);
+  // Polling alone doesn't keep the process running
+  pollTimer.unref();
+
+  // The first check records the baseline that later checks compare against
+  poll();
+}
+
+/**
+ * Stops the poll timer
+ */
+function stopPolling(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Checks every configured target in turn, skipping a tick while the previous check still runs
+ */
+async function poll(): Promise<void> {
+  if (polling) {
+    return;
+  }
+
+  polling = true;
+  try {
+    for (const target of getTargets()) {
+      await checkSchema(target.name);
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Compares the catalog of a target with the previous check
+ * On a change the target's schema cache is dropped and listeners are notified.
+ * Returns the change, or null when nothing changed, this is the first check, or the check failed.
+ */
+export async function checkSchema(target: string): Promise<SchemaChange | null> {
+  let objects: ObjectFingerprint[];
+  try {
+    const result = await runWithTarget(target, () => supabaseService.getSchemaFingerprint());
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    objects = result.objects;
+  } catch (error: any) {
+    if (!failingTargets.has(target)) {
+      failingTargets.add(target);
+      logger.warn(`Could not check the schema of target "${target}" for changes`, { error: error.message });
+    }
+    return null;
+  }
+  failingTargets.delete(target);
+
+  const previous = snapshots.get(target);
+  snapshots.set(target, objects);
+
+  if (!previous) {
+    return null;
+  }
+
+  const { listChanged, changed } = compareFingerprints(previous, objects);
+  if (changed.length === 0) {
+    return null;
+  }
+
+  invalidateSchemaCache(target);
+  const change: SchemaChange = { target, listChanged, changed };
+  logger.info(`Schema of target "${target}" changed`, { objects: changed.length, listChanged });
+
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      logger.error('Schema change listener failed', { error });
+    }
+  }
+  return change;
+}
+
+/**
+ * Lists the objects created, dropped or altered between two checks
+ * `listChanged` is set when objects were created or dropped.
+ */
+export function compareFingerprints(
+  previous: ObjectFingerprint[],
+  current: ObjectFingerprint[]
+): { listChanged: boolean; changed: ResourceRef[] } {
+  const index = (objects: ObjectFingerprint[]) => new Map(objects.map((object) => {
+    const ref: ResourceRef = {
+      kind: object.kind,
+      schema: object.schema,
+      name: object.name,
+      ...(object.args !== null ? { args: object.args } : {})
+    };
+    return [JSON.stringify([object.kind, object.schema, object.name, object.args]), { ref, hash: object.hash }];
+  }));
+  const before = index(previous);
+  const after = index(current);
+
+  let listChanged = false;
+  const changed: ResourceRef[] = [];
+  for (const [key, { ref, hash }] of after) {
+    const old = before.get(key);
+    if (!old) {
+      listChanged = true;
+      changed.push(ref);
+    } else if (old.hash !== hash) {
+      changed.push(ref);
+    }
+  }
+  for (const [key, { ref }] of before) {
+    if (!after.has(key)) {
+      listChanged = true;
+      changed.push(ref);
+    }
+  }
+
+  return { listChanged, changed };
+}
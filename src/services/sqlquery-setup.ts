@@ -0,0 +1,200 @@
+/**
+ * sqlquery function setup
+ * Installs the `sqlquery` function the rpc backend calls, over a direct connection to the target.
+ * The installed function runs with the caller's privileges, so row level security still applies,
+ * has a fixed search_path, and is read-only unless asked otherwise. Only the roles it is granted
+ * to can execute it.
+ *
+ *   ALLOW_SQLQUERY_SETUP   lets setup_sqlquery_function change the target (TARGET_<NAME>_ALLOW_SQLQUERY_SETUP for named targets)
+ */
+import { env } from '../config/env.js';
+import { quoteIdent, quoteLiteral } from '../utils/sql.js';
+import * as supabaseService from './supabase.js';
+import { currentTarget } from './targets.js';
+
+/**
+ * How the function is installed
+ */
+export interface SqlquerySetupOptions {
+  // Refuse writes inside the function (default true)
+  readOnly: boolean;
+  // Roles allowed to execute the function (default: service_role)
+  grantTo: string[];
+  // Replace a sqlquery function that already exists
+  replace: boolean;
+  // Return the statements without running them
+  dryRun: boolean;
+}
+
+/**
+ * Outcome of a setup call
+ */
+export interface SqlquerySetupResult {
+  target: string;
+  function: string;
+  readOnly: boolean;
+  grantedTo: string[];
+  // Whether an existing function was replaced
+  replaced: boolean;
+  dryRun: boolean;
+  statements: string[];
+}
+
+/**
+ * Error raised when the function can't be installed
+ */
+export class SqlquerySetupError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'SqlquerySetupError';
+  }
+}
+
+// The rpc backend calls public.sqlquery(query), and PostgREST only exposes functions of the API schemas
+const FUNCTION_SIGNATURE = 'public.sqlquery(text)';
+
+// Supabase grants EXECUTE on new functions to these roles by default, so they are revoked explicitly
+const API_ROLES = ['anon', 'authenticated', 'service_role'];
+
+/**
+ * Reads the setup options from tool arguments
+ */
+export function parseSetupOptions(args: any): SqlquerySetupOptions {
+  const grantTo = args.grant_to ?? ['service_role'];
+  if (!Array.isArray(grantTo) || grantTo.length === 0 || grantTo.some((role) => typeof role !== 'string' || role === '')) {
+    throw new SqlquerySetupError('grant_to must be a non-empty array of role names', 'INVALID_ARGUMENTS');
+  }
+  if (grantTo.some((role: string) => role.toLowerCase() === 'public')) {
+    throw new SqlquerySetupError('The function can\'t be granted to PUBLIC; name the roles that need it', 'INVALID_ARGUMENTS');
+  }
+
+  return {
+    readOnly: args.read_only !== false,
+    grantTo: Array.from(new Set<string>(grantTo)),
+    replace: args.replace === true,
+    dryRun: args.dry_run === true,
+  };
+}
+
+/**
+ * Builds the statements that install the function and its grants
+ * `revokeFrom` lists the API roles that exist on the target and aren't granted the function.
+ */
+export function buildSetupStatements(options: SqlquerySetupOptions, revokeFrom: string[] = [], replace = false): string[] {
+  const readOnlyGuard = options.readOnly
+    ? `  -- Read-only: PostgreSQL refuses writes for the rest of the transaction
+  PERFORM pg_catalog.set_config('transaction_read_only', 'on', true);
+`
+    : '';
+  const comment = `Runs a SQL statement for the Postgres MCP server and returns its rows as JSON${options.readOnly ? ' (read-only)' : ''}`;
+
+  return [
+    // A function with another return type can't be replaced in place
+    ...(replace ? [`DROP FUNCTION IF EXISTS ${FUNCTION_SIGNATURE}`] : []),
+    `CREATE FUNCTION public.sqlquery(query text)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = pg_catalog, public
+AS $function$
+DECLARE
+  result record;
+  results jsonb[] := '{}';
+  affected bigint;
+BEGIN
+${readOnlyGuard}  BEGIN
+    FOR result IN EXECUTE query LOOP
+      results := pg_catalog.array_append(results, pg_catalog.to_jsonb(result));
+    END LOOP;
+  EXCEPTION WHEN invalid_cursor_definition THEN
+    -- Statements without rows, such as writes without RETURNING, can't be opened as a cursor
+    -- and are refused before they run; they return the number of rows they affected instead
+    EXECUTE query;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    results := ARRAY[pg_catalog.jsonb_build_object('affected_rows', affected)];
+  END;
+  RETURN pg_catalog.to_jsonb(results);
+END
+$function$`,
+    `COMMENT ON FUNCTION ${FUNCTION_SIGNATURE} IS ${quoteLiteral(comment)}`,
+    `REVOKE ALL ON FUNCTION ${FUNCTION_SIGNATURE} FROM PUBLIC`,
+    ...revokeFrom.map((role) => `REVOKE ALL ON FUNCTION ${FUNCTION_SIGNATURE} FROM ${quoteIdent(role)}`),
+    `GRANT EXECUTE ON FUNCTION ${FUNCTION_SIGNATURE} TO ${options.grantTo.map(quoteIdent).join(', ')}`,
+    // PostgREST reloads its schema cache, so the function can be called right away
+    `NOTIFY pgrst, 'reload schema'`,
+  ];
+}
+
+/**
+ * Installs the sqlquery function on the active target
+ * Read-only targets and targets without ALLOW_SQLQUERY_SETUP refuse; a dry run only returns the statements.
+ */
+export async function setupSqlqueryFunction(options: SqlquerySetupOptions): Promise<SqlquerySetupResult> {
+  const target = currentTarget();
+  const result = (statements: string[], replaced: boolean): SqlquerySetupResult => ({
+    target: target.name,
+    function: FUNCTION_SIGNATURE,
+    readOnly: options.readOnly,
+    grantedTo: options.grantTo,
+    replaced,
+    dryRun: options.dryRun,
+    statements,
+  });
+
+  if (options.dryRun) {
+    return result(buildSetupStatements(options, API_ROLES.filter((role) => !options.grantTo.includes(role)), options.replace), false);
+  }
+
+  if (target.readOnly) {
+    throw new SqlquerySetupError(`Target "${target.name}" is read-only; the sqlquery function can't be installed.`, 'TARGET_READ_ONLY', {
+      target: target.name
+    });
+  }
+  if (!target.allowSqlquerySetup) {
+    const setting = target.name === 'default' && !env.TARGETS
+      ? 'ALLOW_SQLQUERY_SETUP'
+      : `TARGET_${target.name.toUpperCase().replace(/-/g, '_')}_ALLOW_SQLQUERY_SETUP`;
+    throw new SqlquerySetupError(`Setting up the sqlquery function is not enabled for target "${target.name}". Set ${setting}=true to allow it.`, 'SETUP_DISABLED', {
+      target: target.name
+    });
+  }
+  if (target.env.DB_BACKEND !== 'pg' && !target.env.DB_PASSWORD && !target.env.DATABASE_URL) {
+    throw new SqlquerySetupError(`Installing the function needs a direct connection to target "${target.name}". Set its DB_PASSWORD or DATABASE_URL.`, 'DIRECT_CONNECTION_REQUIRED', {
+      target: target.name
+    });
+  }
+
+  return supabaseService.runInDirectTransaction(async (tx) => {
+    const { rows: existing } = await tx.query(
+      `SELECT pg_catalog.pg_get_function_result(p.oid) AS result
+       FROM pg_catalog.pg_proc p
+       WHERE p.proname = 'sqlquery' AND p.pronamespace = 'public'::regnamespace
+         AND p.proargtypes = '25'::oidvector`
+    );
+    if (existing.length > 0 && !options.replace) {
+      throw new SqlquerySetupError(`${FUNCTION_SIGNATURE} already exists (returning ${existing[0].result}). Pass replace=true to replace it.`, 'FUNCTION_EXISTS', {
+        target: target.name
+      });
+    }
+
+    const { rows: roles } = await tx.query(
+      'SELECT rolname FROM pg_catalog.pg_roles WHERE rolname = ANY($1::text[])',
+      [Array.from(new Set([...API_ROLES, ...options.grantTo]))]
+    );
+    const present = new Set(roles.map((row: any) => row.rolname as string));
+    const missing = options.grantTo.filter((role) => !present.has(role));
+    if (missing.length > 0) {
+      throw new SqlquerySetupError(`Roles not found on target "${target.name}": ${missing.join(', ')}`, 'ROLE_NOT_FOUND', {
+        roles: missing
+      });
+    }
+
+    const revokeFrom = API_ROLES.filter((role) => present.has(role) && !options.grantTo.includes(role));
+    const statements = buildSetupStatements(options, revokeFrom, existing.length > 0);
+    for (const statement of statements) {
+      await tx.query(statement);
+    }
+    return result(statements, existing.length > 0);
+  });
+}
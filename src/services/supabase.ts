@@ -2,32 +2,75 @@
  * Supabase service - Handles all interactions with Supabase
  */
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { env } from '../config/env.js';
+import { getConnectionUrl, getNumber } from '../config/env.js';
+import {
+  buildDescribeFunctionSql,
+  buildDescribeSchemaSql,
+  buildDescribeSequenceSql,
+  buildDescribeTableSql,
+  buildDescribeTypeSql,
+  buildListObjectsSql,
+  buildSchemaFingerprintSql,
+  buildSchemaOverviewSql,
+  DatabaseObject,
+  FunctionDescription,
+  ObjectFingerprint,
+  SchemaDescription,
+  SchemaOverviewTable,
+  SequenceDescription,
+  TableDescription,
+  TypeDescription
+} from './introspection.js';
+import { quoteLiteral, quoteQualified, tokenize } from '../utils/sql.js';
+import { createArrayCursor } from './backends/array-cursor.js';
+import { DatabaseError } from './backends/errors.js';
+import { createRpcBackend } from './backends/rpc.js';
+import { createPgBackend } from './backends/pg.js';
+import { currentTarget } from './targets.js';
+import { auditQuery, runWithSource } from './audit-log.js';
+import { currentQueryControl } from './query-control.js';
+import { cachedIntrospection } from './schema-cache.js';
+import { isMissingRpcError, listOpenApiTables } from './postgrest.js';
+import type {
+  DatabaseBackend,
+  QueryCursor,
+  QueryOptions,
+  QueryResult,
+  TransactionClient,
+  TransactionOptions
+} from './backends/types.js';
 
-// Cache the Supabase client to avoid creating multiple instances
-let supabaseClient: SupabaseClient | null = null;
+// Cache one Supabase client per target to avoid creating multiple instances
+const supabaseClients = new Map<string, SupabaseClient>();
+
+// Cache one database backend per target
+const databaseBackends = new Map<string, DatabaseBackend>();
 
 /**
- * Returns a Supabase client instance
+ * Returns a Supabase client instance for the active target
  * Uses a cached instance if already created
  */
 export function getSupabaseClient(): SupabaseClient {
-  if (!supabaseClient) {
-    if (!env.SUPABASE_PROJECT_URL || !env.SUPABASE_API_KEY) {
-      throw new Error('Missing Supabase configuration. Please check your .env file.');
+  const target = currentTarget();
+  let client = supabaseClients.get(target.name);
+  
+  if (!client) {
+    if (!target.env.SUPABASE_PROJECT_URL || !target.env.SUPABASE_API_KEY) {
+      throw new Error(`Missing Supabase configuration for target "${target.name}". Please check your .env file.`);
     }
     
-    supabaseClient = createClient(env.SUPABASE_PROJECT_URL, env.SUPABASE_API_KEY);
+    client = createClient(target.env.SUPABASE_PROJECT_URL, target.env.SUPABASE_API_KEY);
+    supabaseClients.set(target.name, client);
   }
   
-  return supabaseClient;
+  return client;
 }
 
 /**
- * Gets a project reference from the Supabase URL
+ * Gets a project reference from the Supabase URL of the active target
  */
 export function getProjectRef(): string {
-  const match = env.SUPABASE_PROJECT_URL.match(/https:\/\/([^.]+)\.supabase\.co/);
+  const match = currentTarget().env.SUPABASE_PROJECT_URL.match(/https:\/\/([^.]+)\.supabase\.co/);
   if (!match) {
     throw new Error('Invalid SUPABASE_PROJECT_URL format');
   }
@@ -35,68 +78,415 @@ export function getProjectRef(): string {
 }
 
 /**
- * Executes a SQL query using Supabase's RPC functionality
- * Falls back gracefully if the RPC function doesn't exist
+ * Returns the database backend of the active target
+ * DB_BACKEND selects between the sqlquery RPC and a direct pg connection
+ */
+export function getBackend(): DatabaseBackend {
+  const target = currentTarget();
+  let backend = databaseBackends.get(target.name);
+  
+  if (!backend) {
+    switch (target.env.DB_BACKEND) {
+      case 'pg':
+        backend = createPgBackend({
+          connectionString: getConnectionUrl(target.env),
+          maxConnections: getNumber(target.env, 'DB_POOL_MAX', 5)
+        });
+        break;
+      case 'rpc':
+        backend = createRpcBackend(getSupabaseClient());
+        break;
+      default:
+        throw new Error(`Unknown DB_BACKEND: ${target.env.DB_BACKEND}. Expected 'rpc' or 'pg'.`);
+    }
+    databaseBackends.set(target.name, backend);
+  }
+  
+  return backend;
+}
+
+/**
+ * Closes the database backends of every target
  */
-export async function executeSqlQuery(sql: string): Promise<{ data: any; error: any }> {
-  const supabase = getSupabaseClient();
+export async function closeBackend(): Promise<void> {
+  const open = Array.from(databaseBackends.values());
+  databaseBackends.clear();
   
+  await Promise.all(open.map((backend) => backend.close()));
+}
+
+/**
+ * Applies the active target's read-only flag and the request's timeout and cancel signal to query options
+ */
+function withCallOptions<T extends QueryOptions | TransactionOptions>(options: T): T {
+  const { timeoutMs, signal } = currentQueryControl();
+  return {
+    timeoutMs,
+    signal,
+    ...options,
+    ...(currentTarget().readOnly ? { readOnly: true } : {})
+  };
+}
+
+/**
+ * Executes a SQL query using the active target's database backend
+ * Queries against a read-only target always run in a READ ONLY transaction where the backend supports it
+ */
+export async function executeSqlQuery(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+  const record = auditQuery(sql, options.params);
+  let result: QueryResult;
   try {
-    // Try to use the sqlquery RPC function if it exists
-    const result = await supabase.rpc('sqlquery', { query: sql });
-    
-    return result;
-  } catch (error) {
-    console.warn('SQL query execution failed:', error);
-    return {
-      data: null,
-      error: {
-        message: 'SQL query execution failed. The sqlquery RPC function may not be available.',
-        details: error
+    result = await getBackend().query(sql, withCallOptions(options));
+  } catch (error: any) {
+    record({ rowCount: null, error });
+    throw error;
+  }
+  
+  record({ rowCount: Array.isArray(result.data) ? result.data.length : null, error: result.error });
+  return result;
+}
+
+/**
+ * Executes a catalog query made on behalf of the current request
+ * Results are cached per target (see schema-cache); queries that run are recorded in the audit log as introspection
+ */
+function executeIntrospectionQuery(sql: string): Promise<QueryResult> {
+  return cachedIntrospection(sql, () => runWithSource('introspection', () => executeSqlQuery(sql, { readOnly: true })));
+}
+
+/**
+ * Opens a cursor over the rows of a query
+ * SHOW and EXPLAIN can't run inside a server-side cursor, so their results are fetched in full
+ */
+export async function openQueryCursor(sql: string, options: QueryOptions = {}): Promise<QueryCursor> {
+  const firstKeyword = tokenize(sql).find((token) => token.type === 'word')?.value;
+  
+  if (firstKeyword === 'SHOW' || firstKeyword === 'EXPLAIN') {
+    const { data, error, fields } = await executeSqlQuery(sql, options);
+    if (error) {
+      throw new DatabaseError(error);
+    }
+    return createArrayCursor(data ?? [], fields);
+  }
+  
+  const record = auditQuery(sql, options.params);
+  const startedAt = Date.now();
+  let cursor: QueryCursor;
+  try {
+    cursor = await getBackend().openCursor(sql, withCallOptions(options));
+  } catch (error: any) {
+    record({ rowCount: null, error });
+    throw error;
+  }
+  
+  // The statement is recorded when the cursor is closed, with the number of rows actually read,
+  // or when reading fails, since errors such as division by zero only surface then
+  const durationMs = Date.now() - startedAt;
+  let rowsRead = 0;
+  let recorded = false;
+  const finish = (error: any) => {
+    if (!recorded) {
+      recorded = true;
+      record({ rowCount: rowsRead, error, durationMs });
+    }
+  };
+  
+  return {
+    get totalRows() { return cursor.totalRows; },
+    get fields() { return cursor.fields; },
+    // Later pages are fetched by later requests, which bring their own cancel signal
+    async read(count: number, signal: AbortSignal | undefined = currentQueryControl().signal) {
+      try {
+        const rows = await cursor.read(count, signal);
+        rowsRead += rows.length;
+        return rows;
+      } catch (error: any) {
+        finish(error);
+        throw error;
       }
-    };
+    },
+    async close() {
+      finish(null);
+      await cursor.close();
+    }
+  };
+}
+
+/**
+ * Runs a callback inside a database transaction
+ * Only backends with session control (pg) support transactions
+ */
+export async function runInTransaction<T>(
+  fn: (tx: TransactionClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const backend = getBackend();
+  
+  if (!backend.transaction) {
+    throw new Error(`The ${backend.kind} backend does not support transactions. Set DB_BACKEND=pg to use this feature.`);
   }
+  
+  return runAuditedTransaction(backend, fn, options);
 }
 
 /**
- * Lists all tables in the database
- * Uses a SQL query via RPC
+ * Runs a callback inside a transaction on a direct PostgreSQL connection to the active target
+ * Targets on the rpc backend get a connection of their own for the call, from DB_PASSWORD or DATABASE_URL
  */
-export async function listTables(): Promise<{ tables: string[]; error: any }> {
-  const result = await executeSqlQuery(
-    "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'"
+export async function runInDirectTransaction<T>(
+  fn: (tx: TransactionClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const backend = getBackend();
+  if (backend.transaction) {
+    return runAuditedTransaction(backend, fn, options);
+  }
+  
+  const target = currentTarget();
+  if (!target.env.DB_PASSWORD && !target.env.DATABASE_URL) {
+    throw new Error(`Target "${target.name}" has no direct connection. Set DB_PASSWORD or DATABASE_URL for it.`);
+  }
+  
+  const direct = createPgBackend({ connectionString: getConnectionUrl(target.env), maxConnections: 1 });
+  try {
+    return await runAuditedTransaction(direct, fn, options);
+  } finally {
+    await direct.close();
+  }
+}
+
+/**
+ * Runs a transaction on a backend, recording each statement in the audit log as it runs
+ */
+function runAuditedTransaction<T>(
+  backend: DatabaseBackend,
+  fn: (tx: TransactionClient) => Promise<T>,
+  options: TransactionOptions
+): Promise<T> {
+  return backend.transaction!((tx) => fn({
+    async query(sql, params) {
+      const record = auditQuery(sql, params);
+      try {
+        const result = await tx.query(sql, params);
+        record({ rowCount: result.rowCount, error: null });
+        return result;
+      } catch (error: any) {
+        record({ rowCount: null, error });
+        throw error;
+      }
+    }
+  }), withCallOptions(options));
+}
+
+/**
+ * Whether a query failed because the active target uses the rpc backend without the sqlquery function
+ */
+function usesMissingRpc(error: any): boolean {
+  return currentTarget().env.DB_BACKEND === 'rpc' && isMissingRpcError(error);
+}
+
+/**
+ * Lists the tables PostgREST exposes, from its OpenAPI description
+ * Used to list tables when the sqlquery function is missing; cached like catalog queries
+ */
+function getOpenApiTables(): Promise<{ objects: DatabaseObject[]; error: any }> {
+  return cachedIntrospection('openapi:tables', async () => {
+    try {
+      return { objects: await listOpenApiTables(), error: null };
+    } catch (error: any) {
+      return { objects: [], error: { message: error.message } };
+    }
+  });
+}
+
+/**
+ * Lists all tables in a schema
+ */
+export async function listTables(schemaName: string = 'public'): Promise<{ tables: string[]; error: any }> {
+  const result = await executeIntrospectionQuery(
+    `SELECT table_name FROM information_schema.tables WHERE table_schema = ${quoteLiteral(schemaName)}`
   );
   
   if (result.error) {
+    if (schemaName === 'public' && usesMissingRpc(result.error)) {
+      const { objects, error } = await getOpenApiTables();
+      return { tables: objects.map((object) => object.name), error };
+    }
     return { tables: [], error: result.error };
   }
   
   return {
-    tables: result.data.map((row: any) => row.table_name),
+    tables: (result.data ?? []).map((row: any) => row.table_name),
     error: null
   };
 }
 
 /**
- * Gets schema information for a specific table
+ * Lists database objects (schemas, tables, views, functions, types, sequences)
+ * in the schemas allowed by SCHEMA_ALLOWLIST / SCHEMA_DENYLIST, one page at a time
  */
-export async function getTableSchema(tableName: string): Promise<{ schema: any; error: any }> {
-  // Sanitize the table name to prevent SQL injection
-  const sanitizedTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '');
+export async function listDatabaseObjects(
+  limit: number,
+  offset: number = 0
+): Promise<{ objects: DatabaseObject[]; error: any }> {
+  const result = await executeIntrospectionQuery(buildListObjectsSql(limit, offset));
   
-  const result = await executeSqlQuery(
-    `SELECT column_name, data_type FROM information_schema.columns WHERE table_name = '${sanitizedTableName}'`
-  );
+  if (result.error) {
+    if (usesMissingRpc(result.error)) {
+      const { objects, error } = await getOpenApiTables();
+      return { objects: objects.slice(offset, offset + limit), error };
+    }
+    return { objects: [], error: result.error };
+  }
+  
+  return { objects: result.data ?? [], error: null };
+}
+
+/**
+ * Runs a describe query and unwraps its single `description` column
+ */
+async function fetchDescription<T>(sql: string, notFoundMessage: string): Promise<{ description: T | null; error: any }> {
+  const result = await executeIntrospectionQuery(sql);
   
   if (result.error) {
-    return { schema: null, error: result.error };
+    return { description: null, error: result.error };
+  }
+  
+  const description = result.data?.[0]?.description;
+  if (!description) {
+    return { description: null, error: { message: notFoundMessage } };
   }
   
   return {
-    schema: result.data,
+    description: typeof description === 'string' ? JSON.parse(description) : description,
     error: null
   };
 }
 
-// Export a singleton instance of the Supabase client
-export const supabase = getSupabaseClient(); 
\ No newline at end of file
+/**
+ * Hashes the definition of every exposed object, bypassing the cache
+ * Comparing two results shows which objects were created, dropped or altered
+ */
+export async function getSchemaFingerprint(): Promise<{ objects: ObjectFingerprint[]; error: any }> {
+  const result = await runWithSource('introspection', () => executeSqlQuery(buildSchemaFingerprintSql(), { readOnly: true }));
+  
+  if (result.error) {
+    return { objects: [], error: result.error };
+  }
+  
+  return { objects: result.data ?? [], error: null };
+}
+
+/**
+ * Gets a complete description of a table: columns, keys, constraints,
+ * indexes, comments and an estimated row count
+ */
+export async function getTableSchema(
+  tableName: string,
+  schemaName: string = 'public'
+): Promise<{ schema: TableDescription | null; error: any }> {
+  // Names are passed as quoted literals, so no further sanitizing is needed
+  const { description, error } = await fetchDescription<TableDescription>(
+    buildDescribeTableSql(schemaName, tableName),
+    `Table "${schemaName}"."${tableName}" does not exist or is not accessible`
+  );
+  
+  return { schema: description, error };
+}
+
+/**
+ * Gets the signature, attributes and source of a function or procedure
+ */
+export async function getFunctionDefinition(
+  schemaName: string,
+  functionName: string,
+  args: string
+): Promise<{ definition: FunctionDescription | null; error: any }> {
+  const { description, error } = await fetchDescription<FunctionDescription>(
+    buildDescribeFunctionSql(schemaName, functionName, args),
+    `Function "${schemaName}"."${functionName}"(${args}) does not exist or is not accessible`
+  );
+  
+  return { definition: description, error };
+}
+
+/**
+ * Gets the labels of an enum type or the attributes of a composite type
+ */
+export async function getTypeDefinition(
+  schemaName: string,
+  typeName: string
+): Promise<{ definition: TypeDescription | null; error: any }> {
+  const { description, error } = await fetchDescription<TypeDescription>(
+    buildDescribeTypeSql(schemaName, typeName),
+    `Type "${schemaName}"."${typeName}" does not exist or is not an enum or composite type`
+  );
+  
+  return { definition: description, error };
+}
+
+/**
+ * Gets the settings and current value of a sequence
+ */
+export async function getSequenceDefinition(
+  schemaName: string,
+  sequenceName: string
+): Promise<{ definition: SequenceDescription | null; error: any }> {
+  const { description, error } = await fetchDescription<SequenceDescription>(
+    buildDescribeSequenceSql(schemaName, sequenceName),
+    `Sequence "${schemaName}"."${sequenceName}" does not exist or is not accessible`
+  );
+  
+  return { definition: description, error };
+}
+
+/**
+ * Gets a summary of a schema and counts of the objects it contains
+ */
+export async function getSchemaDescription(
+  schemaName: string
+): Promise<{ definition: SchemaDescription | null; error: any }> {
+  const { description, error } = await fetchDescription<SchemaDescription>(
+    buildDescribeSchemaSql(schemaName),
+    `Schema "${schemaName}" does not exist or is not accessible`
+  );
+  
+  return { definition: description, error };
+}
+
+/**
+ * Lists the tables and views of a schema with their columns and foreign keys
+ */
+export async function getSchemaOverview(
+  schemaName: string,
+  limit: number
+): Promise<{ tables: SchemaOverviewTable[]; error: any }> {
+  const { description, error } = await fetchDescription<SchemaOverviewTable[]>(
+    buildSchemaOverviewSql(schemaName, limit),
+    `Schema "${schemaName}" does not exist or is not accessible`
+  );
+  
+  return { tables: description ?? [], error };
+}
+
+/**
+ * Reads a few rows of a table or view
+ * Without `sampling` these are the first rows the scan returns; with it, rows picked by
+ * TABLESAMPLE SYSTEM (random blocks) or BERNOULLI (random rows) from about `percent` of the table.
+ */
+export async function getSampleRows(
+  tableName: string,
+  schemaName: string,
+  limit: number,
+  sampling?: { method: 'system' | 'bernoulli'; percent: number }
+): Promise<{ rows: any[]; error: any }> {
+  const tablesample = sampling
+    ? ` TABLESAMPLE ${sampling.method.toUpperCase()} (${Math.min(100, Math.max(0, sampling.percent))})`
+    : '';
+  const result = await executeSqlQuery(
+    `SELECT * FROM ${quoteQualified(schemaName, tableName)}${tablesample} LIMIT ${Math.max(0, Math.floor(limit))}`,
+    { readOnly: true }
+  );
+  
+  return { rows: result.data ?? [], error: result.error };
+}
@@ -0,0 +1,131 @@
+/**
+ * Table samples
+ * Reads a few rows of a table or view, either the first rows or a TABLESAMPLE, with
+ * sensitive columns masked by the masking policy.
+ *
+ *   SAMPLE_ROWS_DEFAULT   rows in a sample unless the URI asks for a number (default 10)
+ *   SAMPLE_ROWS_MAX       most rows in one sample (default 100)
+ */
+import { env, getNumber } from '../config/env.js';
+import * as supabaseService from './supabase.js';
+import { loadMaskingPolicy, maskRows } from './masking.js';
+import type { ColumnInfo } from './backends/types.js';
+
+/**
+ * How the rows of a sample are picked
+ */
+export type SampleMethod =
+  | 'first'       // the first rows the scan returns (default)
+  | 'system'      // TABLESAMPLE SYSTEM: random blocks, fast on large tables
+  | 'bernoulli';  // TABLESAMPLE BERNOULLI: random rows, reads the whole table
+
+export const SAMPLE_METHODS: SampleMethod[] = ['first', 'system', 'bernoulli'];
+
+/**
+ * Options read from the query string of a sample URI
+ */
+export interface SampleOptions {
+  limit: number;
+  method: SampleMethod;
+  // Percentage of the table TABLESAMPLE draws from; estimated from the row count when null
+  percent: number | null;
+}
+
+/**
+ * Rows read from a table
+ */
+export interface TableSample {
+  schema: string;
+  name: string;
+  method: SampleMethod;
+  percent?: number;
+  rowCount: number;
+  columns: ColumnInfo[];
+  rows: any[];
+  // Columns masked by the masking policy
+  masked: string[];
+}
+
+/**
+ * Error raised for invalid sample requests
+ */
+export class SampleError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'SampleError';
+  }
+}
+
+// TABLESAMPLE draws from this many times the requested rows, as blocks and rows vary
+const OVERSAMPLING = 3;
+
+/**
+ * Reads the row count, method and percentage of a sample from the query string of its URI
+ */
+export function parseSampleOptions(params: URLSearchParams): SampleOptions {
+  const maxRows = Math.max(1, getNumber(env, 'SAMPLE_ROWS_MAX', 100));
+
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? Math.min(maxRows, getNumber(env, 'SAMPLE_ROWS_DEFAULT', 10)) : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxRows) {
+    throw new SampleError(`Invalid limit "${limitParam}": use a whole number from 1 to ${maxRows} (SAMPLE_ROWS_MAX)`, 'INVALID_LIMIT');
+  }
+
+  const method = params.get('method') ?? 'first';
+  if (!(SAMPLE_METHODS as string[]).includes(method)) {
+    throw new SampleError(`Unknown sampling method "${method}". Use one of: ${SAMPLE_METHODS.join(', ')}`, 'INVALID_METHOD');
+  }
+
+  const percentParam = params.get('percent');
+  const percent = percentParam === null ? null : Number(percentParam);
+  if (percent !== null && !(Number.isFinite(percent) && percent > 0 && percent <= 100)) {
+    throw new SampleError(`Invalid percent "${percentParam}": use a number above 0 and up to 100`, 'INVALID_PERCENT');
+  }
+
+  return { limit, method: method as SampleMethod, percent };
+}
+
+/**
+ * Reads a sample of a table on the active target and masks it
+ * Column types come from the table description, so type rules of the policy apply to every backend.
+ */
+export async function sampleTable(schema: string, name: string, options: SampleOptions): Promise<TableSample> {
+  // Load the policy first: without a valid policy no rows are read
+  const policy = loadMaskingPolicy();
+
+  const { schema: description, error: describeError } = await supabaseService.getTableSchema(name, schema);
+  if (describeError) {
+    throw new Error(describeError.message);
+  }
+
+  let percent: number | undefined;
+  if (options.method !== 'first') {
+    const estimate = description!.estimatedRowCount;
+    percent = options.percent
+      ?? (estimate && estimate > 0 ? Math.min(100, (options.limit * OVERSAMPLING * 100) / estimate) : 100);
+  }
+
+  const { rows, error } = await supabaseService.getSampleRows(
+    name,
+    schema,
+    options.limit,
+    options.method !== 'first' ? { method: options.method, percent: percent! } : undefined
+  );
+  if (error) {
+    throw new Error(error.message || String(error));
+  }
+
+  const columns = description!.columns.map((column) => ({ name: column.name, type: column.type }));
+  const masked = policy ? maskRows(policy, columns, rows, { schema, name }) : { rows, masked: [] };
+
+  return {
+    schema,
+    name,
+    method: options.method,
+    ...(percent !== undefined ? { percent } : {}),
+    rowCount: masked.rows.length,
+    columns,
+    rows: masked.rows,
+    masked: masked.masked,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Database targets
+ * Named connection profiles, e.g. staging and production, that tool calls can choose between.
+ *
+ * Targets are listed in TARGETS and configured with TARGET_<NAME>_* variables:
+ *
+ *   TARGETS=staging,prod
+ *   TARGET_STAGING_SUPABASE_PROJECT_URL=https://abc.supabase.co
+ *   TARGET_PROD_DB_BACKEND=pg
+ *   TARGET_PROD_READ_ONLY=true
+ *   TARGET_STAGING_ALLOW_MIGRATIONS=true
+ *   TARGET_STAGING_ALLOW_SQLQUERY_SETUP=true
+ *
+ * Without TARGETS, the top-level settings form a single target named "default".
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { env, EnvironmentVariables, getFlag } from '../config/env.js';
+
+/**
+ * A configured database target
+ */
+export interface DatabaseTarget {
+  name: string;
+  description: string | null;
+  // Read-only targets never run writes, whatever the caller asks for
+  readOnly: boolean;
+  // Whether migrations_apply may run migrations against this target
+  allowMigrations: boolean;
+  // Whether setup_sqlquery_function may install the sqlquery function on this target
+  allowSqlquerySetup: boolean;
+  // Settings used to connect to this target
+  env: EnvironmentVariables;
+}
+
+/**
+ * Error raised when a target name can't be resolved
+ */
+export class TargetError extends Error {
+  constructor(message: string, public readonly code: string = 'UNKNOWN_TARGET') {
+    super(message);
+    this.name = 'TargetError';
+  }
+}
+
+// Settings that are taken from the target's TARGET_<NAME>_* variables instead of the top level
+const CONNECTION_KEYS = [
+  'SUPABASE_PROJECT_URL',
+  'SUPABASE_API_KEY',
+  'DB_PASSWORD',
+  'DB_BACKEND',
+  'DB_CONNECTION',
+  'DATABASE_URL',
+  'DB_POOL_MAX',
+  'DB_POOLER_REGION',
+  'DB_SSLMODE',
+  'DB_SSL_ROOT_CERT'
+];
+
+const DEFAULT_TARGET_NAME = 'default';
+
+// Parsed targets, loaded on first use
+let targets: DatabaseTarget[] | null = null;
+
+// Target selected for the tool call that is currently running
+const activeTarget = new AsyncLocalStorage<DatabaseTarget>();
+
+/**
+ * Returns the prefix of the variables configuring a target
+ */
+function targetPrefix(name: string): string {
+  return `TARGET_${name.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+/**
+ * Parses the targets configured in a set of settings
+ */
+export function parseTargets(settings: EnvironmentVariables): DatabaseTarget[] {
+  const names = (settings.TARGETS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    return [{
+      name: DEFAULT_TARGET_NAME,
+      description: null,
+      readOnly: getFlag(settings, 'READ_ONLY'),
+      allowMigrations: getFlag(settings, 'ALLOW_MIGRATIONS'),
+      allowSqlquerySetup: getFlag(settings, 'ALLOW_SQLQUERY_SETUP'),
+      env: settings
+    }];
+  }
+
+  const loaded = names.map((name) => {
+    if (!/^[A-Za-z][\w-]*$/.test(name)) {
+      throw new TargetError(`Invalid target name "${name}": use letters, digits, "_" or "-"`, 'INVALID_TARGET');
+    }
+
+    // Connection settings are never inherited, so a target can't silently reuse another's credentials
+    const prefix = targetPrefix(name);
+    const connection: Record<string, string> = {};
+    for (const key of CONNECTION_KEYS) {
+      connection[key] = settings[prefix + key] ?? '';
+    }
+
+    return {
+      name,
+      description: settings[prefix + 'DESCRIPTION'] || null,
+      readOnly: getFlag(settings, prefix + 'READ_ONLY'),
+      allowMigrations: getFlag(settings, prefix + 'ALLOW_MIGRATIONS'),
+      allowSqlquerySetup: getFlag(settings, prefix + 'ALLOW_SQLQUERY_SETUP'),
+      env: {
+        ...settings,
+        ...connection,
+        DB_BACKEND: (connection.DB_BACKEND || 'rpc') as EnvironmentVariables['DB_BACKEND'],
+        DB_CONNECTION: (connection.DB_CONNECTION || 'direct') as EnvironmentVariables['DB_CONNECTION']
+      }
+    };
+  });
+
+  // The default target is listed first
+  const defaultName = settings.DEFAULT_TARGET || names[0];
+  const defaultIndex = loaded.findIndex((target) => target.name === defaultName);
+  if (defaultIndex < 0) {
+    throw new TargetError(`DEFAULT_TARGET "${defaultName}" is not listed in TARGETS`);
+  }
+
+  return [loaded[defaultIndex], ...loaded.filter((_, i) => i !== defaultIndex)];
+}
+
+/**
+ * Returns every configured target, the default one first
+ */
+export function getTargets(): DatabaseTarget[] {
+  if (!targets) {
+    targets = parseTargets(env);
+  }
+  return targets;
+}
+
+/**
+ * Returns a target by name, or the default target when no name is given
+ */
+export function getTarget(name?: string): DatabaseTarget {
+  const all = getTargets();
+  if (!name) {
+    return all[0];
+  }
+
+  const target = all.find((candidate) => candidate.name === name);
+  if (!target) {
+    throw new TargetError(`Unknown target "${name}". Configured targets: ${all.map((t) => t.name).join(', ')}`);
+  }
+  return target;
+}
+
+/**
+ * Returns the target of the running tool call, or the default target outside of one
+ */
+export function currentTarget(): DatabaseTarget {
+  return activeTarget.getStore() ?? getTarget();
+}
+
+/**
+ * Runs a callback with a target selected
+ * Database access inside the callback, including nested async calls, goes to that target
+ */
+export function runWithTarget<T>(name: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return activeTarget.run(getTarget(name), fn);
+}
+
+/**
+ * Lists the configuration problems that would prevent connecting to a target
+ */
+export function validateTarget(target: DatabaseTarget): string[] {
+  const problems: string[] = [];
+  const prefix = target.name === DEFAULT_TARGET_NAME && !env.TARGETS ? '' : targetPrefix(target.name);
+
+  if (target.env.DB_BACKEND !== 'rpc' && target.env.DB_BACKEND !== 'pg') {
+    problems.push(`${prefix}DB_BACKEND must be 'rpc' or 'pg'`);
+  }
+
+  if (!target.env.SUPABASE_PROJECT_URL || !target.env.SUPABASE_API_KEY) {
+    problems.push(`${prefix}SUPABASE_PROJECT_URL and ${prefix}SUPABASE_API_KEY are required`);
+  }
+
+  // The pg backend additionally needs database credentials
+  if (target.env.DB_BACKEND === 'pg' && !target.env.DB_PASSWORD && !target.env.DATABASE_URL) {
+    problems.push(`DB_BACKEND=pg requires ${prefix}DB_PASSWORD (or ${prefix}DATABASE_URL)`);
+  }
+
+  return problems;
+}
+
+/**
+ * Describes a target without exposing credentials
+ */
+export function describeTarget(target: DatabaseTarget) {
+  const projectRef = target.env.SUPABASE_PROJECT_URL.match(/https:\/\/([^.]+)\.supabase\.co/)?.[1] ?? null;
+
+  return {
+    name: target.name,
+    default: target === getTarget(),
+    description: target.description,
+    readOnly: target.readOnly,
+    allowMigrations: target.allowMigrations,
+    allowSqlquerySetup: target.allowSqlquerySetup,
+    backend: target.env.DB_BACKEND,
+    connection: target.env.DB_BACKEND === 'pg'
+      ? (target.env.DATABASE_URL ? 'database_url' : target.env.DB_CONNECTION)
+      : null,
+    projectRef
+  };
+}
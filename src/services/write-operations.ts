@@ -0,0 +1,375 @@
+/**
+ * Write operations service
+ * Implements the opt-in insert/update/delete tools with a two-step
+ * preview-then-confirm flow
+ */
+import { createHash, randomBytes } from 'crypto';
+import { env, getFlag, getNumber } from '../config/env.js';
+import { quoteIdent, quoteQualified } from '../utils/sql.js';
+import * as supabaseService from './supabase.js';
+import { isSchemaAllowed } from './introspection.js';
+import { currentTarget } from './targets.js';
+import type { TransactionClient } from './backends/types.js';
+
+/**
+ * Kinds of write operations
+ */
+export type WriteKind = 'insert' | 'update' | 'delete';
+
+/**
+ * A requested write operation, as received from a tool call
+ */
+export interface WriteRequest {
+  kind: WriteKind;
+  schema: string;
+  table: string;
+  // Rows to insert (insert only)
+  rows?: Record<string, unknown>[];
+  // Column values to set (update only)
+  set?: Record<string, unknown>;
+  // Equality filters identifying the rows to change (update and delete)
+  where?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a preview or a confirmed write
+ */
+export interface WriteResult {
+  committed: boolean;
+  affectedRows: number;
+  // Sample of matching rows before the change (update and delete)
+  before?: any[];
+  // Sample of rows as they look after the change (insert and update)
+  after?: any[];
+  // Token that must be passed back to commit a previewed change
+  confirmationToken?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Error raised when a write request is invalid or refused
+ */
+export class WriteOperationError extends Error {
+  constructor(message: string, public readonly code: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'WriteOperationError';
+  }
+}
+
+/**
+ * A preview waiting for confirmation
+ */
+interface PendingWrite {
+  fingerprint: string;
+  affectedRows: number;
+  expiresAt: number;
+}
+
+// Previews waiting for confirmation, keyed by confirmation token
+const pendingWrites = new Map<string, PendingWrite>();
+
+/**
+ * Whether the write tools are enabled
+ */
+export function isWriteEnabled(): boolean {
+  return getFlag(env, 'ENABLE_WRITE_TOOLS');
+}
+
+/**
+ * Returns the write tool limits from configuration
+ */
+export function getWriteLimits() {
+  return {
+    maxAffectedRows: getNumber(env, 'WRITE_MAX_AFFECTED_ROWS', 100),
+    previewRows: getNumber(env, 'WRITE_PREVIEW_ROWS', 5),
+    confirmationTtlMs: getNumber(env, 'WRITE_CONFIRMATION_TTL_SECONDS', 300) * 1000
+  };
+}
+
+/**
+ * Runs a write request
+ * Without a confirmation token the change is previewed in a rolled-back transaction;
+ * with a valid token from that preview the same change is committed
+ */
+export async function executeWrite(request: WriteRequest, confirmationToken?: string): Promise<WriteResult> {
+  if (!isWriteEnabled()) {
+    throw new WriteOperationError('Write tools are disabled. Set ENABLE_WRITE_TOOLS=true to enable them.', 'WRITES_DISABLED');
+  }
+
+  const target = currentTarget();
+  if (target.readOnly) {
+    throw new WriteOperationError(`Target "${target.name}" is read-only; writes are not allowed.`, 'TARGET_READ_ONLY', {
+      target: target.name
+    });
+  }
+
+  validateRequest(request);
+  // Tables in hidden schemas can't be written, just as they can't be read
+  if (!isSchemaAllowed(request.schema)) {
+    throw new WriteOperationError(`Schema not exposed by this server: ${request.schema}`, 'INVALID_REQUEST', {
+      schema: request.schema
+    });
+  }
+
+  const limits = getWriteLimits();
+  // The target is part of the fingerprint so a preview on one target can't confirm a write on another
+  const fingerprint = fingerprintRequest({ ...request, target: target.name });
+
+  if (!confirmationToken) {
+    const preview = await runWrite(request, { rollback: true, previewRows: limits.previewRows });
+    const { token, expiresAt } = issueConfirmation(fingerprint, preview.affectedRows, limits.confirmationTtlMs);
+
+    return {
+      ...preview,
+      confirmationToken: token,
+      expiresAt: new Date(expiresAt).toISOString()
+    };
+  }
+
+  return runWrite(request, {
+    rollback: false,
+    previewRows: limits.previewRows,
+    expectedRows: redeemConfirmation(confirmationToken, fingerprint)
+  });
+}
+
+/**
+ * Records a preview and returns the token that confirms it
+ */
+export function issueConfirmation(fingerprint: string, affectedRows: number, ttlMs: number, now = Date.now()) {
+  const token = randomBytes(16).toString('hex');
+  const expiresAt = now + ttlMs;
+  prunePendingWrites(now);
+  pendingWrites.set(token, { fingerprint, affectedRows, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Redeems a confirmation token, returning the row count of its preview
+ * Confirmation tokens are single-use and bound to the exact request that was previewed
+ */
+export function redeemConfirmation(token: string, fingerprint: string, now = Date.now()): number {
+  const pending = pendingWrites.get(token);
+  pendingWrites.delete(token);
+
+  if (!pending || pending.expiresAt < now) {
+    throw new WriteOperationError(
+      'Confirmation token is invalid or has expired. Run the tool again without a token to get a new preview.',
+      'INVALID_CONFIRMATION'
+    );
+  }
+
+  if (pending.fingerprint !== fingerprint) {
+    throw new WriteOperationError(
+      'Confirmation token was issued for a different request. Repeat the exact arguments used for the preview.',
+      'CONFIRMATION_MISMATCH'
+    );
+  }
+
+  return pending.affectedRows;
+}
+
+/**
+ * Checks the number of rows a write would change against the limit and against its preview
+ */
+export function checkAffectedRows(kind: WriteKind, affectedRows: number, maxAffectedRows: number, expectedRows?: number): void {
+  if (affectedRows > maxAffectedRows) {
+    throw new WriteOperationError(
+      `This ${kind} would affect ${affectedRows} rows, which exceeds the limit of ${maxAffectedRows}. Narrow the filter or raise WRITE_MAX_AFFECTED_ROWS.`,
+      'TOO_MANY_ROWS',
+      { affectedRows, maxAffectedRows }
+    );
+  }
+
+  if (expectedRows !== undefined && affectedRows !== expectedRows) {
+    throw new WriteOperationError(
+      `The data changed since the preview: ${affectedRows} rows now match instead of ${expectedRows}. Nothing was committed; preview the change again.`,
+      'PREVIEW_MISMATCH',
+      { affectedRows, expectedRows }
+    );
+  }
+}
+
+/**
+ * Executes the write inside a transaction and collects before/after samples
+ */
+async function runWrite(
+  request: WriteRequest,
+  options: { rollback: boolean; previewRows: number; expectedRows?: number }
+): Promise<WriteResult> {
+  const { maxAffectedRows } = getWriteLimits();
+  const target = quoteQualified(request.schema, request.table);
+
+  return supabaseService.runInTransaction(async (tx) => {
+    let before: any[] | undefined;
+    let affectedRows: number;
+
+    if (request.kind === 'insert') {
+      affectedRows = request.rows!.length;
+    } else {
+      const where = buildWhere(request.where!, 1);
+
+      // Count first so runaway statements are refused before they run
+      const count = await tx.query(`SELECT count(*)::int AS count FROM ${target} WHERE ${where.sql}`, where.params);
+      affectedRows = count.rows[0].count;
+
+      before = (await tx.query(
+        `SELECT * FROM ${target} WHERE ${where.sql} LIMIT ${Math.max(0, Math.floor(options.previewRows))}`,
+        where.params
+      )).rows;
+    }
+
+    checkAffectedRows(request.kind, affectedRows, maxAffectedRows, options.expectedRows);
+
+    const returned = await runStatement(tx, request, target);
+
+    return {
+      committed: !options.rollback,
+      affectedRows: returned.rowCount,
+      before,
+      after: request.kind === 'delete' ? undefined : returned.rows.slice(0, options.previewRows)
+    };
+  }, { rollback: options.rollback });
+}
+
+/**
+ * Builds and runs the INSERT, UPDATE or DELETE statement
+ */
+async function runStatement(tx: TransactionClient, request: WriteRequest, target: string) {
+  switch (request.kind) {
+    case 'insert': {
+      const rows = request.rows!;
+      const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      const params: unknown[] = [];
+
+      // Columns missing from a row fall back to their DEFAULT
+      const values = rows.map((row) => `(${columns.map((column) => {
+        if (!(column in row)) return 'DEFAULT';
+        params.push(toParam(row[column]));
+        return `$${params.length}`;
+      }).join(', ')})`);
+
+      return tx.query(
+        `INSERT INTO ${target} (${columns.map(quoteIdent).join(', ')}) VALUES ${values.join(', ')} RETURNING *`,
+        params
+      );
+    }
+
+    case 'update': {
+      const assignments = Object.entries(request.set!);
+      const params = assignments.map(([, value]) => toParam(value));
+      const where = buildWhere(request.where!, params.length + 1);
+
+      return tx.query(
+        `UPDATE ${target} SET ${assignments.map(([column], i) => `${quoteIdent(column)} = $${i + 1}`).join(', ')} WHERE ${where.sql} RETURNING *`,
+        [...params, ...where.params]
+      );
+    }
+
+    case 'delete': {
+      const where = buildWhere(request.where!, 1);
+      return tx.query(`DELETE FROM ${target} WHERE ${where.sql} RETURNING *`, where.params);
+    }
+  }
+}
+
+/**
+ * Builds a WHERE clause from equality filters
+ * null matches IS NULL and arrays match any of their values
+ */
+function buildWhere(filters: Record<string, unknown>, firstParam: number): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+
+  const conditions = Object.entries(filters).map(([column, value]) => {
+    if (value === null) {
+      return `${quoteIdent(column)} IS NULL`;
+    }
+
+    params.push(value);
+    const placeholder = `$${firstParam + params.length - 1}`;
+    return Array.isArray(value)
+      ? `${quoteIdent(column)} = ANY(${placeholder})`
+      : `${quoteIdent(column)} = ${placeholder}`;
+  });
+
+  return { sql: conditions.join(' AND '), params };
+}
+
+/**
+ * Converts a JSON value into a bind parameter
+ * Objects are passed as JSON text so they can populate json/jsonb columns
+ */
+function toParam(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Validates the shape of a write request
+ */
+export function validateRequest(request: WriteRequest): void {
+  if (!request.table) {
+    throw new WriteOperationError('A table name is required', 'INVALID_REQUEST');
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (request.kind === 'insert') {
+    if (!Array.isArray(request.rows) || request.rows.length === 0 || !request.rows.every(isObject)) {
+      throw new WriteOperationError('insert_rows requires a non-empty "rows" array of objects', 'INVALID_REQUEST');
+    }
+    if (request.rows.every((row) => Object.keys(row).length === 0)) {
+      throw new WriteOperationError('insert_rows requires at least one column value', 'INVALID_REQUEST');
+    }
+    return;
+  }
+
+  if (request.kind === 'update' && (!isObject(request.set) || Object.keys(request.set).length === 0)) {
+    throw new WriteOperationError('update_rows requires a non-empty "set" object', 'INVALID_REQUEST');
+  }
+
+  // Statements without a filter would touch every row in the table
+  if (!isObject(request.where) || Object.keys(request.where).length === 0) {
+    throw new WriteOperationError(
+      `${request.kind}_rows requires a non-empty "where" object; statements without a filter are not allowed`,
+      'MISSING_FILTER'
+    );
+  }
+}
+
+/**
+ * Produces a stable fingerprint of a write request
+ */
+export function fingerprintRequest(request: WriteRequest & { target: string }): string {
+  return createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+/**
+ * JSON.stringify with sorted object keys so equivalent requests match
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Removes expired previews
+ */
+function prunePendingWrites(now: number): void {
+  for (const [token, pending] of pendingWrites) {
+    if (pending.expiresAt < now) {
+      pendingWrites.delete(token);
+    }
+  }
+}
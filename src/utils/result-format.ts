@@ -0,0 +1,174 @@
+/**
+ * Result rendering
+ * Turns rows returned by a tool into text in one of several formats,
+ * each with a header describing the columns and their PostgreSQL types
+ */
+
+/**
+ * Supported output formats
+ */
+export type ResultFormat =
+  | 'json'      // pretty-printed JSON object (default)
+  | 'compact'   // single-line JSON object
+  | 'ndjson'    // header object, then one JSON row per line
+  | 'csv'       // RFC 4180 CSV
+  | 'markdown'; // aligned markdown table
+
+export const RESULT_FORMATS: ResultFormat[] = ['json', 'compact', 'ndjson', 'csv', 'markdown'];
+
+/**
+ * A result column with its PostgreSQL type
+ */
+export interface ResultColumn {
+  name: string;
+  type: string;
+}
+
+/**
+ * Rows to render, with metadata such as page information
+ */
+export interface RenderableResult {
+  columns: ResultColumn[];
+  rows: any[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for rendering
+ */
+export interface RenderOptions {
+  // Markdown cells longer than this are truncated
+  maxCellWidth?: number;
+}
+
+/**
+ * Error raised when an unknown format is requested
+ */
+export class ResultFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResultFormatError';
+  }
+}
+
+/**
+ * Validates a format argument, defaulting to pretty JSON
+ */
+export function parseResultFormat(value: unknown): ResultFormat {
+  if (value === undefined || value === null || value === '') {
+    return 'json';
+  }
+
+  if (typeof value === 'string' && (RESULT_FORMATS as string[]).includes(value)) {
+    return value as ResultFormat;
+  }
+
+  throw new ResultFormatError(`Unknown format "${value}". Use one of: ${RESULT_FORMATS.join(', ')}`);
+}
+
+/**
+ * Renders a result in the requested format
+ * Returns one or more text blocks; CSV keeps its header separate so the body stays valid CSV
+ */
+export function renderResult(result: RenderableResult, format: ResultFormat, options: RenderOptions = {}): string[] {
+  const { columns, rows, metadata = {} } = result;
+
+  switch (format) {
+    case 'json':
+      return [JSON.stringify({ columns, rows, ...metadata }, null, 2)];
+    case 'compact':
+      return [JSON.stringify({ columns, rows, ...metadata })];
+    case 'ndjson':
+      return [[JSON.stringify({ columns, ...metadata }), ...rows.map((row) => JSON.stringify(row))].join('\n')];
+    case 'csv':
+      return [describeResult(columns, metadata), renderCsv(columns, rows)];
+    case 'markdown':
+      return [`${describeResult(columns, metadata)}\n\n${renderMarkdownTable(columns, rows, options.maxCellWidth)}`];
+  }
+}
+
+/**
+ * Builds a plain-text header listing the columns and any metadata
+ */
+export function describeResult(columns: ResultColumn[], metadata: Record<string, unknown> = {}): string {
+  const lines = [
+    `Columns: ${columns.length > 0 ? columns.map((column) => `${column.name} (${column.type})`).join(', ') : '(none)'}`
+  ];
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value === undefined) continue;
+    lines.push(`${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders rows as CSV with a header row of column names
+ * NULL is an empty field; an empty string is a quoted empty field
+ */
+function renderCsv(columns: ResultColumn[], rows: any[]): string {
+  const quote = (text: string) => /[",\r\n]/.test(text) || text === '' || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+
+  const lines = [columns.map((column) => quote(column.name)).join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => {
+      const value = row?.[column.name];
+      return value === null || value === undefined ? '' : quote(cellText(value));
+    }).join(','));
+  }
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Renders rows as a markdown table with padded columns
+ * Numeric columns are right-aligned and long cells are truncated with an ellipsis
+ */
+export function renderMarkdownTable(columns: ResultColumn[], rows: any[], maxCellWidth: number = 40): string {
+  if (columns.length === 0) {
+    return '_(no columns)_';
+  }
+
+  const width = Math.max(4, Math.floor(maxCellWidth));
+  const escape = (text: string) => {
+    const flat = text.replace(/\r?\n/g, '\\n').replace(/\|/g, '\\|');
+    return flat.length > width ? `${flat.slice(0, width - 1)}…` : flat;
+  };
+
+  const header = columns.map((column) => escape(column.name));
+  const body = rows.map((row) => columns.map((column) => {
+    const value = row?.[column.name];
+    return value === null || value === undefined ? 'NULL' : escape(cellText(value));
+  }));
+
+  const widths = columns.map((_, i) => Math.max(3, header[i].length, ...body.map((cells) => cells[i].length)));
+  const numeric = columns.map((column) => isNumericType(column.type));
+
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, i) => numeric[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i])).join(' | ')} |`;
+  const separator = `| ${widths.map((w, i) => numeric[i] ? `${'-'.repeat(w - 1)}:` : '-'.repeat(w)).join(' | ')} |`;
+
+  return [line(header), separator, ...body.map(line)].join('\n');
+}
+
+/**
+ * Converts a single value to display text
+ */
+function cellText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `\\x${value.toString('hex')}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Whether a PostgreSQL type name is numeric
+ */
+function isNumericType(type: string): boolean {
+  return /^(smallint|integer|bigint|numeric|real|double precision|money|oid|int[248]|float[48])\b/.test(type);
+}
@@ -0,0 +1,236 @@
+/**
+ * SQL statement classifier
+ * Decides whether a SQL string is safe to run as a read-only query
+ * before it is sent to the database
+ */
+import { splitStatements, SqlSyntaxError, SqlToken } from './sql.js';
+
+/**
+ * Reasons a statement can be refused
+ */
+export type ReadOnlyViolation =
+  | 'EMPTY_STATEMENT'
+  | 'SYNTAX_ERROR'
+  | 'MULTIPLE_STATEMENTS'
+  | 'WRITE_STATEMENT'
+  | 'DDL_STATEMENT'
+  | 'TRANSACTION_CONTROL'
+  | 'SESSION_STATEMENT'
+  | 'PROCEDURAL_CODE'
+  | 'DATA_MODIFYING_CTE'
+  | 'SELECT_INTO'
+  | 'LOCKING_CLAUSE'
+  | 'SIDE_EFFECT_FUNCTION'
+  | 'UNSUPPORTED_STATEMENT';
+
+/**
+ * Result of classifying a SQL string
+ */
+export type ReadOnlyCheck =
+  | { allowed: true; statementType: string }
+  | { allowed: false; statementType: string | null; code: ReadOnlyViolation; reason: string };
+
+// Statements that only read data
+const READ_STATEMENTS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'EXPLAIN']);
+
+// Statements that modify data
+const WRITE_STATEMENTS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'COPY']);
+
+// Statements that change the schema, permissions or physical storage
+const DDL_STATEMENTS = new Set([
+  'CREATE', 'ALTER', 'DROP', 'COMMENT', 'GRANT', 'REVOKE', 'SECURITY', 'REINDEX',
+  'CLUSTER', 'VACUUM', 'ANALYZE', 'REFRESH', 'IMPORT', 'REASSIGN'
+]);
+
+// Statements that control transactions
+const TRANSACTION_STATEMENTS = new Set([
+  'BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT', 'SAVEPOINT', 'RELEASE', 'PREPARE'
+]);
+
+// Statements that change session state or server behaviour
+const SESSION_STATEMENTS = new Set([
+  'SET', 'RESET', 'DISCARD', 'LOCK', 'LISTEN', 'UNLISTEN', 'NOTIFY', 'LOAD', 'CHECKPOINT',
+  'DEALLOCATE', 'EXECUTE', 'DECLARE', 'FETCH', 'MOVE', 'CLOSE'
+]);
+
+// Statements that run arbitrary procedural code
+const PROCEDURAL_STATEMENTS = new Set(['DO', 'CALL']);
+
+// Functions that change state, reach outside the database or run dynamic SQL
+const SIDE_EFFECT_FUNCTIONS = new Set([
+  'nextval', 'setval', 'set_config',
+  'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile',
+  'pg_advisory_lock', 'pg_advisory_lock_shared', 'pg_advisory_xact_lock', 'pg_advisory_xact_lock_shared',
+  'pg_try_advisory_lock', 'pg_try_advisory_lock_shared', 'pg_try_advisory_xact_lock',
+  'pg_try_advisory_xact_lock_shared', 'pg_advisory_unlock', 'pg_advisory_unlock_shared',
+  'pg_advisory_unlock_all',
+  'lo_import', 'lo_export', 'lo_create', 'lo_creat', 'lo_unlink', 'lo_from_bytea', 'lo_put',
+  'pg_read_file', 'pg_read_binary_file', 'pg_ls_dir', 'pg_stat_file', 'pg_file_write',
+  'dblink', 'dblink_exec', 'dblink_connect', 'dblink_connect_u', 'dblink_send_query',
+  'pg_notify', 'pg_logical_emit_message',
+  'pg_create_restore_point', 'pg_switch_wal', 'pg_promote',
+  'pg_backup_start', 'pg_backup_stop', 'pg_start_backup', 'pg_stop_backup',
+  'pg_create_logical_replication_slot', 'pg_create_physical_replication_slot', 'pg_drop_replication_slot',
+  'pg_stat_reset', 'pg_stat_reset_shared', 'pg_stat_reset_single_table_counters',
+  'pg_stat_reset_single_function_counters', 'pg_stat_statements_reset',
+  'query_to_xml', 'query_to_xmlschema', 'query_to_xml_and_xmlschema',
+  'http', 'http_get', 'http_post', 'http_put', 'http_patch', 'http_delete', 'http_head', 'http_request'
+]);
+
+/**
+ * Checks whether a SQL string is a single read-only statement
+ */
+export function classifyReadOnly(sql: string): ReadOnlyCheck {
+  let statements: SqlToken[][];
+  try {
+    statements = splitStatements(sql ?? '');
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return refuse(null, 'SYNTAX_ERROR', `Could not parse SQL: ${error.message} at position ${error.position}`);
+    }
+    throw error;
+  }
+
+  if (statements.length === 0) {
+    return refuse(null, 'EMPTY_STATEMENT', 'No SQL statement was provided');
+  }
+
+  if (statements.length > 1) {
+    return refuse(
+      null,
+      'MULTIPLE_STATEMENTS',
+      `Only a single statement can be run at a time, but ${statements.length} statements were provided`
+    );
+  }
+
+  return classifyStatement(statements[0]);
+}
+
+/**
+ * Classifies a single tokenized statement
+ */
+function classifyStatement(tokens: SqlToken[]): ReadOnlyCheck {
+  // Skip leading parentheses, e.g. (SELECT 1) UNION (SELECT 2)
+  let index = 0;
+  while (index < tokens.length && tokens[index].value === '(') index++;
+
+  const first = tokens[index];
+  if (!first || first.type !== 'word') {
+    return refuse(null, 'UNSUPPORTED_STATEMENT', 'Statement does not start with a SQL keyword');
+  }
+
+  const statementType = first.value;
+
+  if (statementType === 'EXPLAIN') {
+    return classifyExplain(tokens.slice(index + 1));
+  }
+
+  if (WRITE_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'WRITE_STATEMENT', `${statementType} statements modify data and are not allowed in read-only mode`);
+  }
+  if (DDL_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'DDL_STATEMENT', `${statementType} statements change the database schema or storage and are not allowed in read-only mode`);
+  }
+  if (TRANSACTION_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'TRANSACTION_CONTROL', `${statementType} statements control transactions and are managed by the server`);
+  }
+  if (SESSION_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'SESSION_STATEMENT', `${statementType} statements change session state and are not allowed in read-only mode`);
+  }
+  if (PROCEDURAL_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'PROCEDURAL_CODE', `${statementType} statements run procedural code that may have side effects`);
+  }
+  if (!READ_STATEMENTS.has(statementType)) {
+    return refuse(statementType, 'UNSUPPORTED_STATEMENT', `${statementType} statements are not supported in read-only mode`);
+  }
+
+  return checkStatementBody(statementType, tokens.slice(index));
+}
+
+/**
+ * Classifies an EXPLAIN statement by looking at the statement being explained
+ * EXPLAIN ANALYZE executes its statement, so the inner statement must be read-only too
+ */
+function classifyExplain(tokens: SqlToken[]): ReadOnlyCheck {
+  let index = 0;
+
+  // Parenthesized option list: EXPLAIN (ANALYZE, BUFFERS) ...
+  if (tokens[index]?.value === '(') {
+    let depth = 0;
+    for (; index < tokens.length; index++) {
+      if (tokens[index].value === '(') depth++;
+      if (tokens[index].value === ')') depth--;
+      if (depth === 0) {
+        index++;
+        break;
+      }
+    }
+  }
+
+  // Legacy option keywords: EXPLAIN ANALYZE VERBOSE ...
+  while (tokens[index] && ['ANALYZE', 'ANALYSE', 'VERBOSE'].includes(tokens[index].value)) {
+    index++;
+  }
+
+  const inner = classifyStatement(tokens.slice(index));
+  if (!inner.allowed) {
+    return { ...inner, reason: `EXPLAIN target is not read-only: ${inner.reason}` };
+  }
+
+  return { allowed: true, statementType: 'EXPLAIN' };
+}
+
+/**
+ * Looks inside a read statement for constructs that write or lock
+ */
+function checkStatementBody(statementType: string, tokens: SqlToken[]): ReadOnlyCheck {
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+
+    // Function calls with side effects, optionally schema-qualified or quoted
+    if (next?.value === '(' && (token.type === 'word' || token.type === 'identifier')) {
+      const functionName = token.type === 'identifier'
+        ? token.text.slice(1, -1).replace(/""/g, '"')
+        : token.text.toLowerCase();
+      if (SIDE_EFFECT_FUNCTIONS.has(functionName)) {
+        return refuse(statementType, 'SIDE_EFFECT_FUNCTION', `Function ${functionName}() has side effects and is not allowed in read-only mode`);
+      }
+    }
+
+    if (token.type !== 'word') continue;
+
+    // Data-modifying statements nested in a CTE or following the WITH clause
+    if (['INSERT', 'UPDATE', 'DELETE', 'MERGE'].includes(token.value)) {
+      const startsSubStatement = previous?.value === '(' || (previous?.value === ')' && depth === 0);
+      if (startsSubStatement) {
+        return refuse(statementType, 'DATA_MODIFYING_CTE', `${token.value} inside a ${statementType} statement modifies data and is not allowed in read-only mode`);
+      }
+    }
+
+    // SELECT ... INTO creates a new table
+    if (token.value === 'INTO' && depth === 0) {
+      return refuse(statementType, 'SELECT_INTO', 'SELECT ... INTO creates a table and is not allowed in read-only mode');
+    }
+
+    // Row-locking clauses: FOR UPDATE, FOR NO KEY UPDATE, FOR SHARE, FOR KEY SHARE
+    if (token.value === 'FOR' && next?.type === 'word' && ['UPDATE', 'SHARE', 'NO', 'KEY'].includes(next.value)) {
+      return refuse(statementType, 'LOCKING_CLAUSE', 'Row-locking clauses (FOR UPDATE / FOR SHARE) are not allowed in read-only mode');
+    }
+  }
+
+  return { allowed: true, statementType };
+}
+
+/**
+ * Builds a refusal result
+ */
+function refuse(statementType: string | null, code: ReadOnlyViolation, reason: string): ReadOnlyCheck {
+  return { allowed: false, statementType, code, reason };
+}
@@ -0,0 +1,218 @@
+/**
+ * SQL bind parameters
+ * Validates the values passed for $1..$n placeholders and prepares them
+ * either as real bind parameters or as safely quoted literals
+ */
+import { quoteLiteral, SqlSyntaxError, tokenize } from './sql.js';
+
+/**
+ * A bind parameter with an optional PostgreSQL type hint
+ */
+export interface QueryParameter {
+  value: unknown;
+  // Type the placeholder is cast to, e.g. "uuid" or "timestamptz[]"
+  type?: string;
+}
+
+/**
+ * SQL and values ready to be executed
+ */
+export interface BoundQuery {
+  sql: string;
+  values: unknown[];
+}
+
+/**
+ * Reasons parameters can be refused
+ */
+export type QueryParameterViolation =
+  | 'INVALID_PARAMETERS'
+  | 'INVALID_PARAMETER_TYPE'
+  | 'PARAMETER_COUNT_MISMATCH';
+
+/**
+ * Error raised when parameters don't fit the query
+ */
+export class QueryParameterError extends Error {
+  constructor(
+    message: string,
+    public readonly code: QueryParameterViolation,
+    public readonly details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'QueryParameterError';
+  }
+}
+
+// Type names: an identifier, optionally schema-qualified, or one of the SQL types whose name has
+// several words, with a type modifier and array brackets, e.g. "integer", "numeric(10,2)",
+// "public.mood[]", "double precision", "timestamp(3) with time zone". Hints become casts in the
+// SQL text, so nothing else may pass.
+const IDENT = '[A-Za-z_][\\w$]*';
+const MODIFIER = '\\(\\s*\\d+\\s*(?:,\\s*\\d+\\s*)?\\)';
+const TYPE_HINT = new RegExp(
+  '^(?:' + [
+    `${IDENT}(?:\\.${IDENT})?\\s*(?:${MODIFIER})?`,
+    'double\\s+precision',
+    `(?:character|char|bit)\\s+varying\\s*(?:${MODIFIER})?`,
+    `(?:timestamp|time)\\s*(?:${MODIFIER})?\\s+with(?:out)?\\s+time\\s+zone`,
+  ].join('|') + ')(?:\\s*\\[\\s*\\d*\\s*\\])*$',
+  'i'
+);
+
+/**
+ * Converts the raw `params` argument of a tool into parameters
+ * Each item is either a plain value or an object with `value` and an optional `type`
+ */
+export function normalizeParameters(input: unknown): QueryParameter[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    throw new QueryParameterError('"params" must be an array', 'INVALID_PARAMETERS');
+  }
+
+  return input.map((item, index) => {
+    if (!isParameterObject(item)) {
+      return { value: item };
+    }
+
+    if (item.type !== undefined && (typeof item.type !== 'string' || !TYPE_HINT.test(item.type.trim()))) {
+      throw new QueryParameterError(`Parameter $${index + 1} has an invalid type hint`, 'INVALID_PARAMETER_TYPE', {
+        parameter: index + 1,
+        type: item.type
+      });
+    }
+
+    return { value: item.value, type: item.type?.trim() };
+  });
+}
+
+/**
+ * Checks parameters against the placeholders in a query and applies type hints as casts
+ */
+export function bindParameters(sql: string, params: QueryParameter[]): BoundQuery {
+  const placeholders = findPlaceholders(sql);
+  const expected = placeholders.reduce((max, placeholder) => Math.max(max, placeholder.index), 0);
+
+  if (params.length !== expected) {
+    throw new QueryParameterError(
+      `The query uses ${expected} parameter(s) but ${params.length} value(s) were given`,
+      'PARAMETER_COUNT_MISMATCH',
+      { expected, received: params.length }
+    );
+  }
+
+  const sqlWithCasts = replacePlaceholders(sql, placeholders, (index, text) => {
+    const type = params[index - 1].type;
+    return type ? `${text}::${type}` : text;
+  });
+
+  return {
+    sql: sqlWithCasts,
+    values: params.map((param) => isJsonType(param.type) && typeof param.value !== 'string' && param.value !== null
+      ? JSON.stringify(param.value)
+      : param.value)
+  };
+}
+
+/**
+ * Replaces placeholders with quoted literals
+ * Used by backends that can't send bind parameters separately from the SQL text
+ */
+export function inlineParameters(sql: string, values: unknown[]): string {
+  return replacePlaceholders(sql, findPlaceholders(sql), (index) => {
+    if (index > values.length) {
+      throw new QueryParameterError(`No value given for parameter $${index}`, 'PARAMETER_COUNT_MISMATCH', {
+        expected: index,
+        received: values.length
+      });
+    }
+
+    const text = parameterText(values[index - 1]);
+    return text === null ? 'NULL' : quoteLiteral(text);
+  });
+}
+
+/**
+ * Whether a tool argument item is a { value, type } parameter object
+ */
+function isParameterObject(item: unknown): item is { value: unknown; type?: unknown } {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    return false;
+  }
+
+  const keys = Object.keys(item);
+  return keys.includes('value') && keys.every((key) => key === 'value' || key === 'type');
+}
+
+/**
+ * Whether a type hint names a JSON type, whose values are sent as JSON text
+ */
+function isJsonType(type: string | undefined): boolean {
+  return type !== undefined && /^(pg_catalog\.)?jsonb?$/i.test(type);
+}
+
+/**
+ * Finds the $n placeholders in a query, ignoring any inside strings and comments
+ */
+function findPlaceholders(sql: string): { index: number; start: number; end: number; text: string }[] {
+  try {
+    return tokenize(sql)
+      .filter((token) => token.type === 'parameter')
+      .map((token) => ({ index: Number(token.text.slice(1)), start: token.start, end: token.end, text: token.text }));
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      throw new QueryParameterError(`Could not read parameters: ${error.message}`, 'INVALID_PARAMETERS', {
+        position: error.position
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rebuilds a query with each placeholder replaced
+ */
+function replacePlaceholders(
+  sql: string,
+  placeholders: { index: number; start: number; end: number; text: string }[],
+  replace: (index: number, text: string) => string
+): string {
+  let result = '';
+  let last = 0;
+
+  for (const placeholder of placeholders) {
+    result += sql.slice(last, placeholder.start) + replace(placeholder.index, placeholder.text);
+    last = placeholder.end;
+  }
+
+  return result + sql.slice(last);
+}
+
+/**
+ * Converts a value to the text form PostgreSQL parses for a literal, or null for NULL
+ * Follows the conversions the pg driver applies to bind parameters
+ */
+function parameterText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return arrayLiteral(value);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Builds a PostgreSQL array literal, e.g. {1,"a b",NULL}
+ */
+function arrayLiteral(values: unknown[]): string {
+  const elements = values.map((value) => {
+    if (Array.isArray(value)) return arrayLiteral(value);
+    const text = parameterText(value);
+    return text === null ? 'NULL' : `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  });
+
+  return `{${elements.join(',')}}`;
+}
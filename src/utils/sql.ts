@@ -0,0 +1,272 @@
+/**
+ * SQL lexing utilities
+ * A small tokenizer that understands PostgreSQL quoting and comments,
+ * used to inspect SQL text without executing it
+ */
+
+/**
+ * Kinds of tokens produced by the tokenizer
+ */
+export type SqlTokenType =
+  | 'word'        // keywords and unquoted identifiers
+  | 'identifier'  // "double quoted" identifiers
+  | 'string'      // 'string', E'string' and $tag$dollar quoted$tag$ literals
+  | 'number'
+  | 'parameter'   // $1, $2, ...
+  | 'symbol'      // operators and punctuation
+  | 'semicolon';
+
+/**
+ * A single SQL token
+ */
+export interface SqlToken {
+  type: SqlTokenType;
+  // Raw token text as it appears in the source
+  text: string;
+  // Upper-cased text for words, raw text otherwise
+  value: string;
+  // Offsets of the token in the source string
+  start: number;
+  end: number;
+}
+
+/**
+ * Error raised when SQL text cannot be tokenized
+ */
+export class SqlSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Splits SQL text into tokens, skipping whitespace and comments
+ */
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, start: number, end: number) => {
+    const text = sql.slice(start, end);
+    tokens.push({ type, text, value: type === 'word' ? text.toUpperCase() : text, start, end });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    // Block comment (PostgreSQL allows nesting)
+    if (ch === '/' && next === '*') {
+      const start = i;
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) {
+        throw new SqlSyntaxError('Unterminated block comment', start);
+      }
+      continue;
+    }
+
+    // Escape string constant: E'...' with backslash escapes
+    if ((ch === 'E' || ch === 'e') && next === "'") {
+      const start = i;
+      i = scanQuoted(sql, i + 1, "'", true);
+      push('string', start, i);
+      continue;
+    }
+
+    // Standard string constant
+    if (ch === "'") {
+      const start = i;
+      i = scanQuoted(sql, i, "'", false);
+      push('string', start, i);
+      continue;
+    }
+
+    // Quoted identifier
+    if (ch === '"') {
+      const start = i;
+      i = scanQuoted(sql, i, '"', false);
+      push('identifier', start, i);
+      continue;
+    }
+
+    // Dollar-quoted string or positional parameter
+    if (ch === '$') {
+      const start = i;
+      if (next !== undefined && DIGIT.test(next)) {
+        i++;
+        while (i < sql.length && DIGIT.test(sql[i])) i++;
+        push('parameter', start, i);
+        continue;
+      }
+
+      const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const close = sql.indexOf(tag, i + tag.length);
+        if (close === -1) {
+          throw new SqlSyntaxError('Unterminated dollar-quoted string', start);
+        }
+        i = close + tag.length;
+        push('string', start, i);
+        continue;
+      }
+    }
+
+    // Keywords and identifiers
+    if (WORD_START.test(ch)) {
+      const start = i;
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      push('word', start, i);
+      continue;
+    }
+
+    // Numeric constants
+    if (DIGIT.test(ch) || (ch === '.' && next !== undefined && DIGIT.test(next))) {
+      const start = i;
+      while (i < sql.length && /[0-9._eE]/.test(sql[i])) {
+        // Allow signed exponents such as 1e-5
+        if ((sql[i] === 'e' || sql[i] === 'E') && (sql[i + 1] === '-' || sql[i + 1] === '+')) {
+          i++;
+        }
+        i++;
+      }
+      push('number', start, i);
+      continue;
+    }
+
+    if (ch === ';') {
+      push('semicolon', i, i + 1);
+      i++;
+      continue;
+    }
+
+    // Multi-character operators are kept together (e.g. ::, <=, ->>)
+    const start = i;
+    if (ch === '(' || ch === ')' || ch === ',' || ch === '[' || ch === ']') {
+      i++;
+    } else {
+      while (i < sql.length && /[+\-*/<>=~!@#%^&|`?:.]/.test(sql[i])) {
+        // Stop before the start of a comment
+        if ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')) break;
+        i++;
+      }
+      if (i === start) i++;
+    }
+    push('symbol', start, i);
+  }
+
+  return tokens;
+}
+
+/**
+ * Scans a quoted section starting at `start` and returns the index after the closing quote
+ * Doubled quote characters are treated as escapes
+ */
+function scanQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+
+  throw new SqlSyntaxError(
+    quote === '"' ? 'Unterminated quoted identifier' : 'Unterminated string literal',
+    start
+  );
+}
+
+/**
+ * Splits SQL text into individual statements
+ * Empty statements (e.g. a trailing semicolon) are dropped
+ */
+export function splitStatements(sql: string): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+
+  for (const token of tokenize(sql)) {
+    if (token.type === 'semicolon') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) statements.push(current);
+
+  return statements;
+}
+
+/**
+ * Quotes an identifier (table, column or schema name) for safe use in SQL
+ */
+export function quoteIdent(name: string): string {
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new Error('Identifier must be a non-empty string');
+  }
+  if (name.includes('\0')) {
+    throw new Error('Identifier must not contain null characters');
+  }
+
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a schema-qualified name such as "public"."users"
+ */
+export function quoteQualified(schema: string, name: string): string {
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+/**
+ * Quotes a string literal for safe use in SQL
+ * Assumes standard_conforming_strings is on (the default since PostgreSQL 9.1)
+ */
+export function quoteLiteral(value: string): string {
+  if (value.includes('\0')) {
+    throw new Error('String literal must not contain null characters');
+  }
+
+  return `'${value.replace(/'/g, "''")}'`;
+}
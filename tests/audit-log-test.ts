@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Audit Log Test
+ * Checks recording statements, reading them back with filters and limits, the audit:// filter
+ * parameters and the retention of the daily files
+ */
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../src/config/env.js';
+import { AuditEntry, auditQuery, isAuditEnabled, parseAuditFilter, pruneAuditLog, readAuditLog, runWithAuditContext } from '../src/services/audit-log.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Returns a recorded statement with the given fields
+ */
+function entry(timestamp: string, fields: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: timestamp,
+    timestamp,
+    session: 's1',
+    target: 'default',
+    source: 'tool',
+    origin: 'query',
+    sql: 'SELECT 1',
+    params: [],
+    durationMs: 1,
+    rowCount: 1,
+    error: null,
+    ...fields
+  };
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Audit Log Test");
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+  env.AUDIT_LOG_DIR = dir;
+  const write = (day: string, lines: string[]) => fs.writeFileSync(path.join(dir, `queries-${day}.jsonl`), lines.join('\n') + '\n');
+
+  // The log is on unless it is turned off
+  assert.strictEqual(isAuditEnabled(), true);
+  env.AUDIT_LOG = 'false';
+  assert.strictEqual(isAuditEnabled(), false);
+  auditQuery('SELECT 1')({ rowCount: 1, error: null });
+  assert.deepStrictEqual(fs.readdirSync(dir), []);
+
+  // Recorded statements carry the request context; parameters are reduced to their types
+  env.AUDIT_LOG = '';
+  await runWithAuditContext({ session: 's9', source: 'tool', origin: 'query' }, async () => {
+    auditQuery('SELECT * FROM todos WHERE id = $1', [7, null, ['a']])({ rowCount: 0, error: { message: 'boom' }, durationMs: 5 });
+  });
+  const [recorded] = readAuditLog({ session: 's9' });
+  assert.deepStrictEqual(
+    { ...recorded, id: undefined, timestamp: undefined },
+    {
+      id: undefined,
+      timestamp: undefined,
+      session: 's9',
+      target: 'default',
+      source: 'tool',
+      origin: 'query',
+      sql: 'SELECT * FROM todos WHERE id = $1',
+      params: ['<number>', null, '<array(1)>'],
+      durationMs: 5,
+      rowCount: 0,
+      error: 'boom'
+    }
+  );
+  for (const file of fs.readdirSync(dir)) {
+    fs.rmSync(path.join(dir, file));
+  }
+
+  // Entries over several days, with a partially written line
+  write('2024-06-01', [
+    JSON.stringify(entry('2024-06-01T10:00:00.000Z', { sql: 'SELECT * FROM orders' })),
+    JSON.stringify(entry('2024-06-01T11:00:00.000Z', { error: 'permission denied', target: 'prod' })),
+  ]);
+  write('2024-06-02', [
+    JSON.stringify(entry('2024-06-02T09:00:00.000Z', { source: 'resource', session: 's2' })),
+    '{"id":"partial',
+    JSON.stringify(entry('2024-06-02T12:00:00.000Z')),
+  ]);
+  write('2024-06-03', [JSON.stringify(entry('2024-06-03T08:00:00.000Z', { sql: 'select count(*) from ORDERS' }))]);
+  fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a log file');
+  const ids = (entries: AuditEntry[]) => entries.map((found) => found.timestamp.slice(5, 13));
+
+  // Oldest first, keeping the most recent matches up to the limit
+  assert.deepStrictEqual(ids(readAuditLog()), ['06-01T10', '06-01T11', '06-02T09', '06-02T12', '06-03T08']);
+  assert.deepStrictEqual(ids(readAuditLog({ limit: 2 })), ['06-02T12', '06-03T08']);
+  assert.deepStrictEqual(ids(readAuditLog({ limit: 0 })), ['06-03T08']);
+  assert.deepStrictEqual(readAuditLog({ limit: 5000 }).length, 5);
+
+  // since is inclusive and until exclusive, across file boundaries
+  assert.deepStrictEqual(ids(readAuditLog({ since: '2024-06-01T11:00:00.000Z', until: '2024-06-02T12:00:00.000Z' })), ['06-01T11', '06-02T09']);
+  assert.deepStrictEqual(ids(readAuditLog({ since: '2024-06-03T00:00:00.000Z' })), ['06-03T08']);
+  assert.deepStrictEqual(ids(readAuditLog({ until: '2024-06-01T10:30:00.000Z' })), ['06-01T10']);
+
+  // The other filters
+  assert.deepStrictEqual(ids(readAuditLog({ errors: true })), ['06-01T11']);
+  assert.deepStrictEqual(readAuditLog({ errors: false }).length, 4);
+  assert.deepStrictEqual(ids(readAuditLog({ target: 'prod' })), ['06-01T11']);
+  assert.deepStrictEqual(ids(readAuditLog({ source: 'resource', session: 's2' })), ['06-02T09']);
+  assert.deepStrictEqual(ids(readAuditLog({ contains: 'orders' })), ['06-01T10', '06-03T08']);
+
+  // Filters from audit:// URIs
+  assert.deepStrictEqual(parseAuditFilter(new URLSearchParams('')), {
+    session: undefined, target: undefined, source: undefined, origin: undefined, since: undefined,
+    until: undefined, errors: undefined, contains: undefined, limit: undefined
+  });
+  const parsed = parseAuditFilter(new URLSearchParams('session=current&source=tool&errors=false&since=2024-06-01&until=2024-06-02T12:00:00%2B02:00&limit=20&contains=orders'));
+  assert.deepStrictEqual(
+    [parsed.session, parsed.source, parsed.errors, parsed.since, parsed.until, parsed.limit, parsed.contains],
+    ['current', 'tool', false, '2024-06-01T00:00:00.000Z', '2024-06-02T10:00:00.000Z', 20, 'orders']
+  );
+  for (const query of ['source=cron', 'since=yesterday', 'until=2024-13-01', 'errors=yes', 'limit=0', 'limit=ten', 'limit=2.5']) {
+    assert.throws(() => parseAuditFilter(new URLSearchParams(query)), Error, query);
+  }
+
+  // Retention deletes whole days older than AUDIT_RETENTION_DAYS; 0 keeps everything
+  env.AUDIT_RETENTION_DAYS = '0';
+  pruneAuditLog(new Date('2025-01-01T00:00:00Z'));
+  assert.strictEqual(readAuditLog().length, 5);
+  env.AUDIT_RETENTION_DAYS = '1';
+  pruneAuditLog(new Date('2024-06-03T12:00:00Z'));
+  assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['notes.txt', 'queries-2024-06-02.jsonl', 'queries-2024-06-03.jsonl']);
+  env.AUDIT_RETENTION_DAYS = '';
+  pruneAuditLog(new Date('2024-07-03T12:00:00Z'));
+  assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['notes.txt', 'queries-2024-06-03.jsonl']);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  logger.info("✅ Audit log tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * ERD Test
+ * Checks that diagram URIs are parsed and foreign key graphs are rendered as Mermaid and DOT
+ */
+import assert from 'assert';
+import { ErdError, parseErdOptions, renderErd } from '../src/services/erd.js';
+import { parseDiagramUri, parseResourceUri } from '../src/services/resource-uri.js';
+import type { ColumnDescription, TableDescription } from '../src/services/introspection.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Builds a column with the usual defaults
+ */
+function column(name: string, type: string, extra: Partial<ColumnDescription> = {}): ColumnDescription {
+  return { name, type, nullable: true, default: null, identity: null, generated: null, comment: null, ...extra };
+}
+
+/**
+ * Builds a table with the usual defaults
+ */
+function table(name: string, extra: Partial<TableDescription> = {}): TableDescription {
+  return {
+    schema: 'public', name, kind: 'table', comment: null, estimatedRowCount: null,
+    columns: [], primaryKey: null, foreignKeys: [], referencedBy: [],
+    uniqueConstraints: [], checkConstraints: [], indexes: [],
+    ...extra
+  };
+}
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("ERD Test");
+
+  // Diagram URIs
+  assert.deepStrictEqual(parseDiagramUri('supabase://abc.supabase.co/schemas/public/erd'), { schema: 'public' });
+  assert.deepStrictEqual(
+    parseDiagramUri('supabase://abc.supabase.co/schemas/app/tables/order%20items/erd?depth=2&format=dot'),
+    { schema: 'app', table: 'order items' }
+  );
+  assert.strictEqual(parseDiagramUri('supabase://abc.supabase.co/schemas/public/tables/erd'), null);
+  assert.strictEqual(parseDiagramUri('supabase://abc.supabase.co/schemas/public/views/v/erd'), null);
+  // Diagram URIs aren't database object URIs
+  assert.strictEqual(parseResourceUri('supabase://abc.supabase.co/schemas/public/erd'), null);
+  assert.strictEqual(parseResourceUri('supabase://abc.supabase.co/schemas/public/tables/teams/erd'), null);
+
+  // Options
+  assert.deepStrictEqual(parseErdOptions(new URLSearchParams('')), { format: 'mermaid', depth: 1 });
+  assert.deepStrictEqual(parseErdOptions(new URLSearchParams('format=dot&depth=0')), { format: 'dot', depth: 0 });
+  assert.throws(() => parseErdOptions(new URLSearchParams('format=svg')), (error: any) => error instanceof ErdError && error.code === 'INVALID_FORMAT');
+  assert.throws(() => parseErdOptions(new URLSearchParams('depth=-1')), (error: any) => error.code === 'INVALID_DEPTH');
+  assert.throws(() => parseErdOptions(new URLSearchParams('depth=1.5')), (error: any) => error.code === 'INVALID_DEPTH');
+
+  const teams = table('teams', {
+    columns: [column('id', 'integer', { nullable: false }), column('name', 'character varying(100)', { comment: 'Display "name"' })],
+    primaryKey: { name: 'teams_pkey', columns: ['id'] },
+    uniqueConstraints: [{ name: 'teams_name_key', columns: ['name'] }]
+  });
+  const people = table('people', {
+    columns: [column('id', 'bigint', { nullable: false }), column('team_id', 'integer', { nullable: false }), column('owner_id', 'uuid')],
+    primaryKey: { name: 'people_pkey', columns: ['id'] },
+    foreignKeys: [
+      {
+        name: 'people_team_id_fkey', columns: ['team_id'], referencedSchema: 'public', referencedTable: 'teams',
+        referencedColumns: ['id'], onUpdate: 'NO ACTION', onDelete: 'CASCADE',
+        definition: 'FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE'
+      },
+      {
+        name: 'people_owner_id_fkey', columns: ['owner_id'], referencedSchema: 'auth', referencedTable: 'users',
+        referencedColumns: ['id'], onUpdate: 'NO ACTION', onDelete: 'NO ACTION',
+        definition: 'FOREIGN KEY (owner_id) REFERENCES auth.users(id)'
+      }
+    ]
+  });
+
+  // Names are bare while a diagram stays in one schema
+  assert.strictEqual(renderErd([teams], 'mermaid'), [
+    'erDiagram',
+    '  teams {',
+    '    integer id PK',
+    `    character_varying(100) name UK "Display 'name'"`,
+    '  }',
+    ''
+  ].join('\n'));
+
+  // Referenced tables outside the diagram appear by name, qualified once schemas mix
+  const mermaid = renderErd([teams, people], 'mermaid');
+  assert.ok(mermaid.includes('  "public.teams" {'));
+  assert.ok(mermaid.includes('    integer team_id FK\n'));
+  assert.ok(mermaid.includes('  "public.teams" ||--o{ "public.people" : "team_id"'));
+  assert.ok(mermaid.includes('  "auth.users" |o--o{ "public.people" : "owner_id"'));
+  assert.ok(!mermaid.includes('"auth.users" {'));
+
+  const dot = renderErd([teams, people], 'dot');
+  assert.ok(dot.startsWith('digraph erd {\n'));
+  assert.ok(dot.includes('<td port="c1" align="left">name</td><td align="left">character varying(100)</td><td>UK</td>'));
+  assert.ok(dot.includes('  "auth.users" [shape=box, style=dashed];'));
+  assert.ok(dot.includes('  "public.people":c1 -> "public.teams":c0 [label="team_id", arrowtail=crowodot, arrowhead=teetee];'));
+  assert.ok(dot.includes('  "public.people":c2 -> "auth.users" [label="owner_id", arrowtail=crowodot, arrowhead=teeodot];'));
+  assert.ok(dot.endsWith('}\n'));
+
+  // A foreign key over a unique column is one-to-one
+  const profile = table('profile', {
+    columns: [column('team_id', 'integer', { nullable: false })],
+    primaryKey: { name: 'profile_pkey', columns: ['team_id'] },
+    foreignKeys: [{
+      name: 'profile_team_id_fkey', columns: ['team_id'], referencedSchema: 'public', referencedTable: 'teams',
+      referencedColumns: ['id'], onUpdate: 'NO ACTION', onDelete: 'NO ACTION', definition: 'FOREIGN KEY (team_id) REFERENCES teams(id)'
+    }]
+  });
+  assert.ok(renderErd([teams, profile], 'mermaid').includes('  teams ||--o| profile : "team_id"'));
+  assert.ok(renderErd([teams, profile], 'mermaid').includes('    integer team_id PK, FK\n'));
+
+  logger.info("✅ ERD tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * HTTP Transport Test
+ * Checks how the transport options are read from flags and settings, and that the HTTP transport
+ * requires the bearer token everywhere except /health, refuses other hosts and origins, and
+ * routes requests to sessions
+ */
+import assert from 'assert';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { env, EnvironmentVariables } from '../src/config/env.js';
+import { getServerOptions } from '../src/config/server-options.js';
+import { checkRequestOrigin, isLoopbackHost, startHttpTransport } from '../src/services/http-transport.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Reads the server options from the given flags and settings
+ */
+function options(argv: string[], settings: Record<string, string> = {}) {
+  return getServerOptions(argv, { ...env, ...settings } as EnvironmentVariables);
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("HTTP Transport Test");
+
+  // Defaults, settings, and flags that take precedence over them
+  assert.deepStrictEqual(options([]), { transport: 'stdio', host: '127.0.0.1', port: 3000, authToken: null, allowedOrigins: [] });
+  const settings = {
+    MCP_TRANSPORT: 'http',
+    MCP_HTTP_HOST: '0.0.0.0',
+    MCP_HTTP_PORT: '8080',
+    MCP_AUTH_TOKEN: 'secret',
+    MCP_HTTP_ALLOWED_ORIGINS: ' https://app.example.com, ,http://localhost:5173'
+  };
+  const allowedOrigins = ['https://app.example.com', 'http://localhost:5173'];
+  assert.deepStrictEqual(options([], settings), { transport: 'http', host: '0.0.0.0', port: 8080, authToken: 'secret', allowedOrigins });
+  assert.deepStrictEqual(options(['--transport', 'stdio', '--host=::1', '--port', '0'], settings),
+    { transport: 'stdio', host: '::1', port: 0, authToken: 'secret', allowedOrigins });
+
+  // Invalid values and unknown flags are rejected; the token can't be passed as a flag
+  assert.throws(() => options(['--transport', 'ws']), /Unknown transport "ws"/);
+  for (const port of ['abc', '-1', '65536', '80.5']) {
+    assert.throws(() => options([`--port=${port}`]), new RegExp(`Invalid port "${port}"`), port);
+  }
+  assert.throws(() => options([], { MCP_HTTP_PORT: '1.5' }), /Invalid port "1.5"/);
+  assert.throws(() => options(['--auth-token', 'secret']), /auth-token/);
+
+  // Loopback names and addresses
+  assert.deepStrictEqual(['localhost', 'LOCALHOST', 'app.localhost', '127.0.0.1', '127.1.2.3', '::1', '[::1]'].filter(isLoopbackHost).length, 7);
+  assert.deepStrictEqual(['0.0.0.0', '::', '192.168.1.5', 'localhost.example.com', '127.0.0.1.nip.io'].filter(isLoopbackHost), []);
+
+  // On a loopback address only loopback names are answered, so rebound DNS names are refused
+  const check = (headers: Record<string, string>, host = '127.0.0.1', allowed: string[] = []) =>
+    checkRequestOrigin({ headers }, host, allowed);
+  for (const host of ['127.0.0.1:3000', 'localhost:3000', '[::1]:3000', 'localhost']) {
+    assert.strictEqual(check({ host }), null, host);
+  }
+  assert.strictEqual(check({ host: 'attacker.example:3000' }), 'Host "attacker.example:3000" is not allowed');
+  assert.strictEqual(check({}), 'Missing or invalid Host header');
+
+  // Browsers must call from a loopback page or a listed origin
+  assert.strictEqual(check({ host: 'localhost:3000', origin: 'http://localhost:5173' }), null);
+  assert.strictEqual(check({ host: 'localhost:3000', origin: 'http://127.0.0.1:3000' }), null);
+  assert.strictEqual(check({ host: 'localhost:3000', origin: 'https://evil.example' }), 'Origin "https://evil.example" is not allowed');
+  assert.strictEqual(check({ host: 'localhost:3000', origin: 'null' }), 'Origin "null" is not allowed');
+  assert.strictEqual(check({ host: 'localhost:3000', origin: 'https://App.example.com' }, '127.0.0.1', ['https://app.example.com/']), null);
+
+  // A specific address answers to that address; every interface answers to the host it was called by
+  assert.strictEqual(check({ host: '10.0.0.5:8080', origin: 'http://10.0.0.5:8080' }, '10.0.0.5'), null);
+  assert.strictEqual(check({ host: 'localhost:8080' }, '10.0.0.5'), 'Host "localhost:8080" is not allowed');
+  assert.strictEqual(check({ host: 'mcp.internal:8080', origin: 'https://mcp.internal' }, '0.0.0.0'), null);
+  assert.strictEqual(check({ host: 'mcp.internal:8080', origin: 'https://other.internal' }, '::'), 'Origin "https://other.internal" is not allowed');
+
+  // Without a token the server only listens on loopback addresses
+  const createServer = () => new Server({ name: 'http-transport-test', version: '0.0.0' }, { capabilities: {} });
+  for (const host of ['0.0.0.0', '::', '192.168.1.5']) {
+    await assert.rejects(startHttpTransport(createServer, { host, port: 0, authToken: null }), /MCP_AUTH_TOKEN must be set/, host);
+  }
+  const open = await startHttpTransport(createServer, { host: '127.0.0.1', port: 0, authToken: null });
+  try {
+    assert.strictEqual((await fetch(`${open.url}/messages?sessionId=nope`, { method: 'POST', body: '{}' })).status, 404);
+    const rebound = await fetch(`${open.url}/sse`, { headers: { origin: 'http://attacker.example' } });
+    assert.strictEqual(rebound.status, 403);
+    assert.deepStrictEqual(await rebound.json(), { error: 'Origin "http://attacker.example" is not allowed' });
+  } finally {
+    await open.close();
+  }
+
+  // A server on a free port, with one MCP server per session
+  let created = 0;
+  const transport = await startHttpTransport(() => {
+    created++;
+    return new Server({ name: 'http-transport-test', version: '0.0.0' }, { capabilities: {} });
+  }, { host: '127.0.0.1', port: 0, authToken: 'secret' });
+  assert.match(transport.url, /^http:\/\/127\.0\.0\.1:\d+$/);
+  assert.notStrictEqual(transport.url, 'http://127.0.0.1:0');
+
+  const request = (path: string, init: RequestInit = {}) => fetch(`${transport.url}${path}`, init);
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  try {
+    // Health checks need no token, but are refused to other origins like everything else
+    assert.strictEqual((await request('/health', { headers: { origin: 'https://evil.example' } })).status, 403);
+    const health = await request('/health');
+    assert.strictEqual(health.status, 200);
+    assert.deepStrictEqual(await health.json(), { status: 'ok', sessions: 0 });
+
+    // Everything else needs the bearer token
+    for (const headers of [{}, bearer('wrong'), bearer('secret-but-longer'), { authorization: 'Basic secret' }]) {
+      const denied = await request('/sse', { headers });
+      assert.strictEqual(denied.status, 401, JSON.stringify(headers));
+      assert.strictEqual(denied.headers.get('www-authenticate'), 'Bearer');
+    }
+    assert.strictEqual(created, 0);
+
+    // Messages for unknown sessions and unknown paths
+    const unknown = await request('/messages?sessionId=nope', { method: 'POST', headers: { ...bearer('secret'), 'content-type': 'application/json' }, body: '{}' });
+    assert.strictEqual(unknown.status, 404);
+    assert.deepStrictEqual(await unknown.json(), { error: 'Unknown or closed session' });
+    assert.strictEqual((await request('/other', { headers: { authorization: 'bearer  secret ' } })).status, 404);
+
+    // An event stream opens a session until the client disconnects
+    const client = new AbortController();
+    const stream = await request('/sse', { headers: bearer('secret'), signal: client.signal });
+    assert.strictEqual(stream.status, 200);
+    assert.strictEqual(stream.headers.get('content-type'), 'text/event-stream');
+    assert.deepStrictEqual([created, transport.sessionCount()], [1, 1]);
+    assert.deepStrictEqual(await (await request('/health')).json(), { status: 'ok', sessions: 1 });
+
+    client.abort();
+    await stream.body?.cancel().catch(() => {});
+    for (let i = 0; i < 50 && transport.sessionCount() > 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.strictEqual(transport.sessionCount(), 0);
+  } finally {
+    await transport.close();
+  }
+
+  logger.info("✅ HTTP transport tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+/**
+ * Identity Test
+ * Checks how query identities are read from tool arguments, that cost confirmations are bound to
+ * them, and how the rows of two identities compare
+ */
+import assert from 'assert';
+import { fingerprintQuery } from '../src/services/cost-guard.js';
+import { compareRows, IdentityError, parseIdentity } from '../src/services/identity.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Identity Test");
+
+  // Identities: none without a role or claims; the role defaults to the role claim, then authenticated
+  assert.strictEqual(parseIdentity(undefined, undefined), null);
+  assert.deepStrictEqual(parseIdentity('anon', undefined), { role: 'anon', claims: { role: 'anon' } });
+  assert.deepStrictEqual(parseIdentity(undefined, { sub: 'u1' }), { role: 'authenticated', claims: { sub: 'u1', role: 'authenticated' } });
+  assert.deepStrictEqual(parseIdentity(null, { sub: 'u1', role: 'service_role' }), { role: 'service_role', claims: { sub: 'u1', role: 'service_role' } });
+  assert.deepStrictEqual(parseIdentity('anon', { role: 'anon' }), { role: 'anon', claims: { role: 'anon' } });
+  const invalid = (role: unknown, claims: unknown) => assert.throws(() => parseIdentity(role, claims),
+    (error: any) => error instanceof IdentityError && error.code === 'INVALID_IDENTITY');
+  invalid('', undefined);
+  invalid(42, undefined);
+  invalid(undefined, ['sub']);
+  invalid(undefined, 'sub=u1');
+  invalid(undefined, { role: 7 });
+  invalid('anon', { role: 'authenticated' });
+
+  // Whole rows: duplicates are matched one for one
+  const byRow = compareRows([{ id: 1 }, { id: 2 }, { id: 2 }], [{ id: 2 }, { id: 3 }]);
+  assert.deepStrictEqual(byRow, { key: null, inBoth: 1, onlyInFirst: [{ id: 1 }, { id: 2 }], onlyInSecond: [{ id: 3 }], changed: [] });
+
+  // With a key: matched rows with other differences are changed
+  const byKey = compareRows(
+    [{ id: 1, title: 'a' }, { id: 2, title: 'b' }, { id: 3, title: 'c' }],
+    [{ id: 2, title: 'b' }, { id: 3, title: 'C' }, { id: 4, title: 'd' }],
+    ['id']
+  );
+  assert.deepStrictEqual(byKey, {
+    key: ['id'],
+    inBoth: 1,
+    onlyInFirst: [{ id: 1, title: 'a' }],
+    onlyInSecond: [{ id: 4, title: 'd' }],
+    changed: [{ first: { id: 3, title: 'c' }, second: { id: 3, title: 'C' } }],
+  });
+
+  // The same rows compare as identical
+  assert.deepStrictEqual(compareRows([{ id: 1 }], [{ id: 1 }], []), { key: null, inBoth: 1, onlyInFirst: [], onlyInSecond: [], changed: [] });
+
+  // A cost confirmation for one identity doesn't run the query as another, or as the server role
+  const anon = parseIdentity('anon', undefined)!;
+  const user = parseIdentity(undefined, { sub: 'u1' })!;
+  const fingerprints = [undefined, anon, user, parseIdentity(undefined, { sub: 'u2' })!]
+    .map((as) => fingerprintQuery('default', 'SELECT * FROM todos', [], as));
+  assert.strictEqual(new Set(fingerprints).size, 4);
+  assert.strictEqual(fingerprintQuery('default', 'SELECT * FROM todos', [], parseIdentity(undefined, { sub: 'u1' })!), fingerprints[2]);
+  assert.notStrictEqual(fingerprintQuery('other', 'SELECT * FROM todos', [], anon), fingerprints[1]);
+
+  logger.info("✅ identity tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Introspection Test
+ * Checks that the catalog queries behind the schema resources take names only as quoted
+ * literals and stay single read-only statements, and which schemas they expose
+ */
+import assert from 'assert';
+import { env } from '../src/config/env.js';
+import {
+  buildDescribeTableSql,
+  buildListObjectsSql,
+  globToRegExp,
+  isSchemaAllowed,
+  schemaFilterSql
+} from '../src/services/introspection.js';
+import { classifyReadOnly } from '../src/utils/sql-classifier.js';
+import { quoteLiteral } from '../src/utils/sql.js';
+import logger from '../src/utils/logging.js';
+
+// Names that would break out of a naively built query
+const HOSTILE_NAMES = ["x'; DROP TABLE users; --", "o'brien", 'back\\slash', 'Mixed Case', '$$dollar$$', 'semi;colon'];
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Introspection Test");
+
+  // Literals double their quotes and keep backslashes, as with standard_conforming_strings
+  assert.strictEqual(quoteLiteral("o'brien"), "'o''brien'");
+  assert.strictEqual(quoteLiteral('back\\slash'), "'back\\slash'");
+  assert.strictEqual(quoteLiteral(''), "''");
+  assert.throws(() => quoteLiteral('nul\0byte'), /null characters/);
+
+  // Table descriptions look the relation up by its literal schema and name
+  for (const name of HOSTILE_NAMES) {
+    const sql = buildDescribeTableSql('app', name);
+    assert.ok(sql.includes(`c.relname = ${quoteLiteral(name)}`), name);
+    assert.ok(sql.includes(`n.nspname = 'app'`), name);
+    assert.ok(classifyReadOnly(sql).allowed, name);
+
+    const inSchema = buildDescribeTableSql(name, 'todos');
+    assert.ok(inSchema.includes(`n.nspname = ${quoteLiteral(name)}`), name);
+    assert.ok(classifyReadOnly(inSchema).allowed, name);
+  }
+
+  // Every part of the description is present
+  const sql = buildDescribeTableSql('public', 'todos');
+  for (const key of ['columns', 'primaryKey', 'foreignKeys', 'referencedBy', 'uniqueConstraints', 'checkConstraints', 'indexes', 'estimatedRowCount', 'comment']) {
+    assert.ok(sql.includes(`'${key}'`), key);
+  }
+
+  // Schema patterns: exact names and * wildcards, with regex characters taken literally
+  assert.ok(globToRegExp('app_*').test('app_billing'));
+  assert.ok(!globToRegExp('app_*').test('myapp_billing'));
+  assert.ok(!globToRegExp('a.c').test('abc'));
+  assert.ok(globToRegExp('a+(b)').test('a+(b)'));
+
+  // System schemas are always hidden; the deny list wins over the allow list
+  assert.deepStrictEqual(['public', 'auth', 'pg_catalog', 'information_schema', 'pg_toast', 'pg_temp_3', 'pg_toast_temp_3'].filter(isSchemaAllowed), ['public', 'auth']);
+  env.SCHEMA_ALLOWLIST = 'public, app_*';
+  env.SCHEMA_DENYLIST = 'app_secret';
+  assert.deepStrictEqual(['public', 'auth', 'app_billing', 'app_secret'].filter(isSchemaAllowed), ['public', 'app_billing']);
+
+  // The same lists in SQL, with LIKE wildcards in names escaped
+  env.SCHEMA_ALLOWLIST = "app_*, o'neil";
+  env.SCHEMA_DENYLIST = '100%';
+  const filter = schemaFilterSql('n.nspname');
+  assert.ok(filter.includes("n.nspname !~ '^pg_(toast_)?temp_'"));
+  assert.ok(filter.includes("NOT (n.nspname LIKE ANY (ARRAY['pg\\_catalog', 'information\\_schema', 'pg\\_toast', '100\\%']::text[]))"), filter);
+  assert.ok(filter.includes("n.nspname LIKE ANY (ARRAY['app\\_%', 'o''neil']::text[])"), filter);
+  env.SCHEMA_ALLOWLIST = '';
+  env.SCHEMA_DENYLIST = '';
+  assert.ok(!schemaFilterSql('n.nspname').includes(' AND n.nspname LIKE ANY'));
+
+  // Object listings are paginated with whole numbers
+  const list = buildListObjectsSql(101.7, 200.2);
+  assert.ok(list.trimEnd().endsWith('LIMIT 101 OFFSET 200'));
+  assert.ok(classifyReadOnly(list).allowed);
+
+  logger.info("✅ Introspection tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Masking Test
+ * Checks that masking policies are validated and applied to columns by name, type and table,
+ * and that sample resource URIs and options are parsed
+ */
+import assert from 'assert';
+import { maskRows, maskValue, MaskingError, parseMaskingPolicy } from '../src/services/masking.js';
+import { parseSampleOptions, SampleError } from '../src/services/table-sample.js';
+import { parseSampleUri } from '../src/services/resource-uri.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Masking Test");
+
+  // Policy validation
+  const invalid = (content: unknown) => assert.throws(() => parseMaskingPolicy(content),
+    (error: any) => error instanceof MaskingError && error.code === 'INVALID_MASKING_POLICY');
+  invalid(null);
+  invalid({ rules: [{ column: 'email', action: 'scramble' }] });
+  invalid({ rules: [{ action: 'null' }] });
+  invalid({ rules: [{ column: 'email', action: 'partial', showLast: -1 }] });
+  invalid({ rules: [{ column: '', action: 'null' }] });
+
+  const policy = parseMaskingPolicy({
+    rules: [
+      { column: '*password*', action: 'null' },
+      { table: 'public.payments', column: 'card_*', action: 'partial' },
+      { table: 'profiles', column: 'email', action: 'partial', showFirst: 2, showLast: 0 },
+      { type: 'inet', action: 'hash' },
+      { type: 'character varying', column: 'phone', action: 'partial', showFirst: 1, showLast: 2 }
+    ]
+  });
+  // Partial reveal defaults to the last four characters
+  assert.deepStrictEqual(policy.rules[1], { table: 'public.payments', column: 'card_*', action: 'partial', showFirst: 0, showLast: 4 });
+
+  // Values
+  assert.strictEqual(maskValue(policy.rules[1], '4242424242424242'), '****4242');
+  assert.strictEqual(maskValue(policy.rules[2], 'ann@example.com'), 'an****');
+  assert.strictEqual(maskValue(policy.rules[1], '4242'), '****');
+  assert.strictEqual(maskValue(policy.rules[0], 'secret'), null);
+  assert.strictEqual(maskValue(policy.rules[3], null), null);
+  const hash = maskValue(policy.rules[3], '10.0.0.1');
+  assert.match(String(hash), /^sha256:[0-9a-f]{16}$/);
+  assert.strictEqual(maskValue(policy.rules[3], '10.0.0.1'), hash);
+  assert.notStrictEqual(maskValue(policy.rules[3], '10.0.0.2'), hash);
+
+  // Rows: names match case-insensitively, types without modifiers, tables by name or schema.name
+  const columns = [
+    { name: 'id', type: 'integer' },
+    { name: 'Password_Hash', type: 'text' },
+    { name: 'card_number', type: 'text' },
+    { name: 'email', type: 'text' },
+    { name: 'ip', type: 'inet' },
+    { name: 'phone', type: 'character varying(20)' }
+  ];
+  const rows = [{ id: 1, Password_Hash: 'x', card_number: '4242424242424242', email: 'ann@example.com', ip: null, phone: '5551234' }];
+
+  const payments = maskRows(policy, columns, rows, { schema: 'public', name: 'payments' });
+  assert.deepStrictEqual(payments.masked, ['Password_Hash', 'card_number', 'ip', 'phone']);
+  assert.deepStrictEqual(payments.rows, [{ id: 1, Password_Hash: null, card_number: '****4242', email: 'ann@example.com', ip: null, phone: '5****34' }]);
+  // The input rows are left alone
+  assert.strictEqual(rows[0].card_number, '4242424242424242');
+
+  const profiles = maskRows(policy, columns, rows, { schema: 'app', name: 'profiles' });
+  assert.deepStrictEqual(profiles.masked, ['Password_Hash', 'email', 'ip', 'phone']);
+  assert.strictEqual(profiles.rows[0].email, 'an****');
+  assert.strictEqual(profiles.rows[0].card_number, '4242424242424242');
+
+  // Without a table, as for query results, table-scoped rules match any table
+  assert.deepStrictEqual(maskRows(policy, columns, rows).masked, ['Password_Hash', 'card_number', 'email', 'ip', 'phone']);
+  assert.deepStrictEqual(maskRows(policy, [{ name: 'id', type: 'integer' }], [{ id: 1 }]), { rows: [{ id: 1 }], masked: [] });
+
+  // Sample URIs
+  assert.deepStrictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/public/tables/users/sample?limit=5'),
+    { kind: 'table', schema: 'public', name: 'users' });
+  assert.deepStrictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/app/views/active%20users/sample'),
+    { kind: 'view', schema: 'app', name: 'active users' });
+  assert.strictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/public/functions/f()/sample'), null);
+  assert.strictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/public/tables/users'), null);
+
+  // Sample options
+  assert.deepStrictEqual(parseSampleOptions(new URLSearchParams('')), { limit: 10, method: 'first', percent: null });
+  assert.deepStrictEqual(parseSampleOptions(new URLSearchParams('limit=3&method=bernoulli&percent=0.5')),
+    { limit: 3, method: 'bernoulli', percent: 0.5 });
+  const rejects = (query: string, code: string) => assert.throws(() => parseSampleOptions(new URLSearchParams(query)),
+    (error: any) => error instanceof SampleError && error.code === code);
+  rejects('limit=0', 'INVALID_LIMIT');
+  rejects('limit=101', 'INVALID_LIMIT');
+  rejects('method=random', 'INVALID_METHOD');
+  rejects('method=system&percent=150', 'INVALID_PERCENT');
+
+  logger.info("✅ Masking tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+/**
+ * Migrations Test
+ * Checks how migration files are read and compared with the recorded migrations, which ones a
+ * plan picks, and the refusal of files that manage transactions themselves
+ */
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../src/config/env.js';
+import {
+  checkTransactionControl,
+  compareMigrations,
+  MigrationError,
+  readMigrationFiles,
+  selectPendingMigrations
+} from '../src/services/migrations.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Migrations Test");
+
+  // Files are read in name order, numbers compared by value, with line endings normalized
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-test-'));
+  fs.writeFileSync(path.join(dir, '10_add_index.sql'), 'CREATE INDEX ON todos (done);\r\n');
+  fs.writeFileSync(path.join(dir, '2_add_todos.sql'), 'CREATE TABLE todos (id int);\n');
+  fs.writeFileSync(path.join(dir, '1_init.sql'), 'CREATE SCHEMA app;\n');
+  fs.writeFileSync(path.join(dir, 'README.md'), 'not a migration');
+  env.MIGRATIONS_DIR = dir;
+  const files = readMigrationFiles();
+  assert.deepStrictEqual(files.map((file) => file.version), ['1_init', '2_add_todos', '10_add_index']);
+  fs.writeFileSync(path.join(dir, '10_add_index.sql'), 'CREATE INDEX ON todos (done);\n');
+  assert.strictEqual(readMigrationFiles()[2].checksum, files[2].checksum);
+  fs.rmSync(dir, { recursive: true, force: true });
+  assert.throws(() => readMigrationFiles(), (error: any) => error instanceof MigrationError && error.code === 'MIGRATIONS_DIR_NOT_FOUND');
+
+  // Nothing recorded: every file is pending, in order
+  const fresh = compareMigrations(files, new Map());
+  assert.deepStrictEqual(fresh.counts, { applied: 0, pending: 3, drifted: 0, missing: 0 });
+  assert.ok(fresh.migrations.every((entry) => entry.state === 'pending' && !entry.outOfOrder));
+
+  // Applied, drifted and missing migrations, and a pending one sorting before an applied one
+  const file = (version: string, checksum: string) => ({ version, file: `${version}.sql`, checksum, bytes: 1, sql: 'SELECT 1' });
+  const local = [file('1_init', 'a'), file('2_add_todos', 'b'), file('3_add_teams', 'c'), file('5_add_tags', 'e')];
+  const recorded = new Map([
+    ['1_init', { checksum: 'a', appliedAt: '2024-01-01' }],
+    ['3_add_teams', { checksum: 'edited', appliedAt: '2024-01-02' }],
+    ['4_dropped', { checksum: 'd', appliedAt: '2024-01-03' }],
+  ]);
+  const status = compareMigrations(local, recorded);
+  assert.deepStrictEqual(status.counts, { applied: 1, pending: 2, drifted: 1, missing: 1 });
+  assert.deepStrictEqual(status.migrations.map((entry) => [entry.version, entry.state, entry.outOfOrder === true]), [
+    ['1_init', 'applied', false],
+    ['2_add_todos', 'pending', true],
+    ['3_add_teams', 'drifted', false],
+    ['4_dropped', 'missing', false],
+    ['5_add_tags', 'pending', false],
+  ]);
+  assert.deepStrictEqual(status.migrations[2], {
+    version: '3_add_teams', state: 'drifted', checksum: 'c', appliedChecksum: 'edited', appliedAt: '2024-01-02'
+  });
+
+  // Plans list the pending migrations up to a version, and aren't ready while there is drift
+  const plan = selectPendingMigrations(status.migrations, local);
+  assert.deepStrictEqual(plan.pending.map((entry) => [entry.version, entry.outOfOrder]), [['2_add_todos', true], ['5_add_tags', false]]);
+  assert.deepStrictEqual(plan.drift.map((entry) => entry.version), ['3_add_teams', '4_dropped']);
+  assert.strictEqual(plan.ready, false);
+  assert.deepStrictEqual(selectPendingMigrations(status.migrations, local, '3_add_teams').pending.map((entry) => entry.version), ['2_add_todos']);
+  assert.throws(() => selectPendingMigrations(status.migrations, local, '9_unknown'),
+    (error: any) => error instanceof MigrationError && error.code === 'UNKNOWN_MIGRATION');
+
+  const clean = compareMigrations(local.slice(0, 2), new Map([['1_init', { checksum: 'a', appliedAt: '2024-01-01' }]]));
+  assert.deepStrictEqual(selectPendingMigrations(clean.migrations, local), {
+    pending: [{ version: '2_add_todos', file: '2_add_todos.sql', checksum: 'b', bytes: 1, outOfOrder: false }],
+    drift: [],
+    ready: true,
+  });
+
+  // Migrations run in a transaction of their own, so they may not control it
+  const refused = (sql: string) => assert.throws(() => checkTransactionControl({ version: 'v', file: 'v.sql', sql }),
+    (error: any) => error instanceof MigrationError && error.code === 'INVALID_MIGRATION' && error.details.version === 'v');
+  refused('BEGIN; CREATE TABLE t (id int); COMMIT;');
+  refused('create table t (id int);\nrollback;');
+  refused('START TRANSACTION; SELECT 1; END;');
+  refused('SELECT 1; abort;');
+  checkTransactionControl({ version: 'v', file: 'v.sql', sql: 'CREATE TABLE t (id int);' });
+  checkTransactionControl({ version: 'v', file: 'v.sql', sql: "DO $$ BEGIN PERFORM 1; END $$;\nCOMMENT ON TABLE t IS 'COMMIT';" });
+  checkTransactionControl({ version: 'v', file: 'v.sql', sql: "SELECT 'unterminated" });
+
+  logger.info("✅ Migrations tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Plan Summary Test
+ * Checks that EXPLAIN plans are condensed into the expected findings
+ */
+import assert from 'assert';
+import { summarizePlan, formatPlanSummary } from '../src/services/explain.js';
+import { findViolations } from '../src/services/cost-guard.js';
+import logger from '../src/utils/logging.js';
+
+// An analyzed plan with a large sequential scan, a misestimate and a sort spilling to disk
+const analyzedPlan = {
+  "Plan": {
+    "Node Type": "Sort",
+    "Total Cost": 1200, "Plan Rows": 100, "Actual Rows": 5000, "Actual Loops": 1, "Actual Total Time": 90,
+    "Sort Method": "external merge", "Sort Space Type": "Disk", "Sort Space Used": 2048,
+    "Plans": [
+      {
+        "Node Type": "Seq Scan", "Relation Name": "orders", "Schema": "public",
+        "Total Cost": 1000, "Plan Rows": 100, "Actual Rows": 5000, "Actual Loops": 1, "Actual Total Time": 60
+      }
+    ]
+  },
+  "Planning Time": 0.5,
+  "Execution Time": 91
+};
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Plan Summary Test");
+  
+  const summary = summarizePlan(analyzedPlan, {
+    largeTableRows: 10000,
+    tableRows: { 'public.orders': 250000 }
+  });
+  
+  assert.strictEqual(summary.totalCost, 1200);
+  assert.strictEqual(summary.executionTimeMs, 91);
+  
+  // Self time excludes children: the sort took 90 - 60 = 30 ms on its own
+  assert.strictEqual(summary.expensiveNodes[0].nodeType, 'Seq Scan');
+  assert.strictEqual(summary.expensiveNodes[0].selfTimeMs, 60);
+  assert.strictEqual(summary.expensiveNodes[1].selfTimeMs, 30);
+  
+  assert.deepStrictEqual(summary.sequentialScans, [
+    { relation: 'public.orders', planRows: 100, actualRows: 5000, tableRows: 250000, large: true }
+  ]);
+  assert.strictEqual(summary.misestimates.length, 2);
+  assert.strictEqual(summary.misestimates[0].factor, 50);
+  assert.strictEqual(summary.diskSpills.length, 1);
+  assert.ok(summary.warnings.some((warning) => warning.includes('spilled to disk')));
+  
+  // Without ANALYZE nodes are ranked by estimated cost and small scans aren't flagged
+  const estimated = summarizePlan({
+    "Plan": {
+      "Node Type": "Seq Scan", "Relation Name": "tags", "Schema": "public",
+      "Total Cost": 12, "Plan Rows": 40
+    }
+  }, { largeTableRows: 10000, tableRows: { 'public.tags': 40 } });
+  
+  assert.strictEqual(estimated.sequentialScans[0].large, false);
+  assert.strictEqual(estimated.misestimates.length, 0);
+  assert.ok(formatPlanSummary(estimated).includes('No obvious problems found.'));
+  
+  // The cost guard flags every threshold the plan passes; null disables a check
+  const violations = findViolations(summary, { maxCost: 1000, maxRows: null, seqScanRows: 100000 });
+  assert.deepStrictEqual(violations.map((violation) => violation.kind), ['cost', 'seq_scan']);
+  assert.strictEqual(violations[1].relation, 'public.orders');
+  assert.strictEqual(violations[1].estimate, 250000);
+  assert.deepStrictEqual(findViolations(estimated, { maxCost: 1000, maxRows: 1000, seqScanRows: 1000 }), []);
+  
+  logger.info("✅ Plan summary tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * PostgREST Test
+ * Checks that select_rows arguments become PostgREST select strings and requests,
+ * and that selected rows are masked along with their embedded rows
+ */
+import assert from 'assert';
+import {
+  buildSelect,
+  isMissingRpcError,
+  maskSelectedRows,
+  parseSelectRequest,
+  SelectRowsError,
+} from '../src/services/postgrest.js';
+import { parseMaskingPolicy } from '../src/services/masking.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("PostgREST Test");
+
+  // Select strings
+  assert.strictEqual(buildSelect(undefined), '*');
+  assert.strictEqual(buildSelect(['*']), '*');
+  assert.strictEqual(buildSelect(['id', 'first name']), 'id,"first name"');
+  assert.strictEqual(
+    buildSelect(['id'], [
+      { table: 'teams', alias: 'team', foreignKey: 'people_team_id_fkey', inner: true, columns: ['id', 'name'] },
+      { table: 'posts', embed: [{ table: 'comments', columns: ['body'] }] },
+    ]),
+    'id,team:teams!people_team_id_fkey!inner(id,name),posts(*,comments(body))'
+  );
+  const invalidName = (columns: any[]) => assert.throws(() => buildSelect(columns),
+    (error: any) => error instanceof SelectRowsError && error.code === 'INVALID_REQUEST');
+  invalidName(['id,secret']);
+  invalidName(['count()']);
+  invalidName(['']);
+  invalidName([42]);
+
+  // Tool arguments
+  assert.deepStrictEqual(parseSelectRequest({ table: 'people' }, 100), {
+    schema: 'public',
+    table: 'people',
+    columns: undefined,
+    embed: undefined,
+    filters: undefined,
+    order: undefined,
+    limit: 100,
+    offset: 0,
+    count: false,
+  });
+  const request = parseSelectRequest({
+    table: 'people',
+    schema: 'app',
+    embed: [{ table: 'teams', foreign_key: 'people_team_id_fkey', inner: true, embed: [{ table: 'orgs' }] }],
+    filters: [{ column: 'age', op: 'range', value: [18, null] }],
+    order: [{ column: 'name', ascending: false, nulls_first: true }, { column: 'id' }],
+    limit: 5,
+    offset: 10,
+    count: true,
+  }, 100);
+  assert.deepStrictEqual(request.embed, [{ table: 'teams', foreignKey: 'people_team_id_fkey', inner: true, embed: [{ table: 'orgs' }] }]);
+  assert.deepStrictEqual(request.order, [{ column: 'name', ascending: false, nullsFirst: true }, { column: 'id', ascending: true }]);
+  assert.strictEqual(request.limit, 5);
+  assert.strictEqual(request.offset, 10);
+  assert.strictEqual(request.count, true);
+
+  const invalidArguments = (args: any) => assert.throws(() => parseSelectRequest(args, 100),
+    (error: any) => error instanceof SelectRowsError && error.code === 'INVALID_REQUEST');
+  invalidArguments({ table: 'people', limit: 101 });
+  invalidArguments({ table: 'people', columns: 'id' });
+  invalidArguments({ table: 'people', embed: [{ alias: 'team' }] });
+  invalidArguments({ table: 'people', filters: { column: 'id', op: 'eq', value: 1 } });
+
+  // Missing sqlquery function
+  assert.strictEqual(isMissingRpcError({ code: 'PGRST202', message: 'Could not find the function public.sqlquery(sql) in the schema cache' }), true);
+  assert.strictEqual(isMissingRpcError({ code: '42P01', message: 'relation "people" does not exist' }), false);
+  assert.strictEqual(isMissingRpcError(null), false);
+
+  // Masking follows the table of each embedded row
+  const policy = parseMaskingPolicy({
+    rules: [
+      { table: 'people', column: 'email', action: 'null' },
+      { table: 'teams', column: 'budget', action: 'partial', showLast: 2 },
+    ],
+  });
+  const rows = [
+    { id: 1, email: 'ann@example.com', team: { name: 'Core', budget: '125000', email: 'core@example.com' }, posts: [] },
+    { id: 2, email: null, team: null, posts: [{ email: 'kept@example.com' }] },
+  ];
+  const masked = maskSelectedRows(policy, rows, { schema: 'public', name: 'people' },
+    [{ table: 'teams', alias: 'team' }, { table: 'posts' }]);
+  assert.deepStrictEqual(masked.masked, ['people.email', 'teams.budget']);
+  assert.deepStrictEqual(masked.rows, [
+    { id: 1, email: null, team: { name: 'Core', budget: '****00', email: 'core@example.com' }, posts: [] },
+    { id: 2, email: null, team: null, posts: [{ email: 'kept@example.com' }] },
+  ]);
+  // The input rows are left alone
+  assert.strictEqual(rows[0].email, 'ann@example.com');
+
+  logger.info("✅ PostgREST tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+
+/**
+ * Prompts Test
+ * Checks loading prompt templates from PROMPTS_DIR, the validation of their arguments and
+ * placeholders, and filling them with argument values
+ */
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../src/config/env.js';
+import { listPrompts, PromptError, renderPrompt, validatePrompt } from '../src/services/prompts.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Asserts that a template is rejected with a matching message
+ */
+function invalid(candidate: any, message: RegExp) {
+  assert.throws(() => validatePrompt(candidate), (error: any) => error instanceof PromptError && message.test(error.message), message.source);
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Prompts Test");
+
+  const builtIn = ['explain_table', 'write_query', 'review_sql', 'data_quality'];
+  assert.deepStrictEqual(listPrompts().map((prompt) => prompt.name), builtIn);
+
+  // Templates are normalized; placeholders may be arguments or context blocks whose arguments are declared
+  assert.deepStrictEqual(validatePrompt({
+    name: 'rename-column',
+    template: 'Rename {{ column }} in {{table}}.\n{{table_description}}\n{{column}}',
+    arguments: [{ name: 'table', required: true, default: 7 }, { name: 'column', description: 'Column', required: 'yes' }],
+  }), {
+    name: 'rename-column',
+    description: '',
+    arguments: [
+      { name: 'table', description: undefined, required: true, default: undefined },
+      { name: 'column', description: 'Column', required: false, default: undefined },
+    ],
+    template: 'Rename {{ column }} in {{table}}.\n{{table_description}}\n{{column}}',
+  });
+  assert.strictEqual(validatePrompt({ name: 'overview', template: '{{schema_overview}}' }).arguments.length, 0);
+
+  invalid(null, /needs a "name"/);
+  invalid({ name: 'two words', template: '' }, /needs a "name"/);
+  invalid({ name: 'x' }, /needs a "template" string/);
+  invalid({ name: 'x', template: '', arguments: [{ name: 'bad-name' }] }, /argument without a valid "name"/);
+  invalid({ name: 'x', template: '{{nope}}' }, /unknown placeholder \{\{nope\}\}/);
+  invalid({ name: 'x', template: '{{query_plan}}' }, /\{\{query_plan\}\}, which needs the argument\(s\): sql/);
+
+  // Files in PROMPTS_DIR add prompts and replace built-in ones; bad files and templates are skipped
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-test-'));
+  env.PROMPTS_DIR = dir;
+  fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify([
+    {
+      name: 'greet',
+      description: 'Greets someone',
+      template: '{{greeting}}, {{name}}! Rows: {{sample_rows}}',
+      arguments: [{ name: 'name', required: true }, { name: 'greeting', default: 'Hello' }, { name: 'sample_rows' }],
+    },
+    { name: 'broken', template: '{{missing}}' },
+  ]));
+  fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify({
+    name: 'review_sql',
+    description: 'Shorter review',
+    template: 'Review {{sql}}',
+    arguments: [{ name: 'sql', required: true }],
+  }));
+  fs.writeFileSync(path.join(dir, 'c.json'), '{ not json');
+  fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+  const prompts = listPrompts();
+  assert.deepStrictEqual(prompts.map((prompt) => prompt.name), [...builtIn, 'greet']);
+  assert.strictEqual(prompts.find((prompt) => prompt.name === 'review_sql')!.description, 'Shorter review');
+
+  // Arguments fill their placeholders, with defaults for omitted ones; an argument wins over a context block
+  assert.deepStrictEqual(await renderPrompt('greet', { name: 'Ada', sample_rows: 3 }), {
+    description: 'Greets someone',
+    text: 'Hello, Ada! Rows: 3'
+  });
+  assert.strictEqual((await renderPrompt('greet', { name: 'Ada', greeting: '', sample_rows: 'none' })).text, 'Hello, Ada! Rows: none');
+  assert.strictEqual((await renderPrompt('review_sql', { sql: 'SELECT 1' })).text, 'Review SELECT 1');
+
+  await assert.rejects(renderPrompt('greet', { greeting: 'Hi' }), (error: any) =>
+    error instanceof PromptError && error.message === 'Prompt "greet" requires the argument "name"');
+  await assert.rejects(renderPrompt('broken'), (error: any) => error instanceof PromptError && error.message === 'Unknown prompt: broken');
+
+  // Context blocks only read schemas the server exposes
+  await assert.rejects(renderPrompt('write_query', { question: 'How many?', schema: 'pg_catalog' }), (error: any) =>
+    error instanceof PromptError && /Schema "pg_catalog" is not exposed/.test(error.message));
+
+  // An unreadable directory leaves the built-in prompts
+  env.PROMPTS_DIR = path.join(dir, 'missing');
+  assert.deepStrictEqual(listPrompts().map((prompt) => prompt.name), builtIn);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  logger.info("✅ Prompts tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
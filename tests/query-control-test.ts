@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+/**
+ * Query Control Test
+ * Checks how per-call timeouts are resolved against the configured limits, how interrupted
+ * queries are told apart, and the cancel requests sent for pg connections
+ */
+import assert from 'assert';
+import * as net from 'net';
+import { env } from '../src/config/env.js';
+import { QUERY_CANCELED } from '../src/services/backends/errors.js';
+import { sendCancelRequest } from '../src/services/backends/pg.js';
+import {
+  currentQueryControl,
+  describeInterruption,
+  QueryControlError,
+  resolveTimeout,
+  runWithQueryControl
+} from '../src/services/query-control.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Query Control Test");
+
+  // Without a timeout_ms the default applies; 0 disables it
+  assert.strictEqual(resolveTimeout(undefined), 30000);
+  env.QUERY_TIMEOUT_MS = '5000';
+  assert.strictEqual(resolveTimeout(null), 5000);
+  env.QUERY_TIMEOUT_MS = '0';
+  assert.strictEqual(resolveTimeout(undefined), null);
+
+  // Requested timeouts are capped by QUERY_MAX_TIMEOUT_MS; 0 allows any
+  assert.strictEqual(resolveTimeout(1000), 1000);
+  assert.strictEqual(resolveTimeout('2000'), 2000);
+  assert.strictEqual(resolveTimeout(900000), 300000);
+  env.QUERY_MAX_TIMEOUT_MS = '60000';
+  assert.strictEqual(resolveTimeout(90000), 60000);
+  env.QUERY_MAX_TIMEOUT_MS = '0';
+  assert.strictEqual(resolveTimeout(900000), 900000);
+
+  for (const invalid of [0, -5, 1.5, '', 'soon', true, [5], {}]) {
+    assert.throws(() => resolveTimeout(invalid), (error: any) =>
+      error instanceof QueryControlError && error.code === 'INVALID_TIMEOUT', String(invalid));
+  }
+
+  // Limits apply to the callback they are run with
+  env.QUERY_TIMEOUT_MS = '';
+  assert.deepStrictEqual(currentQueryControl(), { timeoutMs: 30000 });
+  await runWithQueryControl({ timeoutMs: 1234 }, async () => {
+    await Promise.resolve();
+    assert.strictEqual(currentQueryControl().timeoutMs, 1234);
+  });
+
+  // Statement timeouts and cancellations by the database
+  const timeout = { code: QUERY_CANCELED, message: 'canceling statement due to statement timeout' };
+  assert.deepStrictEqual(describeInterruption(timeout, { timeoutMs: 1000 }), {
+    code: 'QUERY_TIMEOUT',
+    message: 'Query cancelled: it ran longer than the statement timeout of 1000 ms',
+    timeoutMs: 1000
+  });
+  assert.strictEqual(describeInterruption(timeout, { timeoutMs: null })!.message, 'Query cancelled: it ran longer than the statement timeout');
+  assert.deepStrictEqual(describeInterruption({ code: QUERY_CANCELED, message: 'canceling statement due to user request' }, { timeoutMs: 1000 }), {
+    code: 'QUERY_CANCELLED',
+    message: 'Query cancelled by the database: canceling statement due to user request',
+    timeoutMs: 1000
+  });
+
+  // A cancelled request wins over the error it caused
+  const controller = new AbortController();
+  const control = { timeoutMs: 1000, signal: controller.signal };
+  assert.strictEqual(describeInterruption(timeout, control)!.code, 'QUERY_TIMEOUT');
+  controller.abort();
+  assert.deepStrictEqual(describeInterruption(timeout, control), {
+    code: 'QUERY_CANCELLED',
+    message: 'Query cancelled: the client cancelled the request',
+    timeoutMs: 1000
+  });
+  assert.strictEqual(describeInterruption(new Error('fetch failed'), control)!.code, 'QUERY_CANCELLED');
+
+  // Other errors aren't interruptions
+  assert.strictEqual(describeInterruption(new Error('syntax error'), { timeoutMs: 1000 }), null);
+  assert.strictEqual(describeInterruption({ code: '42P01', message: 'relation does not exist' }, { timeoutMs: 1000 }), null);
+  assert.strictEqual(describeInterruption(undefined, { timeoutMs: null }), null);
+
+  // Cancel requests carry the connection's process ID and secret key, and the server closes the socket
+  const received: Buffer[] = [];
+  const server = net.createServer((socket) => {
+    socket.on('data', (chunk) => received.push(chunk));
+    socket.on('end', () => socket.end());
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  try {
+    await sendCancelRequest({ host: '127.0.0.1', port }, 4242, -123456789);
+    const packet = Buffer.concat(received);
+    assert.deepStrictEqual(
+      [packet.length, packet.readInt32BE(0), packet.readInt32BE(4), packet.readInt32BE(8), packet.readInt32BE(12)],
+      [16, 16, 80877102, 4242, -123456789]
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+  await assert.rejects(sendCancelRequest({ host: '127.0.0.1', port }, 1, 1), /ECONNREFUSED/);
+
+  logger.info("✅ Query control tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
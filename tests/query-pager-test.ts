@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+
+/**
+ * Query Pager Test
+ * Checks the row and byte budgets of result pages, their truncation metadata, and the page
+ * tokens of open results: single use, bound to a target, limited in number and expiring
+ */
+import assert from 'assert';
+import { env } from '../src/config/env.js';
+import { createArrayCursor } from '../src/services/backends/array-cursor.js';
+import type { QueryCursor } from '../src/services/backends/types.js';
+import { closeAllPages, fetchNextPage, PageBudgetError, pageCursor, PageTokenError, resolveBudget } from '../src/services/query-pager.js';
+import { runWithTarget } from '../src/services/targets.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Creates an in-memory cursor that records whether it was closed
+ */
+function trackedCursor(rows: any[], overrides: Partial<Pick<QueryCursor, 'totalRows' | 'read'>> = {}): QueryCursor & { closed: boolean } {
+  const cursor = createArrayCursor(rows);
+  const tracked = {
+    totalRows: cursor.totalRows,
+    fields: cursor.fields,
+    closed: false,
+    read: (count: number) => cursor.read(count),
+    ...overrides,
+    async close() {
+      tracked.closed = true;
+      await cursor.close();
+    }
+  };
+  return tracked;
+}
+
+/**
+ * Asserts that a page token can't be used
+ */
+async function rejected(token: string, message: RegExp) {
+  await assert.rejects(fetchNextPage(token, { maxRows: 10, maxBytes: 100000 }),
+    (error: any) => error instanceof PageTokenError && message.test(error.message));
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Query Pager Test");
+
+  env.TARGETS = 'main,other';
+
+  // A per-call max_rows can lower the configured row limit but never raise it
+  assert.deepStrictEqual(resolveBudget(undefined), { maxRows: 100, maxBytes: 100000 });
+  assert.deepStrictEqual(resolveBudget(null, { maxRows: 20, maxBytes: 500 }), { maxRows: 20, maxBytes: 500 });
+  assert.deepStrictEqual(resolveBudget(5), { maxRows: 5, maxBytes: 100000 });
+  assert.deepStrictEqual(resolveBudget('7'), { maxRows: 7, maxBytes: 100000 });
+  assert.deepStrictEqual(resolveBudget(1000), { maxRows: 100, maxBytes: 100000 });
+  for (const invalid of ['abc', 0, -1, 2.5, '', true, [5], {}, NaN]) {
+    assert.throws(() => resolveBudget(invalid), (error: any) =>
+      error instanceof PageBudgetError && error.code === 'INVALID_MAX_ROWS', String(invalid));
+  }
+  const rows = [1, 2, 3, 4, 5].map((id) => ({ id, title: `todo ${id}` }));
+  const ids = (page: { rows: any[] }) => page.rows.map((row) => row.id);
+
+  // The row budget ends a page; later pages continue where it stopped
+  const cursor = trackedCursor(rows);
+  const first = await pageCursor(cursor, { maxRows: 2, maxBytes: 100000 });
+  assert.deepStrictEqual(ids(first), [1, 2]);
+  assert.deepStrictEqual(first.columns, [{ name: 'id', type: 'numeric' }, { name: 'title', type: 'text' }]);
+  assert.deepStrictEqual(
+    [first.rowCount, first.rowsReturned, first.totalRows, first.truncated, first.truncatedBy],
+    [2, 2, 5, true, 'rows']
+  );
+  assert.ok(first.nextPageToken);
+
+  const second = await fetchNextPage(first.nextPageToken!, { maxRows: 2, maxBytes: 100000 });
+  assert.deepStrictEqual(ids(second), [3, 4]);
+  assert.deepStrictEqual([second.rowsReturned, second.truncated], [4, true]);
+
+  // Tokens are single use
+  await rejected(first.nextPageToken!, /invalid or has expired/);
+
+  // The last page closes the cursor and has no token
+  const last = await fetchNextPage(second.nextPageToken!, { maxRows: 2, maxBytes: 100000 });
+  assert.deepStrictEqual(ids(last), [5]);
+  assert.deepStrictEqual([last.rowsReturned, last.totalRows, last.truncated, last.truncatedBy, last.nextPageToken], [5, 5, false, undefined, undefined]);
+  assert.ok(cursor.closed);
+
+  // A result that exactly fills the budget isn't truncated
+  const exact = trackedCursor(rows.slice(0, 2));
+  const whole = await pageCursor(exact, { maxRows: 2, maxBytes: 100000 });
+  assert.deepStrictEqual([whole.truncated, whole.nextPageToken, exact.closed], [false, undefined, true]);
+
+  // The byte budget ends a page too, but every page has at least one row
+  const wide = [1, 2, 3].map((id) => ({ id, text: 'x'.repeat(50) }));
+  const rowBytes = Buffer.byteLength(JSON.stringify(wide[0]));
+  const byBytes = await pageCursor(trackedCursor(wide), { maxRows: 10, maxBytes: rowBytes * 2 });
+  assert.deepStrictEqual([ids(byBytes), byBytes.truncated, byBytes.truncatedBy], [[1, 2], true, 'bytes']);
+  const oversized = await fetchNextPage(byBytes.nextPageToken!, { maxRows: 10, maxBytes: 10 });
+  assert.deepStrictEqual([ids(oversized), oversized.truncatedBy], [[3], undefined]);
+
+  // Unknown totals are filled in once the result is exhausted
+  const streaming = trackedCursor(rows, { totalRows: null });
+  const unknown = await pageCursor(streaming, { maxRows: 3, maxBytes: 100000 });
+  assert.strictEqual(unknown.totalRows, null);
+  assert.strictEqual((await fetchNextPage(unknown.nextPageToken!, { maxRows: 3, maxBytes: 100000 })).totalRows, 5);
+
+  // Tokens only continue on the target the query ran against, and stay valid after a mismatch
+  const onMain = await pageCursor(trackedCursor(rows), { maxRows: 2, maxBytes: 100000 });
+  await runWithTarget('other', () => rejected(onMain.nextPageToken!, /target "main"/));
+  assert.deepStrictEqual(ids(await fetchNextPage(onMain.nextPageToken!, { maxRows: 2, maxBytes: 100000 })), [3, 4]);
+
+  // At most QUERY_MAX_OPEN_CURSORS results stay open; the oldest is closed first
+  await closeAllPages();
+  env.QUERY_MAX_OPEN_CURSORS = '2';
+  const cursors = [trackedCursor(rows), trackedCursor(rows), trackedCursor(rows)];
+  const pages = [];
+  for (const open of cursors) {
+    pages.push(await pageCursor(open, { maxRows: 1, maxBytes: 100000 }));
+  }
+  assert.deepStrictEqual(cursors.map((open) => open.closed), [true, false, false]);
+  await rejected(pages[0].nextPageToken!, /invalid or has expired/);
+  assert.deepStrictEqual(ids(await fetchNextPage(pages[1].nextPageToken!, { maxRows: 1, maxBytes: 100000 })), [2]);
+
+  // Open results are closed on shutdown
+  await closeAllPages();
+  assert.deepStrictEqual(cursors.map((open) => open.closed), [true, true, true]);
+
+  // Unfetched results expire after QUERY_PAGE_TTL_SECONDS
+  env.QUERY_PAGE_TTL_SECONDS = '1';
+  const idle = trackedCursor(rows);
+  const parked = await pageCursor(idle, { maxRows: 1, maxBytes: 100000 });
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  assert.ok(idle.closed);
+  await rejected(parked.nextPageToken!, /invalid or has expired/);
+
+  // A failed read closes the cursor
+  const failing = trackedCursor(rows, { read: async () => { throw new Error('connection lost'); } });
+  await assert.rejects(pageCursor(failing), /connection lost/);
+  assert.ok(failing.closed);
+
+  logger.info("✅ Query pager tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
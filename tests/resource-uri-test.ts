@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+/**
+ * Resource URI Test
+ * Checks that resource URIs of every kind of database object round-trip, whatever the names
+ * contain, and that other URIs are not mistaken for them
+ */
+import assert from 'assert';
+import { buildResourceUri, parseResourceUri, parseSampleUri, ResourceRef } from '../src/services/resource-uri.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Resource URI Test");
+
+  // Every kind of object, including names that need encoding
+  const refs: ResourceRef[] = [
+    { kind: 'schema', schema: 'public', name: 'public' },
+    { kind: 'table', schema: 'public', name: 'todos' },
+    { kind: 'table', schema: 'My Schema', name: 'order/items?x=1#top' },
+    { kind: 'view', schema: 'app', name: 'open todos' },
+    { kind: 'materialized_view', schema: 'app', name: 'stats_100%' },
+    { kind: 'function', schema: 'public', name: 'add', args: 'integer, integer' },
+    { kind: 'function', schema: 'public', name: 'now_utc', args: '' },
+    { kind: 'function', schema: 'public', name: 'f(x)', args: 'text[]' },
+    { kind: 'type', schema: 'public', name: 'mood' },
+    { kind: 'sequence', schema: 'public', name: 'todos_id_seq' },
+  ];
+  for (const ref of refs) {
+    const uri = buildResourceUri('abc', ref);
+    assert.ok(uri.startsWith('supabase://abc.supabase.co/schemas/'), uri);
+    assert.deepStrictEqual(parseResourceUri(uri), ref, uri);
+  }
+  assert.strictEqual(buildResourceUri('abc', refs[5]), 'supabase://abc.supabase.co/schemas/public/functions/add(integer%2C%20integer)');
+
+  // Legacy table URIs refer to public; query strings are ignored
+  assert.deepStrictEqual(parseResourceUri('supabase://abc.supabase.co/tables/todos'), { kind: 'table', schema: 'public', name: 'todos' });
+  assert.deepStrictEqual(parseResourceUri('supabase://abc.supabase.co/schemas/app/views/v?target=prod'), { kind: 'view', schema: 'app', name: 'v' });
+
+  // Anything else isn't an object URI
+  for (const uri of [
+    'supabase://abc.supabase.co',
+    'supabase://abc.supabase.co/schemas/',
+    'supabase://abc.supabase.co/schemas/public/indexes/todos_pkey',
+    'supabase://abc.supabase.co/schemas/public/tables',
+    'supabase://abc.supabase.co/schemas/public/tables/todos/columns',
+    'supabase://abc.supabase.co/schemas/public/functions/add',
+    'supabase://abc.supabase.co/schemas/public/tables/%E0%A4%A',
+    'supabase://abc.supabase.co/targets',
+    'audit://queries',
+    'https://abc.supabase.co/schemas/public',
+  ]) {
+    assert.strictEqual(parseResourceUri(uri), null, uri);
+  }
+
+  // Sample URIs point at tables, views and materialized views only
+  assert.deepStrictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/app/materialized_views/stats/sample?rows=5'),
+    { kind: 'materialized_view', schema: 'app', name: 'stats' });
+  assert.deepStrictEqual(parseSampleUri('supabase://abc.supabase.co/tables/todos/sample'), { kind: 'table', schema: 'public', name: 'todos' });
+  assert.strictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/public/types/mood/sample'), null);
+  assert.strictEqual(parseSampleUri('supabase://abc.supabase.co/schemas/public/tables/todos'), null);
+
+  logger.info("✅ Resource URI tests passed");
+}
+
+// Run tests
+main();
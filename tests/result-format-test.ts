@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+/**
+ * Result Format Test
+ * Checks that rows are rendered correctly in each output format
+ */
+import assert from 'assert';
+import { parseResultFormat, renderResult, ResultFormatError } from '../src/utils/result-format.js';
+import logger from '../src/utils/logging.js';
+
+const result = {
+  columns: [
+    { name: 'id', type: 'integer' },
+    { name: 'note', type: 'text' }
+  ],
+  rows: [
+    { id: 1, note: 'plain' },
+    { id: 22, note: 'has, comma and "quotes"' },
+    { id: 3, note: null },
+    { id: 4, note: 'a | pipe\nand a newline that makes this cell rather long' }
+  ],
+  metadata: { rowCount: 4, truncated: false }
+};
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Result Format Test");
+  
+  assert.strictEqual(parseResultFormat(undefined), 'json');
+  assert.strictEqual(parseResultFormat('csv'), 'csv');
+  assert.throws(() => parseResultFormat('xml'), ResultFormatError);
+  
+  // JSON formats carry the columns and metadata alongside the rows
+  const compact = JSON.parse(renderResult(result, 'compact')[0]);
+  assert.deepStrictEqual(compact.columns, result.columns);
+  assert.strictEqual(compact.rowCount, 4);
+  assert.ok(!renderResult(result, 'compact')[0].includes('\n'));
+  
+  const ndjson = renderResult(result, 'ndjson')[0].split('\n');
+  assert.strictEqual(ndjson.length, 5);
+  assert.deepStrictEqual(JSON.parse(ndjson[0]).columns, result.columns);
+  assert.deepStrictEqual(JSON.parse(ndjson[2]), result.rows[1]);
+  
+  // CSV keeps the header out of the body and quotes special characters
+  const [header, csv] = renderResult(result, 'csv');
+  assert.ok(header.startsWith('Columns: id (integer), note (text)'));
+  const lines = csv.split('\r\n');
+  assert.strictEqual(lines[0], 'id,note');
+  assert.strictEqual(lines[2], '22,"has, comma and ""quotes"""');
+  assert.strictEqual(lines[3], '3,');
+  
+  // Markdown tables are aligned, escaped and truncated
+  const markdown = renderResult(result, 'markdown', { maxCellWidth: 20 })[0].split('\n\n')[1].split('\n');
+  assert.strictEqual(markdown.length, 6);
+  assert.ok(markdown[1].startsWith('| --:'));
+  assert.ok(markdown[5].includes('a \\| pipe\\nand a ne…'));
+  assert.ok(markdown[4].includes('NULL'));
+  assert.ok(markdown.every((line) => line.length === markdown[0].length));
+  
+  logger.info("✅ Result format tests passed");
+}
+
+// Run tests
+main();
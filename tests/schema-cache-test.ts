@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Schema Cache Test
+ * Checks that introspection results are reused per target until they expire or are invalidated,
+ * that failures aren't kept, and how catalog fingerprints are compared to find changed objects
+ */
+import assert from 'assert';
+import { env } from '../src/config/env.js';
+import type { ObjectFingerprint } from '../src/services/introspection.js';
+import { cachedIntrospection, invalidateSchemaCache } from '../src/services/schema-cache.js';
+import { compareFingerprints } from '../src/services/schema-watcher.js';
+import { runWithTarget } from '../src/services/targets.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Returns a catalog object with the given definition hash
+ */
+function object(kind: ObjectFingerprint['kind'], name: string, hash: string, args: string | null = null): ObjectFingerprint {
+  return { kind, schema: 'public', name, args, hash };
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Schema Cache Test");
+
+  env.TARGETS = 'main,other';
+  let loads = 0;
+  const load = (error: any = null) => async () => ({ data: ++loads, error });
+
+  // Results are reused per key and per target, also while the first load is still running
+  const [first, concurrent] = await Promise.all([cachedIntrospection('tables', load()), cachedIntrospection('tables', load())]);
+  assert.deepStrictEqual([first.data, concurrent.data, loads], [1, 1, 1]);
+  assert.strictEqual((await cachedIntrospection('views', load())).data, 2);
+  assert.strictEqual((await runWithTarget('other', () => cachedIntrospection('tables', load()))).data, 3);
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 1);
+
+  // Invalidating one target leaves the others
+  assert.strictEqual(invalidateSchemaCache('main'), 2);
+  assert.strictEqual(invalidateSchemaCache('main'), 0);
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 4);
+  assert.strictEqual((await runWithTarget('other', () => cachedIntrospection('tables', load()))).data, 3);
+  assert.strictEqual(invalidateSchemaCache(), 2);
+
+  // Errors, returned or thrown, are not kept
+  assert.strictEqual((await cachedIntrospection('failing', load({ message: 'timeout' }))).data, 5);
+  assert.strictEqual((await cachedIntrospection('failing', load())).data, 6);
+  await assert.rejects(cachedIntrospection('throwing', async () => { throw new Error('connection lost'); }), /connection lost/);
+  assert.strictEqual((await cachedIntrospection('throwing', load())).data, 7);
+
+  // Results expire after SCHEMA_CACHE_TTL_SECONDS; 0 disables the cache
+  invalidateSchemaCache();
+  env.SCHEMA_CACHE_TTL_SECONDS = '1';
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 8);
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 8);
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 9);
+
+  env.SCHEMA_CACHE_TTL_SECONDS = '0';
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 10);
+  assert.strictEqual((await cachedIntrospection('tables', load())).data, 11);
+
+  // Unchanged catalogs, in any order, have no changes
+  const before = [object('table', 'todos', 'a'), object('view', 'open_todos', 'b'), object('function', 'add', 'c', 'integer, integer')];
+  assert.deepStrictEqual(compareFingerprints(before, [...before].reverse()), { listChanged: false, changed: [] });
+
+  // Altered objects change without changing the listing
+  assert.deepStrictEqual(compareFingerprints(before, [object('table', 'todos', 'a2'), before[1], before[2]]), {
+    listChanged: false,
+    changed: [{ kind: 'table', schema: 'public', name: 'todos' }]
+  });
+
+  // Created and dropped objects change the listing; overloads and kinds are told apart
+  assert.deepStrictEqual(compareFingerprints(before, [
+    before[0],
+    object('materialized_view', 'open_todos', 'b'),
+    before[2],
+    object('function', 'add', 'd', 'bigint, bigint'),
+  ]), {
+    listChanged: true,
+    changed: [
+      { kind: 'materialized_view', schema: 'public', name: 'open_todos' },
+      { kind: 'function', schema: 'public', name: 'add', args: 'bigint, bigint' },
+      { kind: 'view', schema: 'public', name: 'open_todos' },
+    ]
+  });
+
+  logger.info("✅ Schema cache tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Schema Diff Test
+ * Checks that snapshots are compared object by object and reconciled with the expected DDL
+ */
+import assert from 'assert';
+import { buildReconcileDdl, diffSnapshots, SchemaSnapshot } from '../src/services/schema-diff.js';
+import type { ColumnDescription, TableDescription } from '../src/services/introspection.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Builds a column with the usual defaults
+ */
+function column(name: string, type: string, extra: Partial<ColumnDescription> = {}): ColumnDescription {
+  return { name, type, nullable: true, default: null, identity: null, generated: null, comment: null, ...extra };
+}
+
+/**
+ * Builds a table with the usual defaults
+ */
+function table(name: string, extra: Partial<TableDescription> = {}): TableDescription {
+  return {
+    schema: 'public', name, kind: 'table', comment: null, estimatedRowCount: null,
+    columns: [], primaryKey: null, foreignKeys: [], referencedBy: [],
+    uniqueConstraints: [], checkConstraints: [], indexes: [],
+    ...extra
+  };
+}
+
+/**
+ * Builds a snapshot of the public schema
+ */
+function snapshot(target: string, tables: TableDescription[], types: SchemaSnapshot['types'] = []): SchemaSnapshot {
+  return { version: 1, target, capturedAt: '2024-01-01T00:00:00.000Z', schemas: ['public'], tables, types };
+}
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("Schema Diff Test");
+
+  const prod = snapshot('prod', [
+    table('teams', {
+      columns: [column('id', 'integer', { nullable: false }), column('name', 'text')],
+      primaryKey: { name: 'teams_pkey', columns: ['id'] },
+      indexes: [{ name: 'teams_pkey', definition: 'CREATE UNIQUE INDEX teams_pkey ON public.teams USING btree (id)', unique: true, primary: true }]
+    }),
+    table('legacy', { columns: [column('id', 'integer')] })
+  ], [{ schema: 'public', name: 'mood', kind: 'enum', comment: null, values: ['happy', 'sad'] }]);
+
+  const dev = snapshot('dev', [
+    table('teams', {
+      comment: 'Teams',
+      columns: [column('id', 'integer', { nullable: false }), column('name', 'varchar(100)', { nullable: false }), column('mood', 'mood')],
+      primaryKey: { name: 'teams_pkey', columns: ['id'] },
+      uniqueConstraints: [{ name: 'teams_name_key', columns: ['name'] }],
+      indexes: [
+        { name: 'teams_pkey', definition: 'CREATE UNIQUE INDEX teams_pkey ON public.teams USING btree (id)', unique: true, primary: true },
+        { name: 'teams_name_key', definition: 'CREATE UNIQUE INDEX teams_name_key ON public.teams USING btree (name)', unique: true, primary: false },
+        { name: 'teams_mood_idx', definition: 'CREATE INDEX teams_mood_idx ON public.teams USING btree (mood)', unique: false, primary: false }
+      ]
+    }),
+    table('people', {
+      columns: [column('id', 'bigint', { nullable: false, identity: 'always' }), column('team_id', 'integer')],
+      primaryKey: { name: 'people_pkey', columns: ['id'] },
+      foreignKeys: [{
+        name: 'people_team_id_fkey', columns: ['team_id'], referencedSchema: 'public', referencedTable: 'teams',
+        referencedColumns: ['id'], onUpdate: 'NO ACTION', onDelete: 'CASCADE',
+        definition: 'FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE'
+      }]
+    })
+  ], [{ schema: 'public', name: 'mood', kind: 'enum', comment: null, values: ['happy', 'sad', 'meh'] }]);
+
+  // Identical snapshots produce an empty diff
+  assert.strictEqual(diffSnapshots(prod, prod, ['public']).identical, true);
+
+  const diff = diffSnapshots(prod, dev, ['public']);
+  assert.strictEqual(diff.identical, false);
+  assert.deepStrictEqual(diff.tables.added.map((t) => t.name), ['people']);
+  assert.deepStrictEqual(diff.tables.removed, [{ schema: 'public', name: 'legacy', kind: 'table' }]);
+
+  const teams = diff.tables.changed[0];
+  assert.strictEqual(teams.name, 'teams');
+  assert.deepStrictEqual(teams.comment, { from: null, to: 'Teams' });
+  assert.deepStrictEqual(teams.columns.added.map((c) => c.name), ['mood']);
+  assert.deepStrictEqual(teams.columns.changed, [{
+    name: 'name',
+    changes: { type: { from: 'text', to: 'varchar(100)' }, nullable: { from: true, to: false } }
+  }]);
+  assert.deepStrictEqual(teams.constraints.added, [{ name: 'teams_name_key', type: 'unique', definition: 'UNIQUE ("name")' }]);
+  // Indexes backing constraints follow their constraint and aren't reported twice
+  assert.deepStrictEqual(teams.indexes.added.map((i) => i.name), ['teams_mood_idx']);
+  assert.deepStrictEqual(diff.types.changed, [{ schema: 'public', name: 'mood', values: { added: ['meh'], removed: [] } }]);
+
+  // Only the requested schemas are compared
+  assert.strictEqual(diffSnapshots(prod, dev, ['app']).identical, true);
+
+  const ddl = buildReconcileDdl(diff);
+  assert.deepStrictEqual(ddl, [
+    `ALTER TYPE "public"."mood" ADD VALUE IF NOT EXISTS 'meh';`,
+    `CREATE TABLE "public"."people" (\n  "id" bigint GENERATED ALWAYS AS IDENTITY NOT NULL,\n  "team_id" integer,\n  CONSTRAINT "people_pkey" PRIMARY KEY ("id")\n);`,
+    `ALTER TABLE "public"."teams" ADD COLUMN "mood" mood;`,
+    `ALTER TABLE "public"."teams" ALTER COLUMN "name" TYPE varchar(100) USING "name"::varchar(100);`,
+    `ALTER TABLE "public"."teams" ALTER COLUMN "name" SET NOT NULL;`,
+    `ALTER TABLE "public"."teams" ADD CONSTRAINT "teams_name_key" UNIQUE ("name");`,
+    `CREATE INDEX teams_mood_idx ON public.teams USING btree (mood);`,
+    `COMMENT ON TABLE "public"."teams" IS 'Teams';`,
+    `ALTER TABLE "public"."people" ADD CONSTRAINT "people_team_id_fkey" FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE;`,
+    `DROP TABLE "public"."legacy";`
+  ]);
+
+  // The reverse direction drops what the forward direction creates
+  const reverse = buildReconcileDdl(diffSnapshots(dev, prod, ['public']));
+  assert.ok(reverse.includes(`DROP TABLE "public"."people";`));
+  assert.ok(reverse.includes(`ALTER TABLE "public"."teams" DROP CONSTRAINT "teams_name_key";`));
+  assert.ok(reverse.includes(`DROP INDEX "public"."teams_mood_idx";`));
+  assert.ok(reverse.some((statement) => statement.startsWith(`-- "public"."mood" no longer has the values meh`)));
+
+  logger.info("✅ Schema diff tests passed");
+}
+
+// Run tests
+main();
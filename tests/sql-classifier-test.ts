@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+/**
+ * SQL Classifier Test
+ * Checks which statements the read-only classifier accepts and rejects
+ */
+import assert from 'assert';
+import { classifyReadOnly } from '../src/utils/sql-classifier.js';
+import logger from '../src/utils/logging.js';
+
+// Statements that must be accepted
+const allowed = [
+  "SELECT 1",
+  "select * from users where id = 1;",
+  "WITH recent AS (SELECT * FROM orders) SELECT count(*) FROM recent",
+  "VALUES (1, 'a'), (2, 'b')",
+  "TABLE users",
+  "SHOW search_path",
+  "EXPLAIN SELECT * FROM users",
+  "EXPLAIN (FORMAT JSON, ANALYZE) SELECT * FROM users",
+  "(SELECT 1) UNION (SELECT 2)",
+  "SELECT 'DROP TABLE users; DELETE FROM x' AS text",
+  "SELECT $$ INSERT INTO t VALUES (1) $$",
+  "SELECT 1 -- ; DROP TABLE users",
+  "SELECT /* ; UPDATE users SET x = 1 */ 1",
+  "SELECT \"update\" FROM audit",
+  "SELECT substring(name FOR 3) FROM users",
+];
+
+// Statements that must be rejected, with the expected violation code
+const rejected: Array<[string, string]> = [
+  ["", 'EMPTY_STATEMENT'],
+  ["  ;  ", 'EMPTY_STATEMENT'],
+  ["SELECT 1; SELECT 2", 'MULTIPLE_STATEMENTS'],
+  ["SELECT 1; DROP TABLE users", 'MULTIPLE_STATEMENTS'],
+  ["INSERT INTO users (name) VALUES ('x')", 'WRITE_STATEMENT'],
+  ["update users set name = 'x'", 'WRITE_STATEMENT'],
+  ["DELETE FROM users", 'WRITE_STATEMENT'],
+  ["TRUNCATE users", 'WRITE_STATEMENT'],
+  ["DROP TABLE users", 'DDL_STATEMENT'],
+  ["CREATE TABLE t (id int)", 'DDL_STATEMENT'],
+  ["GRANT ALL ON users TO anon", 'DDL_STATEMENT'],
+  ["BEGIN", 'TRANSACTION_CONTROL'],
+  ["SET ROLE postgres", 'SESSION_STATEMENT'],
+  ["DO $$ BEGIN DELETE FROM users; END $$", 'PROCEDURAL_CODE'],
+  ["WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone", 'DATA_MODIFYING_CTE'],
+  ["WITH x AS (SELECT 1) UPDATE users SET a = 1", 'DATA_MODIFYING_CTE'],
+  ["SELECT * INTO backup FROM users", 'SELECT_INTO'],
+  ["SELECT * FROM users FOR UPDATE", 'LOCKING_CLAUSE'],
+  ["SELECT nextval('users_id_seq')", 'SIDE_EFFECT_FUNCTION'],
+  ["SELECT pg_catalog.set_config('role', 'postgres', false)", 'SIDE_EFFECT_FUNCTION'],
+  ["SELECT \"pg_terminate_backend\"(123)", 'SIDE_EFFECT_FUNCTION'],
+  ["SELECT query_to_xml('delete from users', true, true, '')", 'SIDE_EFFECT_FUNCTION'],
+  ["EXPLAIN ANALYZE DELETE FROM users", 'WRITE_STATEMENT'],
+  ["SELECT 'unterminated", 'SYNTAX_ERROR'],
+];
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("SQL Classifier Test");
+  
+  for (const sql of allowed) {
+    const result = classifyReadOnly(sql);
+    assert.ok(result.allowed, `Expected statement to be allowed: ${sql} (${!result.allowed ? result.reason : ''})`);
+  }
+  
+  for (const [sql, code] of rejected) {
+    const result = classifyReadOnly(sql);
+    assert.ok(!result.allowed, `Expected statement to be rejected: ${sql}`);
+    if (!result.allowed) {
+      assert.strictEqual(result.code, code, `Unexpected violation for: ${sql}`);
+    }
+  }
+  
+  logger.info("✅ SQL classifier tests passed", {
+    allowed: allowed.length,
+    rejected: rejected.length
+  });
+}
+
+// Run tests
+main();
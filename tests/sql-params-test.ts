@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * SQL Parameters Test
+ * Checks that bind parameters are validated, cast and inlined correctly
+ */
+import assert from 'assert';
+import {
+  bindParameters,
+  inlineParameters,
+  normalizeParameters,
+  QueryParameterError
+} from '../src/utils/sql-params.js';
+import { classifyReadOnly } from '../src/utils/sql-classifier.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Asserts that a call fails with the given parameter error code
+ */
+function assertRejected(fn: () => unknown, code: string) {
+  assert.throws(fn, (error: any) => error instanceof QueryParameterError && error.code === code);
+}
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("SQL Parameters Test");
+  
+  // Type hints become casts; placeholders in strings and comments are left alone
+  const bound = bindParameters(
+    "select * from t where id = $1 and tags && $2 and note = '$3' -- $3",
+    normalizeParameters([{ value: 7, type: 'bigint' }, { value: ['a'], type: 'text[]' }])
+  );
+  assert.strictEqual(bound.sql, "select * from t where id = $1::bigint and tags && $2::text[] and note = '$3' -- $3");
+  assert.deepStrictEqual(bound.values, [7, ['a']]);
+  
+  // JSON values are sent as JSON text
+  assert.deepStrictEqual(bindParameters('select $1', normalizeParameters([{ value: [1, 2], type: 'jsonb' }])).values, ['[1,2]']);
+  
+  // Objects without a "value" key are plain values
+  assert.deepStrictEqual(normalizeParameters([{ a: 1 }]), [{ value: { a: 1 } }]);
+  
+  assertRejected(() => bindParameters('select $1, $2', normalizeParameters([1])), 'PARAMETER_COUNT_MISMATCH');
+  assertRejected(() => bindParameters('select 1', normalizeParameters([1])), 'PARAMETER_COUNT_MISMATCH');
+  assertRejected(() => normalizeParameters([{ value: 1, type: 'int); drop table t; --' }]), 'INVALID_PARAMETER_TYPE');
+  assertRejected(() => normalizeParameters('1'), 'INVALID_PARAMETERS');
+  assert.deepStrictEqual(normalizeParameters([{ value: 1, type: 'numeric(10, 2)' }]), [{ value: 1, type: 'numeric(10, 2)' }]);
+  
+  // Only type names pass as hints, since they become casts in the SQL text
+  for (const type of ['int', 'pg_catalog.int4', 'varchar(20)', 'text[]', 'int[3][]', 'double precision', 'character varying(10)',
+    'timestamp with time zone', 'TIMESTAMP(3) WITHOUT TIME ZONE', 'time with time zone']) {
+    assert.strictEqual(normalizeParameters([{ value: 1, type }])[0].type, type);
+  }
+  for (const type of ['int FROM pg_terminate_backend(1234)', 'int FROM lo_unlink(16400)', 'int, pg_cancel_backend(1)',
+    'int where true', 'public.mood.x', 'text) --', 'int[1); select 1']) {
+    assertRejected(() => normalizeParameters([{ value: 1, type }]), 'INVALID_PARAMETER_TYPE');
+  }
+  
+  // The classifier sees the bound SQL, casts included, the way the query tool checks it
+  const cast = bindParameters('select $1', normalizeParameters([{ value: 1, type: 'int' }]));
+  assert.strictEqual(classifyReadOnly(cast.sql).allowed, true);
+  const bypass = classifyReadOnly('select $1::int from pg_terminate_backend(1234)');
+  assert.ok(!bypass.allowed && bypass.code === 'SIDE_EFFECT_FUNCTION');
+  
+  // Inlined values are quoted literals
+  assert.strictEqual(
+    inlineParameters("select $1, $2::int[], $3, $4", ["it's", [1, null], null, true]),
+    "select 'it''s', '{\"1\",NULL}'::int[], NULL, 'true'"
+  );
+  
+  logger.info("✅ SQL parameters tests passed");
+}
+
+// Run tests
+main();
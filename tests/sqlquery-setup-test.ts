@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * sqlquery Setup Test
+ * Checks the options of setup_sqlquery_function and the statements that install the function
+ */
+import assert from 'assert';
+import { buildSetupStatements, parseSetupOptions, SqlquerySetupError } from '../src/services/sqlquery-setup.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Main test function
+ */
+function main() {
+  logger.info("sqlquery Setup Test");
+
+  // Options: read-only and granted to service_role unless asked otherwise
+  assert.deepStrictEqual(parseSetupOptions({}), { readOnly: true, grantTo: ['service_role'], replace: false, dryRun: false });
+  assert.deepStrictEqual(parseSetupOptions({ read_only: false, grant_to: ['authenticated', 'authenticated'], replace: true, dry_run: true }),
+    { readOnly: false, grantTo: ['authenticated'], replace: true, dryRun: true });
+  const invalid = (args: any) => assert.throws(() => parseSetupOptions(args),
+    (error: any) => error instanceof SqlquerySetupError && error.code === 'INVALID_ARGUMENTS');
+  invalid({ grant_to: [] });
+  invalid({ grant_to: 'service_role' });
+  invalid({ grant_to: ['PUBLIC'] });
+  invalid({ grant_to: [''] });
+
+  // Statements
+  const readOnly = buildSetupStatements(parseSetupOptions({}), ['anon', 'authenticated']);
+  assert.match(readOnly[0], /^CREATE FUNCTION public\.sqlquery\(query text\)/);
+  assert.match(readOnly[0], /SECURITY INVOKER/);
+  assert.match(readOnly[0], /SET search_path = pg_catalog, public/);
+  assert.match(readOnly[0], /set_config\('transaction_read_only', 'on', true\)/);
+  assert.deepStrictEqual(readOnly.slice(2), [
+    'REVOKE ALL ON FUNCTION public.sqlquery(text) FROM PUBLIC',
+    'REVOKE ALL ON FUNCTION public.sqlquery(text) FROM "anon"',
+    'REVOKE ALL ON FUNCTION public.sqlquery(text) FROM "authenticated"',
+    'GRANT EXECUTE ON FUNCTION public.sqlquery(text) TO "service_role"',
+    "NOTIFY pgrst, 'reload schema'",
+  ]);
+
+  // A writable function has no read-only guard; replacing drops the old function first
+  const writable = buildSetupStatements(parseSetupOptions({ read_only: false, grant_to: ['my"role'] }), [], true);
+  assert.strictEqual(writable[0], 'DROP FUNCTION IF EXISTS public.sqlquery(text)');
+  assert.doesNotMatch(writable[1], /transaction_read_only/);
+  assert.match(writable[2], /returns its rows as JSON'$/);
+
+  // Statements without rows, such as a plain INSERT, run with EXECUTE and report the rows they affected
+  const body = writable[1];
+  assert.match(body, /FOR result IN EXECUTE query LOOP\n\s+results := pg_catalog\.array_append\(results, pg_catalog\.to_jsonb\(result\)\);\n\s+END LOOP;\n\s+EXCEPTION WHEN invalid_cursor_definition THEN/);
+  assert.match(body, /EXCEPTION WHEN invalid_cursor_definition THEN[^]*\n\s+EXECUTE query;\n\s+GET DIAGNOSTICS affected = ROW_COUNT;\n\s+results := ARRAY\[pg_catalog\.jsonb_build_object\('affected_rows', affected\)\];\n\s+END;\n\s+RETURN pg_catalog\.to_jsonb\(results\);/);
+  assert.match(body, /affected bigint;/);
+  // The read-only guard comes first, so writes are still refused by the read-only function
+  assert.ok(readOnly[0].indexOf('transaction_read_only') < readOnly[0].indexOf('EXECUTE query'));
+  assert.ok(writable.includes('GRANT EXECUTE ON FUNCTION public.sqlquery(text) TO "my""role"'));
+
+  logger.info("✅ sqlquery setup tests passed");
+}
+
+// Run tests
+main();
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Write Operations Test
+ * Checks the refusals of the write tools and the single-use, request-bound confirmation tokens
+ * of the preview-then-confirm flow
+ */
+import assert from 'assert';
+import { env } from '../src/config/env.js';
+import { runWithTarget } from '../src/services/targets.js';
+import {
+  checkAffectedRows,
+  executeWrite,
+  fingerprintRequest,
+  getWriteLimits,
+  issueConfirmation,
+  redeemConfirmation,
+  validateRequest,
+  WriteOperationError,
+  WriteRequest
+} from '../src/services/write-operations.js';
+import logger from '../src/utils/logging.js';
+
+/**
+ * Asserts that a call fails with a write error of the given code
+ */
+function refused(code: string) {
+  return (error: any) => error instanceof WriteOperationError && error.code === code;
+}
+
+/**
+ * Main test function
+ */
+async function main() {
+  logger.info("Write Operations Test");
+
+  // A writable target on the rpc backend, which can't run transactions, and a read-only one
+  env.TARGETS = 'scratch,prod';
+  env.TARGET_SCRATCH_SUPABASE_PROJECT_URL = 'https://scratch.supabase.co';
+  env.TARGET_SCRATCH_SUPABASE_API_KEY = 'key';
+  env.TARGET_PROD_READ_ONLY = 'true';
+
+  const update: WriteRequest = { kind: 'update', schema: 'public', table: 'todos', set: { done: true }, where: { id: 1 } };
+
+  // Nothing runs while the write tools are disabled
+  env.ENABLE_WRITE_TOOLS = 'false';
+  await assert.rejects(executeWrite(update), refused('WRITES_DISABLED'));
+  env.ENABLE_WRITE_TOOLS = 'true';
+
+  // Read-only targets refuse writes, with or without a confirmation token
+  await assert.rejects(runWithTarget('prod', () => executeWrite(update)), refused('TARGET_READ_ONLY'));
+  await assert.rejects(runWithTarget('prod', () => executeWrite(update, 'token')), refused('TARGET_READ_ONLY'));
+
+  // Updates and deletes need a filter; inserts need rows
+  const missingFilter: WriteRequest[] = [
+    { kind: 'delete', schema: 'public', table: 'todos' },
+    { kind: 'delete', schema: 'public', table: 'todos', where: {} },
+    { kind: 'update', schema: 'public', table: 'todos', set: { done: true }, where: [] as any },
+  ];
+  for (const request of missingFilter) {
+    assert.throws(() => validateRequest(request), refused('MISSING_FILTER'));
+    await assert.rejects(runWithTarget('scratch', () => executeWrite(request)), refused('MISSING_FILTER'));
+  }
+  assert.throws(() => validateRequest({ kind: 'update', schema: 'public', table: 'todos', where: { id: 1 } }), refused('INVALID_REQUEST'));
+  assert.throws(() => validateRequest({ kind: 'insert', schema: 'public', table: 'todos', rows: [] }), refused('INVALID_REQUEST'));
+  assert.throws(() => validateRequest({ kind: 'insert', schema: 'public', table: 'todos', rows: [{}] }), refused('INVALID_REQUEST'));
+  assert.throws(() => validateRequest({ kind: 'delete', schema: 'public', table: '', where: { id: 1 } }), refused('INVALID_REQUEST'));
+  validateRequest({ kind: 'insert', schema: 'public', table: 'todos', rows: [{ title: 'a' }] });
+
+  // Schemas hidden from the read paths can't be previewed or written either
+  env.SCHEMA_DENYLIST = 'private';
+  for (const schema of ['private', 'pg_catalog']) {
+    await assert.rejects(runWithTarget('scratch', () => executeWrite({ ...update, schema })), (error: any) =>
+      refused('INVALID_REQUEST')(error) && error.message === `Schema not exposed by this server: ${schema}`);
+    await assert.rejects(runWithTarget('scratch', () => executeWrite({ ...update, schema }, 'token')), refused('INVALID_REQUEST'));
+  }
+
+  // A valid request on a writable target gets as far as the database
+  await assert.rejects(runWithTarget('scratch', () => executeWrite(update)), /does not support transactions/);
+
+  // Fingerprints ignore key order but not values or the target
+  const fingerprint = fingerprintRequest({ ...update, target: 'scratch' });
+  assert.strictEqual(fingerprint, fingerprintRequest({ where: { id: 1 }, set: { done: true }, table: 'todos', schema: 'public', kind: 'update', target: 'scratch' }));
+  assert.notStrictEqual(fingerprint, fingerprintRequest({ ...update, where: { id: 2 }, target: 'scratch' }));
+  assert.notStrictEqual(fingerprint, fingerprintRequest({ ...update, target: 'prod' }));
+
+  // Tokens confirm the previewed row count once
+  const now = Date.now();
+  const preview = issueConfirmation(fingerprint, 3, 60_000, now);
+  assert.strictEqual(preview.expiresAt, now + 60_000);
+  assert.strictEqual(redeemConfirmation(preview.token, fingerprint, now + 1000), 3);
+  assert.throws(() => redeemConfirmation(preview.token, fingerprint, now + 1000), refused('INVALID_CONFIRMATION'));
+  assert.throws(() => redeemConfirmation('unknown', fingerprint, now), refused('INVALID_CONFIRMATION'));
+
+  // Tokens expire, and a token for another request is spent by the failed attempt
+  const expiring = issueConfirmation(fingerprint, 3, 60_000, now);
+  assert.throws(() => redeemConfirmation(expiring.token, fingerprint, now + 60_001), refused('INVALID_CONFIRMATION'));
+  const other = issueConfirmation(fingerprint, 3, 60_000, now);
+  assert.throws(() => redeemConfirmation(other.token, fingerprintRequest({ ...update, target: 'prod' }), now), refused('CONFIRMATION_MISMATCH'));
+  assert.throws(() => redeemConfirmation(other.token, fingerprint, now), refused('INVALID_CONFIRMATION'));
+
+  // Row counts are capped, and a confirmed write must match its preview
+  assert.strictEqual(getWriteLimits().maxAffectedRows, 100);
+  env.WRITE_MAX_AFFECTED_ROWS = '2';
+  assert.strictEqual(getWriteLimits().maxAffectedRows, 2);
+  checkAffectedRows('update', 100, 100);
+  checkAffectedRows('update', 3, 100, 3);
+  assert.throws(() => checkAffectedRows('delete', 101, 100), (error: any) =>
+    refused('TOO_MANY_ROWS')(error) && error.details.affectedRows === 101 && /WRITE_MAX_AFFECTED_ROWS/.test(error.message));
+  assert.throws(() => checkAffectedRows('update', 4, 100, 3), refused('PREVIEW_MISMATCH'));
+
+  logger.info("✅ Write operations tests passed");
+}
+
+// Run tests
+main().catch(error => {
+  logger.error("Test execution failed", { error });
+  process.exit(1);
+});